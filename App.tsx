@@ -1,51 +1,223 @@
-import React, { useState, useEffect } from 'react';
-import { Plant, PopulationStats } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Plant, PopulationStats, MatingDesign, Pedigree, GenomicModel, GenomicMethod, GermplasmProfile, ProgramConfig, Marker, MarkerRequirement, EpidemicRecord, FieldSettings, FieldTrial, IndexSettings, TraitValues,
+  SchemeSettings, SelectionScheme, SelectionReport, FounderPanel, ContributionPlan, ProgramState, SaveSlot, Timeline } from './types';
+import { createDonorPlants, assignBreedingValues, selectionResponse } from './utils/geneticsEngine';
 import {
-  createInitialPopulation, breedNextGeneration, calculateStats
-} from './utils/geneticsEngine';
-import { INITIAL_ENV_VARIANCE, POPULATION_SIZE, SELECTION_TYPES } from './constants';
+  plantFoundersAsync, growGenerationAsync, testGenerationAsync, trainGenomicModelAsync, relatednessAsync, contributionsAsync
+} from './utils/engineClient';
+import { Relatedness, TrialPlan } from './utils/breedingCycle';
+import { DEFAULT_PROGRAM_CONFIG, MATING_DESIGNS, GP_MAX_TRAINING_SIZE, TRIAL_LOCATIONS, MET_REPLICATES,
+  DEFAULT_MUTATION_RATE, MAX_MUTATION_RATE, GERMPLASM_PROFILES, DONORS_PER_INTRODUCTION, OCS_DEFAULT_DELTA_F,
+  DEFAULT_MARKER_DISTANCE, DEFAULT_FIELD_SETTINGS, FIELD_DESIGNS, GENETIC_SOURCE_LABELS, INDEX_MODES,
+  SELECTION_SCHEMES, AUTOSAVE_SLOT, AUTOSAVE_DELAY_MS
+} from './constants';
+import { getSeed, setSeed, getRngState, setRngState, parseSeed, randomSeed } from './utils/random';
+import { getArchitecture, setArchitecture, parseArchitecture, withGenomeLength, requiredGenomeLength } from './utils/architecture';
+import { recordGeneration, extendPedigree } from './utils/pedigree';
+import { applyGenomicModel } from './utils/genomicPrediction';
+import { runMultiEnvironmentTrial, stabilityDeviation, locationMeans } from './utils/multiEnvironment';
+import {
+  markersFromLoci, addLinkedMarkers, extendWithMarkers, passesMarkerFilter, hasMarkerFilter, markerLinkage, markerDosage
+} from './utils/markers';
+import { diseasePressure } from './utils/epidemic';
+import { buildSelectionIndex, defaultIndexSettings, indexValue } from './utils/selectionIndex';
+import {
+  selectByScheme, independentCulling, tandemTrait, realizedSelection, defaultSchemeSettings
+} from './utils/selectionSchemes';
+import { exportVcf, exportHapMap, exportPlink, exportPhenotypes, parseGenotypeFiles } from './utils/genotypeIO';
+import {
+  serializeProgram, parseProgram, saveProgram, autosaveProgram, loadProgram, listPrograms, deleteProgram
+} from './utils/programStore';
+import {
+  createTimeline, recordSnapshot, forkBranch, switchBranch, deleteBranch, activeBranch, tipGeneration, snapshotAt, branchOverlays
+} from './utils/timeline';
 import GenomeVisualizer from './components/GenomeVisualizer';
+import ManhattanPlot from './components/ManhattanPlot';
 import StatsPanel from './components/StatsPanel';
 import Scene3D from './components/Scene3D';
 import EducationModal from './components/EducationModal';
+import HybridProgramModal from './components/HybridProgramModal';
+import NewProgramModal from './components/NewProgramModal';
+import BatchRunModal from './components/BatchRunModal';
 import SelectionDistributionChart from './components/SelectionDistributionChart';
+import KinshipMatrix from './components/KinshipMatrix';
+import BranchTree from './components/BranchTree';
 import { getGeneticistAnalysis, generateScenario, setApiKey, isApiConfigured } from './services/geminiService';
-import { Dna, Activity, Sprout, ArrowRight, Target, Shield, Ruler, Zap, Key, ExternalLink, CloudRain, Sun, Cloud, RotateCcw, BookOpen, Layers, Info } from 'lucide-react';
+import { Dna, Activity, Sprout, ArrowRight, Target, Shield, Ruler, Zap, Key, ExternalLink, CloudRain, Sun, Cloud, RotateCcw, BookOpen, Layers, Info, Upload, MapPin, Globe, Scale, GitMerge, SlidersHorizontal, BarChart3, Crosshair, Grid3x3, Download, Save, Trash2, FlaskConical } from 'lucide-react';
+
+// Icons for the default corn traits; custom traits get the generic target
+const TRAIT_ICONS: Record<string, React.ElementType> = { yield: Target, resistance: Shield, height: Ruler };
+
+// Locus list typed as "8, 9" or "8 9"
+const parseLoci = (text: string): number[] =>
+  [...new Set(text.split(/[\s,;]+/).filter(Boolean).map(Number).filter(n => Number.isInteger(n) && n >= 0))];
+
+// Save generated text as a file
+const downloadText = (filename: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 const App: React.FC = () => {
   // Core State
+  const [config, setConfig] = useState<ProgramConfig>(DEFAULT_PROGRAM_CONFIG);
   const [generation, setGeneration] = useState<number>(1);
   const [population, setPopulation] = useState<Plant[]>([]);
+  const [pedigree, setPedigree] = useState<Pedigree>({});
   const [history, setHistory] = useState<PopulationStats[]>([]);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [selectionIntensity, setSelectionIntensity] = useState<number>(0.2);
-  const [envVariance, setEnvVariance] = useState<number>(INITIAL_ENV_VARIANCE);
+  const [envVariance, setEnvVariance] = useState<number>(DEFAULT_PROGRAM_CONFIG.initialEnvVariance);
   const [genomicSelectionEnabled, setGenomicSelectionEnabled] = useState<boolean>(false);
+  const [trainingSet, setTrainingSet] = useState<Plant[]>([]);
+  const [gpModel, setGpModel] = useState<GenomicModel | null>(null);
+  const [gpMethod, setGpMethod] = useState<GenomicMethod>('rrblup');
+  const [autoRetrain, setAutoRetrain] = useState<boolean>(false);
   const [analysisMsg, setAnalysisMsg] = useState<string>("Initialize the field to begin.");
   const [scenario, setScenario] = useState<string>("Normal Conditions");
   const [lastSelectedPlant, setLastSelectedPlant] = useState<Plant | null>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [seed, setSeedState] = useState<number>(getSeed());
+  const [seedInput, setSeedInput] = useState<string>(String(getSeed()));
+  const [architecture, setArchitectureState] = useState(getArchitecture());
+  const [matingDesign, setMatingDesign] = useState<MatingDesign>('random');
+  const [referenceParent, setReferenceParent] = useState<Plant | null>(null);
+  const [metEnabled, setMetEnabled] = useState<boolean>(false);
+  const [metTarget, setMetTarget] = useState<string>('blue'); // 'blue', 'stable' or a location id
+  const [mutationRate, setMutationRate] = useState<number>(DEFAULT_MUTATION_RATE);
+  const [ocsEnabled, setOcsEnabled] = useState<boolean>(false);
+  const [targetDeltaF, setTargetDeltaF] = useState<number>(OCS_DEFAULT_DELTA_F);
+  const [ocsPlan, setOcsPlan] = useState<ContributionPlan | null>(null);
+  const [markers, setMarkers] = useState<Marker[]>([]);
+  const [markerRequirements, setMarkerRequirements] = useState<Record<number, MarkerRequirement>>({});
+  const [markerInput, setMarkerInput] = useState<string>('8, 9');
+  const [markerDistance, setMarkerDistance] = useState<number>(DEFAULT_MARKER_DISTANCE);
+  const [inoculated, setInoculated] = useState<boolean>(false);
+  const [epidemic, setEpidemic] = useState<EpidemicRecord | null>(null);
+  const [fieldEnabled, setFieldEnabled] = useState<boolean>(false);
+  const [fieldSettings, setFieldSettings] = useState<FieldSettings>(DEFAULT_FIELD_SETTINGS);
+  const [fieldTrial, setFieldTrial] = useState<FieldTrial | null>(null);
+  const [indexSettings, setIndexSettings] = useState<IndexSettings>(() => defaultIndexSettings());
+  const [schemeSettings, setSchemeSettings] = useState<SchemeSettings>(() => defaultSchemeSettings());
+  const [selectionReport, setSelectionReport] = useState<SelectionReport | null>(null);
+
+  // Saved programs
+  const [saveSlots, setSaveSlots] = useState<SaveSlot[]>([]);
+  const [saveName, setSaveName] = useState<string>('');
+  const [autosavedAt, setAutosavedAt] = useState<string | null>(null);
+  const [storageReady, setStorageReady] = useState<boolean>(false); // Autosave waits until the last session is restored
+
+  // Branching history of this session
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [hiddenBranches, setHiddenBranches] = useState<Set<string>>(new Set());
 
   // Weather based on environmental variance
   const [weather, setWeather] = useState<'sunny' | 'cloudy' | 'rainy'>('sunny');
 
   // UI State
   const [isManualOpen, setIsManualOpen] = useState<boolean>(false);
+  const [isHybridOpen, setIsHybridOpen] = useState<boolean>(false);
+  const [isNewProgramOpen, setIsNewProgramOpen] = useState<boolean>(false);
+  const [isBatchOpen, setIsBatchOpen] = useState<boolean>(false);
   const [apiKey, setApiKeyState] = useState<string>('');
   const [showApiInput, setShowApiInput] = useState<boolean>(false);
   const [apiConfigured, setApiConfigured] = useState<boolean>(isApiConfigured());
   const [showCrossInfo, setShowCrossInfo] = useState<boolean>(false);
 
-  // Initialize
+  const selectedParents = useMemo(() => population.filter(p => selectedIds.has(p.id)), [population, selectedIds]);
+  const designInfo = MATING_DESIGNS.find(d => d.id === matingDesign)!;
+  const metLocationMeans = useMemo(() => locationMeans(population, TRIAL_LOCATIONS), [population]);
+  const linkageReport = useMemo(() => markerLinkage(population, markers, architecture), [population, markers, architecture]);
+  const markerFilterActive = hasMarkerFilter(markerRequirements);
+  const overlays = useMemo(() => (timeline ? branchOverlays(timeline, hiddenBranches) : []), [timeline, hiddenBranches]);
+
+  // What selection ranks on. Genomic selection uses predicted GEBVs - the true breeding
+  // values stay hidden. In a multi-environment trial the phenotype is the across-location
+  // BLUE, unless selecting for specific adaptation to one location.
+  const selectionValues = (p: Plant): TraitValues => {
+    if (genomicSelectionEnabled && p.gebv) return p.gebv;
+    if (p.met && p.met.phenotypes[metTarget]) return p.met.phenotypes[metTarget];
+    return p.phenotype;
+  };
+  // A singular covariance matrix (e.g. a trait with no variation left) has no index
+  const { index: selectionIndex, error: indexError } = useMemo(() => {
+    try {
+      return { index: buildSelectionIndex(population, indexSettings, selectionValues, selectionIntensity, architecture), error: '' };
+    } catch (err) {
+      return { index: null, error: err instanceof Error ? err.message : 'The selection index could not be solved.' };
+    }
+  }, [population, indexSettings, genomicSelectionEnabled, metTarget, selectionIntensity, architecture]);
+
+  // Initialize: pick up the autosaved program from the last session, or plant new founders
   useEffect(() => {
-    const initPop = createInitialPopulation(envVariance);
-    setPopulation(initPop);
-    const initialStats = calculateStats(initPop, 1);
-    setHistory([initialStats]);
-    setAnalysisMsg("Welcome, Breeder! F0 population initialized. High genetic variance (σ²G) present. Use GEBV view to see true breeding values. Select parents carefully considering trait linkages.");
-    setWeather('sunny');
+    const plantFounders = () => plantFoundersAsync(config, seed, undefined, trialPlan()).then(founders => {
+      setPopulation(founders.plants);
+      setPedigree(extendPedigree({}, founders.plants));
+      setTrainingSet(founders.plants);
+      setFieldTrial(founders.trial);
+      setHistory([founders.stats]);
+      setAnalysisMsg("Welcome, Breeder! F0 population initialized. High genetic variance (σ²G) present. Toggle Genomic Selection to train a marker model and predict GEBVs. Select parents carefully considering trait linkages.");
+      setWeather('sunny');
+    });
+    loadProgram(AUTOSAVE_SLOT)
+      .catch(err => {
+        console.error(err);
+        return null;
+      })
+      .then(saved => {
+        if (!saved) return plantFounders();
+        restoreProgram(saved.state);
+        setAutosavedAt(saved.savedAt);
+        setAnalysisMsg(`Welcome back! Your program was restored at F${saved.state.generation} from the autosave of ${new Date(saved.savedAt).toLocaleString()}.`);
+      })
+      .finally(() => {
+        setStorageReady(true);
+        refreshSaveSlots();
+      });
   }, []);
 
+  // Record each new generation on the timeline and autosave it once things settle. Only a
+  // new generation (or a retested or retrained one) and a new program setup trigger it,
+  // not every selection click; the autosave then writes the program as it stands when the
+  // timer fires, choices included. Nothing is recorded while a generation is being bred.
+  const latestProgram = useRef<(() => ProgramState) | null>(null);
+  useEffect(() => {
+    if (!storageReady || isProcessing || population.length === 0) return;
+    const snapshot = captureProgram();
+    setTimeline(prev => (prev ? recordSnapshot(prev, snapshot) : createTimeline(snapshot)));
+    const timer = setTimeout(() => {
+      autosaveProgram(latestProgram.current?.() ?? snapshot)
+        .then(entry => {
+          setAutosavedAt(entry.savedAt);
+          setSaveSlots(prev => [entry, ...prev.filter(e => e.slot !== entry.slot)]);
+        })
+        .catch(err => console.error(err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [storageReady, isProcessing, generation, population, config, architecture]);
+
+  // Pedigree relatedness of the chosen parents, worked out in the engine worker whenever the
+  // parents, the pedigree or the design change. A reply to an outdated request is dropped.
+  const [relatedness, setRelatedness] = useState<Relatedness | null>(null);
+  useEffect(() => {
+    let current = true;
+    const ref = (p: Plant) => ({ id: p.id, inbreeding: p.inbreeding });
+    relatednessAsync({
+      pedigree,
+      parents: selectedParents.map(ref),
+      design: matingDesign,
+      referenceParent: referenceParent && ref(referenceParent),
+      matrixIds: selectedParents.slice(0, 16).map(p => p.id),
+    })
+      .then(result => { if (current) setRelatedness(result); })
+      .catch(err => console.error(err));
+    return () => { current = false; };
+  }, [pedigree, selectedParents, matingDesign, referenceParent]);
+
   // Update weather based on environmental variance
   useEffect(() => {
     if (envVariance < 1.5) setWeather('sunny');
@@ -65,54 +237,267 @@ const App: React.FC = () => {
       newSelected.add(id);
     }
     setSelectedIds(newSelected);
+    setOcsPlan(null); // Manual changes fall back to equal contributions
+    setSelectionReport(null);
+  };
+
+  // Plants allowed to compete for selection on the given traits, or null (after telling
+  // the breeder why) when there are none
+  const selectionCandidates = (traitIds: string[]): Plant[] | null => {
+    if (genomicSelectionEnabled && !gpModel) {
+      alert("Train a genomic prediction model first.");
+      return null;
+    }
+    // Selecting for stability: only the more stable half (|b − 1| by Finlay-Wilkinson)
+    // is eligible, then selection on the BLUE as usual
+    let candidates = population;
+    if (metTarget === 'stable' && population.some(p => p.met)) {
+      const count = Math.ceil(population.length * selectionIntensity);
+      candidates = [...population]
+        .sort((a, b) => stabilityDeviation(a, traitIds) - stabilityDeviation(b, traitIds))
+        .slice(0, Math.max(count, Math.ceil(population.length / 2)));
+    }
+
+    // Marker-assisted selection: only plants with the required marker genotypes compete
+    if (markerFilterActive) {
+      candidates = candidates.filter(p => passesMarkerFilter(p, markers, markerRequirements));
+      if (candidates.length === 0) {
+        alert("No plant carries the required marker genotypes.");
+        return null;
+      }
+    }
+    return candidates;
+  };
+
+  // Record the chosen parents and how hard the scheme selected
+  const commitSelection = (chosen: Plant[], report: SelectionReport) => {
+    setSelectedIds(new Set(chosen.map(p => p.id)));
+    setOcsPlan(null);
+    setSelectionReport(report);
   };
 
   // Auto-select functions
-  const autoSelectByTrait = (trait: 'yield' | 'resistance' | 'height' | 'optimum') => {
-    const count = Math.ceil(POPULATION_SIZE * selectionIntensity);
-
-    let sorted: Plant[];
-
-    if (trait === 'optimum') {
-      // Selection index: weighted combination of traits (Smith-Hazel style)
-      sorted = [...population].sort((a, b) => {
-        const getValue = (p: Plant) => {
-          if (genomicSelectionEnabled) {
-            // Use GEBV
-            return p.breedingValue.yield * 0.5 + p.breedingValue.resistance * 0.3 + (p.breedingValue.height / 3) * 0.2;
-          }
-          // Use phenotype
-          return p.phenotype.yield * 0.5 + p.phenotype.resistance * 0.3 + (p.phenotype.height / 3) * 0.2;
-        };
-        return getValue(b) - getValue(a);
-      });
-    } else if (trait === 'height') {
-      // Dwarf selection - lower height preferred (semi-dwarf varieties)
-      const getValue = (p: Plant) => genomicSelectionEnabled ? p.breedingValue.height : p.phenotype.height;
-      sorted = [...population].sort((a, b) => getValue(a) - getValue(b));
+  const autoSelectByTrait = async (traitId: string, scheme: SelectionScheme = schemeSettings.scheme) => {
+    const candidates = selectionCandidates(traitId === 'optimum' ? Object.keys(architecture.indexWeights) : [traitId]);
+    if (!candidates) return;
+
+    let raw: (p: Plant) => number;
+    let getValue: (p: Plant) => number;
+    let criterion = 'Index';
+    let optimum: number | undefined;
+    if (traitId === 'optimum') {
+      // Selection index from the index builder
+      if (!selectionIndex) {
+        alert(indexError ? `No selection index: ${indexError}` : "The selection index needs at least 3 candidates.");
+        return;
+      }
+      raw = getValue = (p: Plant) => indexValue(selectionIndex, selectionValues(p));
     } else {
-      // Higher is better for yield and resistance
-      const getValue = (p: Plant) => genomicSelectionEnabled ? p.breedingValue[trait] : p.phenotype[trait];
-      sorted = [...population].sort((a, b) => getValue(b) - getValue(a));
+      // Rank toward the tail the trait's breeding direction asks for (e.g. dwarf = low height)
+      const trait = architecture.traits.find(t => t.id === traitId)!;
+      const sign = trait.direction === 'decrease' ? -1 : 1;
+      raw = (p: Plant) => selectionValues(p)[traitId];
+      getValue = (p: Plant) => raw(p) * sign;
+      criterion = trait.name;
+      optimum = trait.optimumValue;
+    }
+
+    // Optimal contribution selection: the number of parents and their shares follow
+    // from merit and relationships rather than from the selection intensity. Merits are
+    // worked out here; the plan itself is solved in the engine worker.
+    if (ocsEnabled) {
+      try {
+        const plan = await contributionsAsync(
+          pedigree, candidates.map(p => p.id), candidates.map(getValue), targetDeltaF, selectionIntensity
+        );
+        setSelectedIds(new Set(Object.keys(plan.contributions)));
+        setOcsPlan(plan);
+        setSelectionReport(null);
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'Optimal contribution selection failed.');
+      }
+      return;
+    }
+
+    const chosen = selectByScheme(scheme, candidates, getValue, selectionIntensity, raw, optimum);
+    const measured = scheme === 'stabilizing' || scheme === 'disruptive' ? raw : getValue;
+    commitSelection(chosen, realizedSelection(scheme, criterion, candidates, chosen, selectionValues, measured, architecture));
+  };
+
+  // Independent culling levels: every candidate past all thresholds at once
+  const selectByCulling = () => {
+    const candidates = selectionCandidates(architecture.traits.map(t => t.id));
+    if (!candidates) return;
+    const chosen = independentCulling(candidates, schemeSettings.cullingLevels, selectionValues, architecture);
+    if (chosen.length === 0) {
+      alert("No plant passes every culling level.");
+      return;
+    }
+    commitSelection(chosen, realizedSelection('culling', 'Culling levels', candidates, chosen, selectionValues, null, architecture));
+  };
+
+  const schemeInfo = SELECTION_SCHEMES.find(sc => sc.id === schemeSettings.scheme)!;
+  const tandemTraitId = tandemTrait(schemeSettings.tandemSchedule, generation, architecture);
+
+  // Marker panel from existing loci (a QTL is its own marker)
+  const addMarkerLoci = () => {
+    const added = markersFromLoci(parseLoci(markerInput), architecture, population)
+      .filter(m => !markers.some(existing => existing.locus === m.locus));
+    setMarkers([...markers, ...added]);
+  };
+
+  // New markers linked to the listed QTL at the chosen distance. The genome grows by one
+  // locus per marker, so the current plants are extended and the marker model is dropped.
+  const addLinkedMarkerLoci = () => {
+    const qtls = parseLoci(markerInput).filter(i => i < architecture.genomeLength);
+    if (qtls.length === 0) return;
+    const { architecture: arch, markers: added } = addLinkedMarkers(architecture, qtls, markerDistance);
+    if (added.length === 0) {
+      alert("Linked markers need QTL that sit on the genetic map.");
+      return;
+    }
+    const extend = (p: Plant) => extendWithMarkers(p, added, arch.genomeLength);
+    setArchitecture(arch);
+    setArchitectureState(arch);
+    setConfig(prev => ({ ...prev, genomeLength: arch.genomeLength }));
+    setPopulation(population.map(extend));
+    setTrainingSet(trainingSet.map(extend));
+    if (referenceParent) setReferenceParent(extend(referenceParent));
+    if (lastSelectedPlant) setLastSelectedPlant(extend(lastSelectedPlant));
+    if (gpModel) {
+      setGpModel(null);
+      setGenomicSelectionEnabled(false);
+    }
+    setMarkers([...markers, ...added]);
+    setAnalysisMsg(`Developed ${added.length} marker${added.length > 1 ? 's' : ''} ${markerDistance} cM from QTL ${added.map(m => m.qtl).join(', ')}. They are diagnostic in today's germplasm; watch recombination erode that.`);
+  };
+
+  // Marker-only selection: every plant with the required marker genotypes
+  const selectByMarkers = () => {
+    const passing = population.filter(p => passesMarkerFilter(p, markers, markerRequirements));
+    setSelectedIds(new Set(passing.map(p => p.id)));
+    setOcsPlan(null);
+  };
+
+  const clearMarkerPanel = () => {
+    setMarkers([]);
+    setMarkerRequirements({});
+  };
+
+  // Fit the prediction model on all phenotyped plants so far and predict the current candidates.
+  // The current generation is part of the training set here because it has been phenotyped.
+  // Model fitting runs in the engine worker; the breed button waits for it
+  const trainGenomicModel = async (method: GenomicMethod = gpMethod) => {
+    setIsProcessing(true);
+    try {
+      const trained = await trainGenomicModelAsync(trainingSet, method, generation, population);
+      setGpModel(trained.model);
+      setPopulation(trained.plants);
+      setHistory(prev => prev.map((h, i) => i === prev.length - 1 ? { ...h, gsAccuracy: trained.accuracy } : h));
+      if (lastSelectedPlant) setLastSelectedPlant(trained.plants.find(p => p.id === lastSelectedPlant.id) || null);
+      return trained.model;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Model training failed.');
+      return null;
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const toggleGenomicSelection = () => {
+    if (!genomicSelectionEnabled && !gpModel) trainGenomicModel();
+    setGenomicSelectionEnabled(!genomicSelectionEnabled);
+  };
+
+  // How the next generation is tested. The field trial's checks carry over from `previous`.
+  const trialPlan = (met: boolean = metEnabled, field: boolean = fieldEnabled, previous: FieldTrial | null = fieldTrial): TrialPlan =>
+    ({ met, field: field ? fieldSettings : null, previousChecks: previous?.checks ?? null });
+
+  // Replace the current generation with newly tested copies of itself
+  const retestCurrentGeneration = async (trials: TrialPlan) => {
+    setIsProcessing(true);
+    try {
+      const tested = await testGenerationAsync(population, generation, envVariance, trials, history[history.length - 2]);
+      setPopulation(tested.plants);
+      setHistory(prev => prev.map((h, i) => i === prev.length - 1 ? { ...h, ...tested.stats } : h));
+      setTrainingSet(prev => [...prev.slice(0, -population.length), ...tested.plants].slice(-GP_MAX_TRAINING_SIZE));
+      if (tested.trial) setFieldTrial(tested.trial);
+      if (lastSelectedPlant) setLastSelectedPlant(tested.plants.find(p => p.id === lastSelectedPlant.id) || null);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'The trial failed.');
+    } finally {
+      setIsProcessing(false);
     }
+  };
 
-    const topIds = new Set(sorted.slice(0, count).map(p => p.id));
-    setSelectedIds(topIds);
+  // Switching trials on tests the current generation right away; switching off
+  // takes effect with the next generation
+  const toggleMultiEnvironment = () => {
+    if (!metEnabled && population.length > 0 && !population.some(p => p.met)) {
+      retestCurrentGeneration(trialPlan(true, false));
+    }
+    if (metEnabled) setMetTarget('blue');
+    setMetEnabled(!metEnabled);
+  };
+
+  // Field layout, like trials, applies to the current generation as soon as it is enabled
+  const toggleFieldTrial = () => {
+    if (!fieldEnabled && !metEnabled && population.length > 0 && !population.some(p => p.field)) {
+      retestCurrentGeneration(trialPlan(false, true));
+    }
+    setFieldEnabled(!fieldEnabled);
+  };
+
+  const updateFieldSettings = (patch: Partial<FieldSettings>) => setFieldSettings(prev => ({ ...prev, ...patch }));
+
+  // Introduce outside germplasm: donor plants join the current candidates, already
+  // selected, and enter the pedigree as unrelated founders
+  const introduceGermplasm = (profile: GermplasmProfile) => {
+    if (population.length === 0) return;
+    const recorded = recordGeneration(pedigree, createDonorPlants(profile, DONORS_PER_INTRODUCTION, generation, envVariance, pedigree));
+    let donors = recorded.plants;
+    if (metEnabled) donors = runMultiEnvironmentTrial(donors, TRIAL_LOCATIONS, envVariance);
+    if (gpModel) donors = applyGenomicModel(donors, gpModel);
+
+    // Breeding values are relative to the pool the donors have joined
+    const pool = assignBreedingValues([...population, ...donors]);
+    setPopulation(pool);
+    setPedigree(recorded.pedigree);
+    setTrainingSet(prev => [...prev, ...donors].slice(-GP_MAX_TRAINING_SIZE));
+    setSelectedIds(prev => new Set([...prev, ...donors.map(d => d.id)]));
+    setOcsPlan(null);
+    const name = GERMPLASM_PROFILES.find(g => g.id === profile)!.name;
+    setAnalysisMsg(`Introduced ${donors.length} ${name.toLowerCase()} donors into the parent pool. Their alleles are tracked as donor genome from here on.`);
   };
 
   // Clear selection
   const clearSelection = () => {
     setSelectedIds(new Set());
     setLastSelectedPlant(null);
+    setOcsPlan(null);
+    setSelectionReport(null);
   };
 
   // Advance Generation (Breeding cycle)
   const advanceGeneration = async () => {
-    if (selectedIds.size < 2) {
-      alert("Select at least 2 parents to breed! Use Auto-Select buttons below.");
+    if (generation >= config.maxGenerations) {
+      alert(`The program ends at F${config.maxGenerations}. Start a new program to keep breeding.`);
+      return;
+    }
+    if (selectedIds.size < designInfo.minParents) {
+      alert(`Select at least ${designInfo.minParents} parent${designInfo.minParents > 1 ? 's' : ''} for ${designInfo.name}! Use Auto-Select buttons below.`);
+      return;
+    }
+    if (designInfo.needsReference && !referenceParent) {
+      alert("Choose a recurrent parent first: click a plant, then 'Use clicked'.");
       return;
     }
 
+    // Breeding from an earlier generation leaves the later ones on their branch and starts a new one
+    if (timeline && generation < tipGeneration(activeBranch(timeline))) {
+      setTimeline(forkBranch(timeline, captureProgram()));
+    }
+
     setIsProcessing(true);
     setShowCrossInfo(true);
 
@@ -124,18 +509,45 @@ const App: React.FC = () => {
       setScenario(newScenario.description);
       const newEnvVar = newScenario.envImpact;
 
-      // Simulate crossing and create offspring
-      const nextGen = breedNextGeneration(parents, generation, newEnvVar);
+      // Breed and grow the offspring in the engine worker: pedigree inbreeding, the trial
+      // (multi-environment BLUEs or a laid-out field), the season's epidemic - from disease
+      // scenarios or an inoculated nursery - and genomic prediction. Candidates are
+      // predicted before their own phenotypes enter training.
+      const grown = await growGenerationAsync({
+        parents,
+        currentGeneration: generation,
+        envVariance: newEnvVar,
+        design: matingDesign,
+        referenceParent,
+        mutationRate,
+        contributions: ocsPlan?.contributions ?? null,
+        config,
+        pedigree,
+        trials: trialPlan(),
+        diseasePressure: Math.max(diseasePressure(newScenario.description), inoculated ? 1 : 0),
+        model: gpModel,
+        retrain: gpModel && autoRetrain ? { trainingSet, method: gpMethod } : null,
+        previousStats: history[history.length - 1],
+      });
+      const nextGen = grown.plants;
+      const nextTraining = [...trainingSet, ...nextGen].slice(-GP_MAX_TRAINING_SIZE);
 
-      // Calculate population statistics
-      const stats = calculateStats(nextGen, generation + 1);
+      // Population statistics, including the response to this round of selection
+      const stats = { ...grown.stats, response: selectionResponse(population, parents, nextGen) };
 
       // Update state
       setPopulation(nextGen);
+      setPedigree(extendPedigree(pedigree, nextGen));
+      setGpModel(grown.model);
+      setTrainingSet(nextTraining);
       setHistory(prev => [...prev, stats]);
       setGeneration(prev => prev + 1);
       setEnvVariance(newEnvVar);
+      setEpidemic(grown.epidemic);
+      setFieldTrial(grown.trial);
       setSelectedIds(new Set());
+      setSelectionReport(null);
+      setOcsPlan(null);
       setLastSelectedPlant(null);
 
       // Get genetic analysis
@@ -151,21 +563,237 @@ const App: React.FC = () => {
     }
   };
 
-  // Reset simulation
-  const resetSimulation = () => {
-    const initPop = createInitialPopulation(INITIAL_ENV_VARIANCE);
+  // Reset simulation - a fresh random seed unless one is given (replay). The program
+  // parameters carry over unless new ones are given.
+  const resetSimulation = async (runSeed: number = randomSeed(), programConfig: ProgramConfig = config, panel?: FounderPanel) => {
+    const founders = await plantFoundersAsync(programConfig, runSeed, panel, trialPlan(metEnabled, fieldEnabled, null));
+    const initPop = founders.plants;
+    setConfig(programConfig);
+    setSeedState(runSeed);
+    setSeedInput(String(runSeed));
     setPopulation(initPop);
-    const initialStats = calculateStats(initPop, 1);
-    setHistory([initialStats]);
+    setPedigree(extendPedigree({}, initPop));
+    setTrainingSet(initPop);
+    setGpModel(null);
+    setGenomicSelectionEnabled(false);
+    setHistory([founders.stats]);
     setGeneration(1);
-    setEnvVariance(INITIAL_ENV_VARIANCE);
+    setEnvVariance(programConfig.initialEnvVariance);
     setSelectedIds(new Set());
+    setOcsPlan(null);
+    setSelectionReport(null);
     setLastSelectedPlant(null);
+    setReferenceParent(null);
+    setEpidemic(null);
+    setFieldTrial(founders.trial);
+    clearMarkerPanel(); // New founders carry no linkage disequilibrium with the old markers
     setScenario("Normal Conditions");
-    setAnalysisMsg("Simulation reset. New F0 population created with high genetic diversity.");
+    setTimeline(null); // A new program starts a new timeline
+    setAnalysisMsg(`Simulation reset. New F0 population created with high genetic diversity (seed ${runSeed}).`);
     setWeather('sunny');
   };
 
+  // Start a new program from the setup dialog; the genome is resized to the requested number of loci
+  const startProgram = async (programConfig: ProgramConfig, runSeed: number = randomSeed(), panel?: FounderPanel) => {
+    const arch = withGenomeLength(architecture, programConfig.genomeLength);
+    setArchitecture(arch);
+    setArchitectureState(arch);
+    setIndexSettings(defaultIndexSettings(arch));
+    setSchemeSettings(defaultSchemeSettings(arch));
+    await resetSimulation(runSeed, { ...programConfig, genomeLength: arch.genomeLength }, panel);
+    setAnalysisMsg(`New program: ${programConfig.populationSize} founders, ${programConfig.offspringCount} offspring per generation, ${arch.genomeLength} loci, ${programConfig.maxGenerations} generations (seed ${runSeed}).`);
+  };
+
+  // Load a custom crop definition (genetic architecture JSON) and start a new run with it
+  const handleArchitectureFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const arch = parseArchitecture(JSON.parse(await file.text()));
+      if (!confirmDiscard(`Loading crop "${arch.name}"`)) return;
+      setArchitecture(arch);
+      setArchitectureState(arch);
+      setIndexSettings(defaultIndexSettings(arch));
+      setSchemeSettings(defaultSchemeSettings(arch));
+      await resetSimulation(randomSeed(), { ...config, genomeLength: arch.genomeLength });
+      setAnalysisMsg(`Loaded crop "${arch.name}" with ${arch.traits.length} traits on ${arch.genomeLength} loci. New F0 population created.`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not read architecture file.');
+    }
+  };
+
+  // Current generation as genotype files for external tools
+  const exportGenotypes = (format: 'vcf' | 'hapmap' | 'plink' | 'phenotypes') => {
+    const base = `${architecture.name.replace(/[^\w-]+/g, '_')}_F${generation}`;
+    if (format === 'vcf') downloadText(`${base}.vcf`, exportVcf(population, architecture));
+    if (format === 'hapmap') downloadText(`${base}.hmp.txt`, exportHapMap(population, architecture));
+    if (format === 'phenotypes') downloadText(`${base}_phenotypes.txt`, exportPhenotypes(population, architecture));
+    if (format === 'plink') {
+      const { ped, map } = exportPlink(population, architecture);
+      downloadText(`${base}.ped`, ped);
+      downloadText(`${base}.map`, map);
+    }
+  };
+
+  // Seed a new program with a founder panel read from VCF, HapMap or PLINK files. Markers
+  // map to loci in genome order (or by their L<index> names); the panel must cover every QTL.
+  const handleGenotypeFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      const panel = parseGenotypeFiles(await Promise.all(files.map(async f => ({ name: f.name, text: await f.text() }))));
+      const required = requiredGenomeLength(architecture);
+      if (panel.loci < required) {
+        throw new Error(`${architecture.name} needs genotypes at ${required} loci; the file has ${panel.loci}.`);
+      }
+      if (!confirmDiscard('Importing founders')) return;
+      const runSeed = randomSeed();
+      await startProgram({ ...config, populationSize: panel.genomes.length, genomeLength: panel.loci }, runSeed, panel);
+      setAnalysisMsg(`Imported ${panel.genomes.length} founders with ${panel.loci} loci from ${panel.format.toUpperCase()}${panel.missing ? ` (${panel.missing} missing calls set to allele 0)` : ''}. Phenotypes were simulated from their genotypes (seed ${runSeed}).`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not read genotype file.');
+    }
+  };
+
+  // The whole program as it stands, for saving
+  const captureProgram = (): ProgramState => ({
+    config, architecture, seed, rngState: getRngState(), generation, population, pedigree, history,
+    selectedIds: [...selectedIds], selectionIntensity, envVariance, scenario, analysisMsg,
+    genomicSelectionEnabled, trainingSet, gpModel, gpMethod, autoRetrain, matingDesign, referenceParent,
+    metEnabled, metTarget, mutationRate, ocsEnabled, targetDeltaF, ocsPlan, markers, markerRequirements,
+    inoculated, epidemic, fieldEnabled, fieldSettings, fieldTrial, indexSettings, schemeSettings,
+  });
+  latestProgram.current = captureProgram;
+
+  // Put a saved program or snapshot back, including the crop and the position in the seeded stream
+  const restoreProgram = (state: ProgramState) => {
+    setArchitecture(state.architecture);
+    setArchitectureState(state.architecture);
+    setSeed(state.seed);
+    setRngState(state.rngState);
+    setSeedState(state.seed);
+    setSeedInput(String(state.seed));
+    setConfig(state.config);
+    setGeneration(state.generation);
+    setPopulation(state.population);
+    setPedigree(state.pedigree);
+    setHistory(state.history);
+    setSelectedIds(new Set(state.selectedIds));
+    setSelectionIntensity(state.selectionIntensity);
+    setEnvVariance(state.envVariance);
+    setScenario(state.scenario);
+    setAnalysisMsg(state.analysisMsg);
+    setGenomicSelectionEnabled(state.genomicSelectionEnabled);
+    setTrainingSet(state.trainingSet);
+    setGpModel(state.gpModel);
+    setGpMethod(state.gpMethod);
+    setAutoRetrain(state.autoRetrain);
+    setMatingDesign(state.matingDesign);
+    setReferenceParent(state.referenceParent);
+    setMetEnabled(state.metEnabled);
+    setMetTarget(state.metTarget);
+    setMutationRate(state.mutationRate);
+    setOcsEnabled(state.ocsEnabled);
+    setTargetDeltaF(state.targetDeltaF);
+    setOcsPlan(state.ocsPlan);
+    setMarkers(state.markers);
+    setMarkerRequirements(state.markerRequirements);
+    setInoculated(state.inoculated);
+    setEpidemic(state.epidemic);
+    setFieldEnabled(state.fieldEnabled);
+    setFieldSettings(state.fieldSettings);
+    setFieldTrial(state.fieldTrial);
+    setIndexSettings(state.indexSettings);
+    setSchemeSettings(state.schemeSettings);
+    setSelectionReport(null);
+    setLastSelectedPlant(null);
+  };
+
+  // Replacing a program that has bred past its founders needs the breeder's go-ahead
+  const confirmDiscard = (action: string): boolean =>
+    generation <= 1 || window.confirm(`${action} replaces the current program at F${generation}. Save it to a slot first if you want to keep it. Continue?`);
+
+  const refreshSaveSlots = () => {
+    listPrograms().then(setSaveSlots).catch(err => console.error(err));
+  };
+
+  const saveToSlot = async () => {
+    const name = saveName.trim() || `${architecture.name} F${generation}`;
+    try {
+      await saveProgram(name, captureProgram());
+      setSaveName('');
+      refreshSaveSlots();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not save the program.');
+    }
+  };
+
+  const loadFromSlot = async (entry: SaveSlot) => {
+    if (!confirmDiscard(`Loading "${entry.name}"`)) return;
+    try {
+      const saved = await loadProgram(entry.slot);
+      if (!saved) throw new Error(`The save "${entry.name}" no longer exists.`);
+      restoreProgram(saved.state);
+      setTimeline(null);
+      setAnalysisMsg(`Loaded "${saved.name}" at F${saved.state.generation} (saved ${new Date(saved.savedAt).toLocaleString()}).`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not load the program.');
+    }
+    refreshSaveSlots();
+  };
+
+  const removeSlot = async (entry: SaveSlot) => {
+    if (!window.confirm(`Delete the save "${entry.name}"?`)) return;
+    await deleteProgram(entry.slot).catch(err => console.error(err));
+    refreshSaveSlots();
+  };
+
+  // The program as a file, to move it to another browser or hand it in
+  const exportProgram = () => {
+    const name = saveName.trim() || `${architecture.name} F${generation}`;
+    downloadText(`${name.replace(/[^\w-]+/g, '_')}.cornbreeder.json`, serializeProgram(captureProgram(), name));
+  };
+
+  const handleProgramFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const saved = parseProgram(await file.text());
+      if (!confirmDiscard(`Opening "${saved.name}"`)) return;
+      restoreProgram(saved.state);
+      setTimeline(null);
+      setAnalysisMsg(`Opened "${saved.name}" at F${saved.state.generation} from ${file.name}.`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not read the program file.');
+    }
+  };
+
+  // Go back to a generation of any branch; breeding from there forks a new branch
+  const goToGeneration = (branchId: string, target: number) => {
+    if (!timeline || isProcessing) return;
+    // Keep the choices made at the tip before leaving it
+    const current = recordSnapshot(timeline, captureProgram());
+    const branch = current.branches.find(b => b.id === branchId);
+    const snapshot = branch && snapshotAt(branch, target);
+    if (!snapshot) return;
+    restoreProgram(snapshot);
+    setTimeline(switchBranch(current, branchId));
+  };
+
+  const forkHere = () => {
+    if (timeline && !isProcessing) setTimeline(forkBranch(timeline, captureProgram()));
+  };
+
+  const toggleBranchOverlay = (branchId: string) => {
+    const next = new Set(hiddenBranches);
+    if (next.has(branchId)) next.delete(branchId);
+    else next.add(branchId);
+    setHiddenBranches(next);
+  };
+
   // API key handler
   const handleApiKeySubmit = () => {
     if (setApiKey(apiKey)) {
@@ -178,12 +806,26 @@ const App: React.FC = () => {
   };
 
   const currentStats = history.length > 0 ? history[history.length - 1] : null;
-  const selectedParents = population.filter(p => selectedIds.has(p.id));
 
   return (
     <div className="flex h-screen bg-gray-950 text-gray-100 font-sans overflow-hidden">
 
       <EducationModal isOpen={isManualOpen} onClose={() => setIsManualOpen(false)} />
+      <HybridProgramModal isOpen={isHybridOpen} onClose={() => setIsHybridOpen(false)} envVariance={envVariance} />
+      <NewProgramModal
+        isOpen={isNewProgramOpen}
+        onClose={() => setIsNewProgramOpen(false)}
+        config={config}
+        architecture={architecture}
+        onStart={(programConfig, runSeed) => confirmDiscard('Starting a new program') && startProgram(programConfig, runSeed)}
+      />
+      <BatchRunModal
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        config={config}
+        architecture={architecture}
+        onDownload={downloadText}
+      />
 
       {/* Crossing Animation Overlay */}
       {showCrossInfo && (
@@ -191,7 +833,7 @@ const App: React.FC = () => {
           <div className="text-center animate-pulse">
             <Dna size={64} className="mx-auto text-purple-400 mb-4" />
             <p className="text-2xl font-bold text-white mb-2">🧬 Meiosis & Crossing Over 🧬</p>
-            <p className="text-purple-300">Creating F{generation + 1} offspring...</p>
+            <p className="text-purple-300">Creating F{generation + 1} offspring ({designInfo.name})...</p>
             <p className="text-gray-400 text-sm mt-2">Recombination • Segregation • Fertilization</p>
           </div>
         </div>
@@ -209,9 +851,18 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex gap-1">
-            <button onClick={resetSimulation} className="text-gray-400 hover:text-yellow-400 transition-colors p-1" title="Reset">
+            <button onClick={() => confirmDiscard('Resetting') && resetSimulation()} className="text-gray-400 hover:text-yellow-400 transition-colors p-1" title="Reset">
               <RotateCcw size={16} />
             </button>
+            <button onClick={() => setIsNewProgramOpen(true)} className="text-gray-400 hover:text-green-400 transition-colors p-1" title="New Program">
+              <SlidersHorizontal size={16} />
+            </button>
+            <button onClick={() => setIsBatchOpen(true)} className="text-gray-400 hover:text-sky-400 transition-colors p-1" title="Batch Run">
+              <FlaskConical size={16} />
+            </button>
+            <button onClick={() => setIsHybridOpen(true)} className="text-gray-400 hover:text-amber-400 transition-colors p-1" title="Hybrid Program">
+              <GitMerge size={16} />
+            </button>
             <button onClick={() => setIsManualOpen(true)} className="text-gray-400 hover:text-white transition-colors p-1" title="Manual">
               <BookOpen size={16} />
             </button>
@@ -225,28 +876,37 @@ const App: React.FC = () => {
             <div className="grid grid-cols-2 gap-2 text-xs mb-2">
               <div className="bg-gray-900/50 rounded p-2">
                 <span className="text-gray-500 uppercase font-bold text-[10px]">Generation</span>
-                <p className="text-xl font-mono text-white">F{generation}</p>
+                <p className="text-xl font-mono text-white">F{generation}<span className="text-xs text-gray-500"> / {config.maxGenerations}</span></p>
               </div>
               <div className="bg-gray-900/50 rounded p-2">
                 <span className="text-gray-500 uppercase font-bold text-[10px]">Population</span>
-                <p className="text-xl font-mono text-white">{POPULATION_SIZE}</p>
+                <p className="text-xl font-mono text-white">{population.length}</p>
               </div>
             </div>
 
+            <div className="flex justify-between text-[10px] font-mono mb-2 px-1">
+              <span className="text-gray-400" title="Mean pedigree inbreeding coefficient">F̄ = <span className="text-white">{currentStats?.meanInbreeding.toFixed(3) || '0.000'}</span></span>
+              <span className="text-gray-400" title="Effective population size from the realized rate of inbreeding, Ne = 1/2ΔF">Ne = <span className="text-white">{currentStats?.effectiveSize ?? '–'}</span></span>
+              <span className="text-gray-400">Het = <span className="text-white">{currentStats?.heterozygosity.toFixed(3) || '0.000'}</span></span>
+              <span className="text-gray-400" title="Mean fraction of the genome from introduced germplasm">Donor = <span className="text-white">{Math.round((currentStats?.donorProportion || 0) * 100)}%</span></span>
+            </div>
+
+            {/* Favourable alleles lost this generation */}
+            {currentStats && currentStats.alleleEvents.some(e => e.kind === 'lost') && (
+              <div className="mb-2 px-2 py-1 rounded bg-red-900/30 border border-red-700/40 text-[9px] text-red-300">
+                ⚠ Favourable allele lost at locus {currentStats.alleleEvents.filter(e => e.kind === 'lost').map(e => e.locus).join(', ')}.
+                Only mutation or new germplasm can bring it back.
+              </div>
+            )}
+
             {/* Current Means */}
             <div className="grid grid-cols-3 gap-1 text-[10px]">
-              <div className="text-center bg-green-900/30 rounded py-1">
-                <p className="text-green-400 font-bold">μ Yield</p>
-                <p className="text-white font-mono">{currentStats?.meanYield.toFixed(1) || '0'}</p>
-              </div>
-              <div className="text-center bg-yellow-900/30 rounded py-1">
-                <p className="text-yellow-400 font-bold">μ Resist</p>
-                <p className="text-white font-mono">{currentStats?.meanResistance.toFixed(1) || '0'}</p>
-              </div>
-              <div className="text-center bg-blue-900/30 rounded py-1">
-                <p className="text-blue-400 font-bold">μ Height</p>
-                <p className="text-white font-mono">{currentStats?.meanHeight.toFixed(1) || '0'}</p>
-              </div>
+              {architecture.traits.map(trait => (
+                <div key={trait.id} className="text-center rounded py-1" style={{ backgroundColor: `${trait.color}26` }}>
+                  <p className="font-bold" style={{ color: trait.color }}>μ {trait.name}</p>
+                  <p className="text-white font-mono">{currentStats?.means[trait.id]?.toFixed(1) || '0'}</p>
+                </div>
+              ))}
             </div>
 
             {/* Environment */}
@@ -265,6 +925,29 @@ const App: React.FC = () => {
                 <p className="text-orange-400 font-mono text-xs">{envVariance.toFixed(1)}</p>
               </div>
             </div>
+            <label className="mt-1 flex items-center gap-1 text-[9px] text-gray-400" title="Inoculate the field every season so an epidemic always runs; disease scenarios trigger one anyway">
+              <input type="checkbox" checked={inoculated} onChange={(e) => setInoculated(e.target.checked)} className="accent-orange-500" />
+              Inoculated disease nursery
+              {epidemic && <span className="ml-auto text-orange-400">{Math.round(epidemic.incidence * 100)}% infected</span>}
+            </label>
+
+            {/* Run Seed */}
+            <div className="mt-2 pt-2 border-t border-gray-700 flex items-center gap-1">
+              <span className="text-gray-500 text-[10px] uppercase font-bold">Seed</span>
+              <input
+                type="text"
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-1.5 py-0.5 text-[10px] font-mono"
+              />
+              <button
+                onClick={() => confirmDiscard('Replaying a seed') && resetSimulation(parseSeed(seedInput))}
+                className="text-[10px] text-gray-400 hover:text-yellow-400 px-1"
+                title={`Restart run from this seed (current: ${seed})`}
+              >
+                Replay
+              </button>
+            </div>
           </div>
 
           {/* API Key (Optional) */}
@@ -311,7 +994,7 @@ const App: React.FC = () => {
             <div>
               <label className="text-[10px] font-semibold text-gray-400 mb-1 flex justify-between">
                 <span>Selection Intensity (i)</span>
-                <span className="text-white">{Math.round(selectionIntensity * 100)}% ({Math.ceil(POPULATION_SIZE * selectionIntensity)} plants)</span>
+                <span className="text-white">{Math.round(selectionIntensity * 100)}% ({Math.ceil(population.length * selectionIntensity)} plants)</span>
               </label>
               <input
                 type="range" min="0.05" max="0.5" step="0.05" value={selectionIntensity}
@@ -320,69 +1003,629 @@ const App: React.FC = () => {
               />
             </div>
 
+            {/* Optimal Contribution Selection */}
+            <div className="bg-gray-800/50 p-2 rounded-lg border border-gray-700 space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-gray-300 font-semibold flex items-center gap-1" title="Maximise merit subject to a target rate of inbreeding">
+                  <Scale size={12} /> Optimal Contributions
+                </span>
+                <button
+                  onClick={() => { setOcsEnabled(!ocsEnabled); setOcsPlan(null); }}
+                  className={`w-8 h-4 rounded-full p-0.5 transition-colors ${ocsEnabled ? 'bg-cyan-600' : 'bg-gray-600'}`}
+                >
+                  <div className={`w-3 h-3 bg-white rounded-full shadow transform transition-transform ${ocsEnabled ? 'translate-x-4' : ''}`}></div>
+                </button>
+              </div>
+              {ocsEnabled && (
+                <div>
+                  <label className="text-[9px] text-gray-400 flex justify-between">
+                    <span>Target ΔF per generation</span>
+                    <span className="text-white font-mono">{targetDeltaF.toFixed(3)} (Ne ≈ {Math.round(1 / (2 * targetDeltaF))})</span>
+                  </label>
+                  <input
+                    type="range" min="0.0025" max="0.05" step="0.0025" value={targetDeltaF}
+                    onChange={(e) => { setTargetDeltaF(parseFloat(e.target.value)); setOcsPlan(null); }}
+                    className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                  />
+                  <p className="text-[9px] text-gray-500">Auto-Select now sets how many offspring each parent contributes.</p>
+                </div>
+              )}
+            </div>
+
             {/* GEBV Toggle */}
             <div className="flex items-center justify-between bg-gray-800/50 p-2 rounded-lg border border-gray-700">
               <span className="text-[10px] text-gray-300 font-semibold flex items-center gap-1">
                 <Layers size={12} /> Genomic Selection (GEBV)
               </span>
               <button
-                onClick={() => setGenomicSelectionEnabled(!genomicSelectionEnabled)}
+                onClick={toggleGenomicSelection}
                 className={`w-8 h-4 rounded-full p-0.5 transition-colors ${genomicSelectionEnabled ? 'bg-purple-600' : 'bg-gray-600'}`}
               >
                 <div className={`w-3 h-3 bg-white rounded-full shadow transform transition-transform ${genomicSelectionEnabled ? 'translate-x-4' : ''}`}></div>
               </button>
             </div>
 
+            {/* Genomic Prediction Model */}
+            <div className="bg-gray-800/30 p-2 rounded-lg border border-gray-700 space-y-1 text-[9px]">
+              <div className="flex items-center gap-1">
+                <select
+                  value={gpMethod}
+                  onChange={(e) => setGpMethod(e.target.value as GenomicMethod)}
+                  className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-[9px]"
+                >
+                  <option value="rrblup">rrBLUP</option>
+                  <option value="gblup">GBLUP</option>
+                </select>
+                <button
+                  onClick={() => trainGenomicModel()}
+                  className="flex-1 bg-purple-800/50 hover:bg-purple-700/60 text-white rounded px-1.5 py-0.5"
+                >
+                  Train on {trainingSet.length} plants
+                </button>
+                <label className="flex items-center gap-0.5 text-gray-400" title="Retrain every generation before predicting">
+                  <input type="checkbox" checked={autoRetrain} onChange={(e) => setAutoRetrain(e.target.checked)} className="accent-purple-500" />
+                  auto
+                </label>
+              </div>
+              {gpModel ? (
+                <p className="text-gray-400">
+                  {gpModel.method === 'rrblup' ? 'rrBLUP' : 'GBLUP'} trained F{gpModel.trainedGeneration} (n={gpModel.trainingSize})
+                  {currentStats?.gsAccuracy && (
+                    <span> • r(GEBV,TBV): {architecture.traits.map(t => `${t.abbreviation} ${currentStats.gsAccuracy![t.id].toFixed(2)}`).join(' ')}</span>
+                  )}
+                </p>
+              ) : (
+                <p className="text-gray-500">No model yet. GEBVs are predicted from markers, not read from true values.</p>
+              )}
+            </div>
+
             {/* Auto-Select Buttons */}
             <div className="space-y-1.5">
               <div className="flex items-center justify-between">
                 <p className="text-[10px] text-gray-500 font-bold uppercase">Auto-Select Best</p>
                 <button onClick={clearSelection} className="text-[9px] text-gray-500 hover:text-red-400">Clear</button>
               </div>
-              <div className="grid grid-cols-2 gap-1.5">
-                <button
-                  onClick={() => autoSelectByTrait('yield')}
-                  className="py-1.5 px-2 bg-green-800/40 hover:bg-green-700/50 text-white text-[10px] font-semibold rounded border border-green-600/30 flex items-center justify-center gap-1"
-                >
-                  <Target size={11} /> High Yield
-                </button>
-                <button
-                  onClick={() => autoSelectByTrait('resistance')}
-                  className="py-1.5 px-2 bg-yellow-800/40 hover:bg-yellow-700/50 text-white text-[10px] font-semibold rounded border border-yellow-600/30 flex items-center justify-center gap-1"
-                >
-                  <Shield size={11} /> Disease Resist
-                </button>
-                <button
-                  onClick={() => autoSelectByTrait('height')}
-                  className="py-1.5 px-2 bg-blue-800/40 hover:bg-blue-700/50 text-white text-[10px] font-semibold rounded border border-blue-600/30 flex items-center justify-center gap-1"
-                >
-                  <Ruler size={11} /> Dwarf (Short)
+              <select
+                value={schemeSettings.scheme}
+                onChange={(e) => setSchemeSettings({ ...schemeSettings, scheme: e.target.value as SelectionScheme })}
+                className="w-full bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-[10px]"
+                title={schemeInfo.description}
+              >
+                {SELECTION_SCHEMES.map(sc => <option key={sc.id} value={sc.id}>{sc.name} selection</option>)}
+              </select>
+
+              {schemeInfo.criterion && (
+                <div className="grid grid-cols-2 gap-1.5">
+                  {architecture.traits.map(trait => {
+                    const Icon = TRAIT_ICONS[trait.id] || Target;
+                    const aroundOptimum = schemeSettings.scheme === 'stabilizing' || schemeSettings.scheme === 'disruptive';
+                    return (
+                      <button
+                        key={trait.id}
+                        onClick={() => autoSelectByTrait(trait.id)}
+                        className="py-1.5 px-2 text-white text-[10px] font-semibold rounded border flex items-center justify-center gap-1 hover:brightness-125"
+                        style={{ backgroundColor: `${trait.color}40`, borderColor: `${trait.color}4d` }}
+                      >
+                        <Icon size={11} /> {aroundOptimum
+                          ? `${trait.name} ${schemeSettings.scheme === 'stabilizing' ? '≈' : '≠'} ${trait.optimumValue ?? 'mean'}`
+                          : trait.selectionLabel || `${trait.direction === 'decrease' ? 'Low' : 'High'} ${trait.name}`}
+                      </button>
+                    );
+                  })}
+                  <button
+                    onClick={() => autoSelectByTrait('optimum')}
+                    className="py-1.5 px-2 bg-purple-800/40 hover:bg-purple-700/50 text-white text-[10px] font-semibold rounded border border-purple-600/30 flex items-center justify-center gap-1"
+                  >
+                    <Zap size={11} /> Index ({INDEX_MODES.find(m => m.id === indexSettings.mode)!.name})
+                  </button>
+                </div>
+              )}
+
+              {/* Independent culling levels */}
+              {schemeSettings.scheme === 'culling' && (
+                <div className="space-y-1 text-[9px]">
+                  {architecture.traits.map(t => (
+                    <label key={t.id} className="flex items-center gap-1 text-gray-400">
+                      <span className="flex-1" style={{ color: t.color }}>{t.name} {t.direction === 'decrease' ? '≤' : '≥'}</span>
+                      <input
+                        type="number" step="0.5"
+                        value={schemeSettings.cullingLevels[t.id] ?? ''}
+                        placeholder={population.length ? `mean ${(population.reduce((s, p) => s + selectionValues(p)[t.id], 0) / population.length).toFixed(1)}` : ''}
+                        onChange={(e) => {
+                          const { [t.id]: _, ...rest } = schemeSettings.cullingLevels;
+                          const level = parseFloat(e.target.value);
+                          setSchemeSettings({ ...schemeSettings, cullingLevels: Number.isFinite(level) ? { ...rest, [t.id]: level } : rest });
+                        }}
+                        className="w-20 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 font-mono text-white"
+                      />
+                    </label>
+                  ))}
+                  <button onClick={selectByCulling} className="w-full py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-[10px] font-semibold rounded">
+                    Cull to levels
+                  </button>
+                  <p className="text-gray-500">Leave a level blank to skip that trait. The number selected follows from the levels.</p>
+                </div>
+              )}
+
+              {/* Tandem schedule */}
+              {schemeSettings.scheme === 'tandem' && (
+                <div className="space-y-1 text-[9px]">
+                  <div className="flex flex-wrap gap-x-2 gap-y-1 text-gray-400">
+                    {architecture.traits.map(t => (
+                      <label key={t.id} className="flex items-center gap-1">
+                        <span style={{ color: t.color }}>{t.abbreviation}</span>
+                        <input
+                          type="number" min="0" max="10" value={schemeSettings.tandemSchedule[t.id] ?? 0}
+                          onChange={(e) => setSchemeSettings({
+                            ...schemeSettings,
+                            tandemSchedule: { ...schemeSettings.tandemSchedule, [t.id]: Math.min(10, Math.max(0, parseInt(e.target.value) || 0)) },
+                          })}
+                          className="w-9 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 font-mono text-white"
+                        />
+                        <span>gen</span>
+                      </label>
+                    ))}
+                  </div>
+                  <button onClick={() => autoSelectByTrait(tandemTraitId, 'tandem')} className="w-full py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-[10px] font-semibold rounded">
+                    Select F{generation} on {architecture.traits.find(t => t.id === tandemTraitId)!.name}
+                  </button>
+                  <p className="text-gray-500">Each trait gets its run of generations in turn, then the schedule repeats.</p>
+                </div>
+              )}
+
+              {/* Realized selection intensity of the last auto-selection */}
+              {selectionReport && (
+                <div className="bg-gray-800/50 p-1.5 rounded border border-gray-700 text-[9px] font-mono text-gray-400">
+                  <p className="text-gray-300">
+                    {SELECTION_SCHEMES.find(sc => sc.id === selectionReport.scheme)!.name} on {selectionReport.criterion}: {selectionReport.selected}/{selectionReport.candidates} ({Math.round(selectionReport.proportion * 100)}%)
+                  </p>
+                  <p>
+                    {selectionReport.intensity !== null && <>realized i = {selectionReport.intensity.toFixed(2)} · </>}
+                    truncation i = {selectionReport.expectedIntensity.toFixed(2)}
+                    {selectionReport.varianceRatio !== null && (selectionReport.scheme === 'stabilizing' || selectionReport.scheme === 'disruptive') && (
+                      <> · σ² ratio {selectionReport.varianceRatio.toFixed(2)}</>
+                    )}
+                  </p>
+                  <p>
+                    S/σ: {architecture.traits.map(t => (
+                      <span key={t.id} className="mr-1.5" style={{ color: t.color }}>{t.abbreviation} {selectionReport.traitIntensity[t.id] >= 0 ? '+' : ''}{selectionReport.traitIntensity[t.id].toFixed(2)}</span>
+                    ))}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Selection Index Builder */}
+            <div className="bg-gray-800/50 p-2 rounded-lg border border-gray-700 space-y-1 text-[9px]">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-gray-300 font-semibold flex items-center gap-1" title="Index weights are computed from the candidates' phenotypic (P) and genetic (G) covariance matrices">
+                  <Zap size={12} /> Selection Index
+                </span>
+                <button onClick={() => setIndexSettings(defaultIndexSettings(architecture))} className="text-gray-500 hover:text-white">Reset</button>
+              </div>
+              <select
+                value={indexSettings.mode}
+                onChange={(e) => setIndexSettings({ ...indexSettings, mode: e.target.value as IndexSettings['mode'] })}
+                className="w-full bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-[10px]"
+                title={INDEX_MODES.find(m => m.id === indexSettings.mode)!.description}
+              >
+                {INDEX_MODES.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+              </select>
+              <table className="w-full font-mono">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal">Trait</th>
+                    <th className="text-right font-normal">{indexSettings.mode === 'desired' ? 'Gain' : 'Value'}</th>
+                    {indexSettings.mode === 'restricted' && <th className="text-center font-normal">Hold</th>}
+                    <th className="text-right font-normal">b</th>
+                    <th className="text-right font-normal" title="Expected genetic gain this generation">ΔG</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {architecture.traits.map(t => {
+                    const field = indexSettings.mode === 'desired' ? 'desiredGains' : 'weights';
+                    const held = indexSettings.restricted.includes(t.id);
+                    return (
+                      <tr key={t.id}>
+                        <td style={{ color: t.color }}>{t.abbreviation}</td>
+                        <td className="text-right">
+                          <input
+                            type="number" step="0.1" value={indexSettings[field][t.id] ?? 0}
+                            onChange={(e) => setIndexSettings({ ...indexSettings, [field]: { ...indexSettings[field], [t.id]: parseFloat(e.target.value) || 0 } })}
+                            className="w-12 bg-gray-900 border border-gray-600 rounded px-1 text-right text-white"
+                          />
+                        </td>
+                        {indexSettings.mode === 'restricted' && (
+                          <td className="text-center">
+                            <input
+                              type="checkbox" checked={held}
+                              onChange={() => setIndexSettings({
+                                ...indexSettings,
+                                restricted: held ? indexSettings.restricted.filter(id => id !== t.id) : [...indexSettings.restricted, t.id],
+                              })}
+                            />
+                          </td>
+                        )}
+                        <td className="text-right text-gray-400">{selectionIndex ? selectionIndex.coefficients[t.id].toFixed(2) : '–'}</td>
+                        <td className={`text-right ${selectionIndex && Math.abs(selectionIndex.response[t.id]) > 1e-3 ? (selectionIndex.response[t.id] > 0 ? 'text-green-400' : 'text-red-400') : 'text-gray-500'}`}>
+                          {selectionIndex ? `${selectionIndex.response[t.id] >= 0 ? '+' : ''}${selectionIndex.response[t.id].toFixed(2)}` : '–'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {indexError && <p className="text-red-400">No index: {indexError}</p>}
+              <p className="text-gray-500">
+                ΔG = i·Gb/σ_I at i = {selectionIndex?.intensity.toFixed(2) ?? '–'} (top {Math.round(selectionIntensity * 100)}%) over {population.length} candidates,
+                with G {selectionIndex ? GENETIC_SOURCE_LABELS[selectionIndex.geneticSource] : 'estimated from the candidates'}.
+              </p>
+            </div>
+
+            {/* Marker-Assisted Selection */}
+            <div className="bg-gray-800/50 p-2 rounded-lg border border-gray-700 space-y-1 text-[9px]">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-gray-300 font-semibold flex items-center gap-1" title="Select on marker genotypes instead of (or before) phenotypes">
+                  <Crosshair size={12} /> Marker Panel
+                </span>
+                {markers.length > 0 && <button onClick={clearMarkerPanel} className="text-gray-500 hover:text-red-400">Clear</button>}
+              </div>
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={markerInput}
+                  onChange={(e) => setMarkerInput(e.target.value)}
+                  placeholder="Loci, e.g. 8, 9"
+                  className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-1.5 py-0.5 font-mono"
+                />
+                <button onClick={addMarkerLoci} className="bg-gray-700 hover:bg-gray-600 text-white rounded px-1.5 py-0.5" title="Use these loci as markers">
+                  Add loci
                 </button>
-                <button
-                  onClick={() => autoSelectByTrait('optimum')}
-                  className="py-1.5 px-2 bg-purple-800/40 hover:bg-purple-700/50 text-white text-[10px] font-semibold rounded border border-purple-600/30 flex items-center justify-center gap-1"
-                >
-                  <Zap size={11} /> Index (Balanced)
+              </div>
+              <div className="flex items-center gap-1 text-gray-400">
+                <span>or linked at</span>
+                <input
+                  type="number" min="0.5" max="50" step="0.5" value={markerDistance}
+                  onChange={(e) => setMarkerDistance(Math.max(0.5, parseFloat(e.target.value) || DEFAULT_MARKER_DISTANCE))}
+                  className="w-12 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 font-mono text-white"
+                />
+                <span>cM</span>
+                <button onClick={addLinkedMarkerLoci} className="ml-auto bg-gray-700 hover:bg-gray-600 text-white rounded px-1.5 py-0.5" title="Develop new markers next to these QTL">
+                  Add linked
                 </button>
               </div>
+
+              {markers.length > 0 && (
+                <table className="w-full font-mono">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="text-left font-normal">Marker</th>
+                      <th className="text-left font-normal">Tags</th>
+                      <th className="text-right font-normal" title="Plants carrying the favourable marker allele">Freq</th>
+                      <th className="text-right font-normal">Require</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {markers.map(m => {
+                      const link = linkageReport.find(l => l.marker === m.locus);
+                      const carriers = population.filter(p => markerDosage(p, m) > 0).length;
+                      return (
+                        <tr key={m.locus} className={link?.broken ? 'text-red-300' : 'text-gray-300'}>
+                          <td>M{m.locus}</td>
+                          <td title={link ? `Concordance ${Math.round(link.concordance * 100)}%, r² ${link.r2 ?? '–'}, expected r = ${link.expectedRecombination} per meiosis` : undefined}>
+                            {m.qtl === null ? 'unlinked' : m.qtl === m.locus ? 'itself' : `L${m.qtl} @${m.distance}cM`}
+                            {link && <span className="text-gray-500"> {Math.round(link.concordance * 100)}%</span>}
+                          </td>
+                          <td className="text-right">{carriers}/{population.length}</td>
+                          <td className="text-right">
+                            <select
+                              value={markerRequirements[m.locus] ?? 'any'}
+                              onChange={(e) => setMarkerRequirements({ ...markerRequirements, [m.locus]: e.target.value as MarkerRequirement })}
+                              className="bg-gray-900 border border-gray-600 rounded px-0.5"
+                            >
+                              <option value="any">any</option>
+                              <option value="carrier">≥1 fav</option>
+                              <option value="homozygous">2 fav</option>
+                            </select>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+
+              {/* Markers that recombination has split from their QTL */}
+              {linkageReport.filter(l => l.broken).map(l => (
+                <p key={l.marker} className="text-red-300">
+                  ⚠ M{l.marker} has broken away from L{l.qtl}: {l.recombinants} recombinant haplotypes, concordance {Math.round(l.concordance * 100)}%.
+                </p>
+              ))}
+
+              {markers.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-500">
+                    {markerFilterActive
+                      ? `${population.filter(p => passesMarkerFilter(p, markers, markerRequirements)).length} plants pass; Auto-Select ranks only these.`
+                      : 'Set a requirement to filter.'}
+                  </span>
+                  <button
+                    onClick={selectByMarkers}
+                    disabled={!markerFilterActive}
+                    className="bg-sky-800/50 hover:bg-sky-700/60 disabled:bg-gray-800 disabled:text-gray-600 text-white rounded px-1.5 py-0.5"
+                  >
+                    Select by markers
+                  </button>
+                </div>
+              )}
             </div>
           </div>
 
           {/* Selected Parents Preview */}
           {selectedIds.size > 0 && (
             <div className="bg-gray-800/50 rounded-lg p-2 border border-green-700/30">
-              <p className="text-[10px] text-green-400 font-bold mb-1">Selected Parents ({selectedIds.size})</p>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-[10px] text-green-400 font-bold">Selected Parents ({selectedIds.size})</p>
+                <span className="text-[9px] text-gray-400 font-mono" title="Mean additive relationship a_ij among selected parents">
+                  ā = {relatedness ? relatedness.meanRelationship.toFixed(2) : '…'}
+                </span>
+              </div>
               <div className="flex flex-wrap gap-1 max-h-16 overflow-y-auto">
                 {selectedParents.slice(0, 8).map(p => (
                   <span key={p.id} className="text-[8px] bg-green-900/50 px-1 py-0.5 rounded font-mono">
                     {p.id.slice(-5)}
+                    {ocsPlan?.contributions[p.id] !== undefined && (
+                      <span className="text-cyan-300"> {Math.round(ocsPlan.contributions[p.id] * 100)}%</span>
+                    )}
                   </span>
                 ))}
                 {selectedIds.size > 8 && <span className="text-[8px] text-gray-500">+{selectedIds.size - 8} more</span>}
               </div>
+              {ocsPlan && (
+                <p className="text-[9px] text-cyan-300 font-mono mt-1" title="Group coancestry c'Ac/2 of the plan vs the level allowed by the target ΔF">
+                  C = {ocsPlan.groupCoancestry.toFixed(3)} ≤ C* = {ocsPlan.targetCoancestry.toFixed(3)}
+                </p>
+              )}
+              {ocsPlan?.fallback && (
+                <p className="text-[9px] text-yellow-400 mt-1">
+                  No optimal contributions: {ocsPlan.fallback}. The top {Math.round(selectionIntensity * 100)}% were selected with equal shares.
+                </p>
+              )}
+              {relatedness && relatedness.matrixIds.length > 1 && (
+                <KinshipMatrix ids={relatedness.matrixIds} matrix={relatedness.matrix} />
+              )}
             </div>
           )}
 
+          {/* Mating Design */}
+          <div className="bg-gray-800/50 rounded-lg p-2 border border-gray-700 space-y-1.5">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-gray-500 font-bold uppercase">Mating Design</p>
+              <span className="text-[9px] text-gray-400 font-mono" title={relatedness?.expectedF.formula}>
+                E[F'] = {relatedness ? relatedness.expectedF.value.toFixed(2) : '…'}
+              </span>
+            </div>
+            <select
+              value={matingDesign}
+              onChange={(e) => setMatingDesign(e.target.value as MatingDesign)}
+              className="w-full bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-[10px]"
+            >
+              {MATING_DESIGNS.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </select>
+            <p className="text-[9px] text-gray-500">{designInfo.description}</p>
+            {relatedness && <p className="text-[9px] text-gray-600 font-mono">{relatedness.expectedF.formula}</p>}
+            {(matingDesign === 'backcross' || matingDesign === 'testcross') && (
+              <div className="flex items-center justify-between text-[9px]">
+                <span className="text-gray-400">
+                  {matingDesign === 'backcross' ? 'Recurrent parent' : 'Tester'}:{' '}
+                  <span className="font-mono text-white">{referenceParent ? referenceParent.id.slice(-8) : matingDesign === 'testcross' ? 'aa tester' : 'none'}</span>
+                </span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => lastSelectedPlant && setReferenceParent(lastSelectedPlant)}
+                    disabled={!lastSelectedPlant}
+                    className="text-blue-400 hover:text-white disabled:text-gray-600"
+                    title="Use the last clicked plant"
+                  >
+                    Use clicked
+                  </button>
+                  {referenceParent && (
+                    <button onClick={() => setReferenceParent(null)} className="text-gray-500 hover:text-red-400">Clear</button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Multi-Environment Trial */}
+          <div className="bg-gray-800/50 rounded-lg p-2 border border-gray-700 space-y-1.5">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-gray-500 font-bold uppercase flex items-center gap-1">
+                <MapPin size={11} /> Multi-Environment Trial
+              </p>
+              <button
+                onClick={toggleMultiEnvironment}
+                className={`w-8 h-4 rounded-full p-0.5 transition-colors ${metEnabled ? 'bg-teal-600' : 'bg-gray-600'}`}
+              >
+                <div className={`w-3 h-3 bg-white rounded-full shadow transform transition-transform ${metEnabled ? 'translate-x-4' : ''}`}></div>
+              </button>
+            </div>
+            {metEnabled ? (
+              <>
+                <select
+                  value={metTarget}
+                  onChange={(e) => setMetTarget(e.target.value)}
+                  className="w-full bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-[10px]"
+                >
+                  <option value="blue">Broad adaptation (across-location BLUE)</option>
+                  <option value="stable">Stability (b ≈ 1, then BLUE)</option>
+                  {TRIAL_LOCATIONS.map(loc => <option key={loc.id} value={loc.id}>Specific adaptation: {loc.name}</option>)}
+                </select>
+                <table className="w-full text-[9px] font-mono">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="text-left font-normal">Location</th>
+                      {architecture.traits.map(t => <th key={t.id} className="text-right font-normal" style={{ color: t.color }}>{t.abbreviation}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {TRIAL_LOCATIONS.map(loc => (
+                      <tr key={loc.id} className={metTarget === loc.id ? 'text-teal-300' : 'text-gray-300'} title={loc.description}>
+                        <td className="truncate max-w-[7rem]">{loc.name}</td>
+                        {architecture.traits.map(t => <td key={t.id} className="text-right">{metLocationMeans[loc.id][t.id].toFixed(1)}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-[9px] text-gray-500">
+                  {TRIAL_LOCATIONS.length} locations × {MET_REPLICATES} reps. Phenotypes are across-location BLUEs; click a plant for its Finlay-Wilkinson slopes.
+                </p>
+              </>
+            ) : (
+              <p className="text-[9px] text-gray-500">Single location. Enable to test every entry at {TRIAL_LOCATIONS.length} sites and expose G×E.</p>
+            )}
+          </div>
+
+          {/* Field Trial Layout */}
+          <div className="bg-gray-800/50 rounded-lg p-2 border border-gray-700 space-y-1.5">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-gray-500 font-bold uppercase flex items-center gap-1">
+                <Grid3x3 size={11} /> Field Trial Layout
+              </p>
+              <button
+                onClick={toggleFieldTrial}
+                className={`w-8 h-4 rounded-full p-0.5 transition-colors ${fieldEnabled ? 'bg-amber-600' : 'bg-gray-600'}`}
+              >
+                <div className={`w-3 h-3 bg-white rounded-full shadow transform transition-transform ${fieldEnabled ? 'translate-x-4' : ''}`}></div>
+              </button>
+            </div>
+            {fieldEnabled ? (
+              <div className="space-y-1 text-[9px]">
+                <select
+                  value={fieldSettings.design}
+                  onChange={(e) => updateFieldSettings({ design: e.target.value as FieldSettings['design'] })}
+                  className="w-full bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-[10px]"
+                  title={FIELD_DESIGNS.find(d => d.id === fieldSettings.design)?.description}
+                >
+                  {FIELD_DESIGNS.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+                <div className="grid grid-cols-3 gap-1 text-gray-400">
+                  <label className="flex flex-col">
+                    Reps
+                    <input
+                      type="number" min="1" max="4" value={fieldSettings.reps}
+                      onChange={(e) => updateFieldSettings({ reps: Math.min(4, Math.max(1, parseInt(e.target.value) || 1)) })}
+                      className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 font-mono text-white"
+                    />
+                  </label>
+                  <label className="flex flex-col">
+                    Checks
+                    <input
+                      type="number" min="0" max="4" value={fieldSettings.checks}
+                      onChange={(e) => updateFieldSettings({ checks: Math.min(4, Math.max(0, parseInt(e.target.value) || 0)) })}
+                      className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 font-mono text-white"
+                    />
+                  </label>
+                  <label className={`flex flex-col ${fieldSettings.design === 'alpha' ? '' : 'opacity-40'}`}>
+                    Block size
+                    <input
+                      type="number" min="2" max="32" value={fieldSettings.blockSize} disabled={fieldSettings.design !== 'alpha'}
+                      onChange={(e) => updateFieldSettings({ blockSize: Math.min(32, Math.max(2, parseInt(e.target.value) || 2)) })}
+                      className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 font-mono text-white"
+                    />
+                  </label>
+                </div>
+                <label className="text-gray-400 flex justify-between">
+                  <span>Fertility gradient</span>
+                  <span className="text-white font-mono">{fieldSettings.trend.toFixed(1)} σ</span>
+                </label>
+                <input
+                  type="range" min="0" max="6" step="0.5" value={fieldSettings.trend}
+                  onChange={(e) => updateFieldSettings({ trend: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                />
+                <label className="text-gray-400 flex justify-between">
+                  <span>Soil patches</span>
+                  <span className="text-white font-mono">{fieldSettings.patches}</span>
+                </label>
+                <input
+                  type="range" min="0" max="8" step="1" value={fieldSettings.patches}
+                  onChange={(e) => updateFieldSettings({ patches: parseInt(e.target.value) })}
+                  className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                />
+                <select
+                  value={fieldSettings.analysis}
+                  onChange={(e) => updateFieldSettings({ analysis: e.target.value as FieldSettings['analysis'] })}
+                  className="w-full bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-[10px]"
+                >
+                  <option value="raw">Analysis: raw plot means</option>
+                  <option value="blocks">Analysis: adjust for blocks</option>
+                  <option value="spatial">Analysis: spatial (neighbour) adjustment</option>
+                </select>
+                {fieldTrial && (
+                  <table className="w-full font-mono">
+                    <thead>
+                      <tr className="text-gray-500">
+                        <th className="text-left font-normal">r(mean, G)</th>
+                        {architecture.traits.map(t => <th key={t.id} className="text-right font-normal" style={{ color: t.color }}>{t.abbreviation}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr className="text-gray-400">
+                        <td>Raw</td>
+                        {architecture.traits.map(t => <td key={t.id} className="text-right">{fieldTrial.accuracy.raw[t.id]?.toFixed(2)}</td>)}
+                      </tr>
+                      <tr className="text-amber-300">
+                        <td>Adjusted</td>
+                        {architecture.traits.map(t => <td key={t.id} className="text-right">{fieldTrial.accuracy.adjusted[t.id]?.toFixed(2)}</td>)}
+                      </tr>
+                    </tbody>
+                  </table>
+                )}
+                <p className="text-gray-500">
+                  {metEnabled
+                    ? 'Paused while the multi-environment trial runs.'
+                    : fieldTrial
+                      ? `${fieldTrial.plots.length} plots on a ${fieldTrial.rows}×${fieldTrial.cols} grid (${fieldTrial.settings.analysis} analysis). Changes apply from the next generation.`
+                      : 'The layout is drawn from the next generation.'}
+                </p>
+              </div>
+            ) : (
+              <p className="text-[9px] text-gray-500">One plant per entry on uniform soil. Enable to grow replicated plots with checks on a field with fertility trends.</p>
+            )}
+          </div>
+
+          {/* Germplasm & Mutation */}
+          <div className="bg-gray-800/50 rounded-lg p-2 border border-gray-700 space-y-1.5">
+            <p className="text-[10px] text-gray-500 font-bold uppercase flex items-center gap-1">
+              <Globe size={11} /> Germplasm & Mutation
+            </p>
+            <div>
+              <label className="text-[9px] text-gray-400 flex justify-between">
+                <span>Mutation rate μ (per locus, per gamete)</span>
+                <span className="text-white font-mono">{mutationRate.toFixed(4)}</span>
+              </label>
+              <input
+                type="range" min="0" max={MAX_MUTATION_RATE} step="0.0005" value={mutationRate}
+                onChange={(e) => setMutationRate(parseFloat(e.target.value))}
+                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-1">
+              {GERMPLASM_PROFILES.map(g => (
+                <button
+                  key={g.id}
+                  onClick={() => introduceGermplasm(g.id)}
+                  className="py-1 px-1 bg-amber-900/30 hover:bg-amber-800/40 text-amber-200 text-[9px] rounded border border-amber-700/30"
+                  title={g.description}
+                >
+                  + {g.name}
+                </button>
+              ))}
+            </div>
+            <p className="text-[9px] text-gray-500">Each introduction adds {DONORS_PER_INTRODUCTION} selected donors to the parent pool.</p>
+          </div>
+
           {/* AI Professor's Note */}
           <div className="bg-blue-900/15 border border-blue-800/50 p-2 rounded-lg">
             <div className="flex items-center gap-1 text-blue-400 mb-1">
@@ -395,6 +1638,99 @@ const App: React.FC = () => {
             </p>
           </div>
 
+          {/* Crop Definition */}
+          <div className="flex items-center justify-between bg-gray-800/30 border border-gray-700 p-2 rounded text-[10px]">
+            <div className="min-w-0">
+              <span className="text-gray-500 uppercase font-bold text-[9px]">Crop</span>
+              <p className="text-gray-300 truncate" title={architecture.description}>{architecture.name}</p>
+            </div>
+            <label className="text-gray-400 hover:text-white cursor-pointer flex items-center gap-1 shrink-0" title="Load a genetic architecture (JSON)">
+              <Upload size={11} /> Load
+              <input type="file" accept=".json,application/json" className="hidden" onChange={handleArchitectureFile} />
+            </label>
+          </div>
+
+          {/* Genotype Export / Import */}
+          <div className="bg-gray-800/30 border border-gray-700 p-2 rounded text-[10px] space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-500 uppercase font-bold text-[9px]">Genotypes</span>
+              <label className="text-gray-400 hover:text-white cursor-pointer flex items-center gap-1" title="Start a new program from a founder panel (.vcf, .hmp.txt, or .ped with its .map)">
+                <Upload size={11} /> Import founders
+                <input type="file" multiple accept=".vcf,.hmp,.txt,.ped,.map" className="hidden" onChange={handleGenotypeFiles} />
+              </label>
+            </div>
+            <div className="flex items-center gap-1 text-gray-400">
+              <Download size={11} />
+              {(['vcf', 'hapmap', 'plink', 'phenotypes'] as const).map(f => (
+                <button
+                  key={f}
+                  onClick={() => exportGenotypes(f)}
+                  disabled={population.length === 0}
+                  className="px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-white rounded text-[9px]"
+                >
+                  {f === 'vcf' ? 'VCF' : f === 'hapmap' ? 'HapMap' : f === 'plink' ? 'PLINK' : 'Pheno'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Saved Programs */}
+          <div className="bg-gray-800/30 border border-gray-700 p-2 rounded text-[10px] space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-500 uppercase font-bold text-[9px]">Saved Programs</span>
+              <span className="text-gray-500 text-[9px]" title="The current program is saved in this browser after every change and restored on the next visit">
+                {autosavedAt ? `Autosaved ${new Date(autosavedAt).toLocaleTimeString()}` : 'Not autosaved yet'}
+              </span>
+            </div>
+            <div className="flex gap-1">
+              <input
+                type="text"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                placeholder={`${architecture.name} F${generation}`}
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-1.5 py-0.5 text-[10px]"
+              />
+              <button
+                onClick={saveToSlot}
+                disabled={population.length === 0}
+                className="px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-white rounded text-[9px] flex items-center gap-1"
+                title="Save to a named slot in this browser (a slot with the same name is replaced)"
+              >
+                <Save size={10} /> Save
+              </button>
+            </div>
+            {saveSlots.length > 0 && (
+              <div className="max-h-28 overflow-y-auto space-y-0.5">
+                {saveSlots.map(entry => (
+                  <div key={entry.slot} className="flex items-center gap-1 bg-gray-900/50 rounded px-1.5 py-0.5">
+                    <button
+                      onClick={() => loadFromSlot(entry)}
+                      className="flex-1 min-w-0 text-left text-gray-300 hover:text-white truncate"
+                      title={`${entry.crop}, saved ${new Date(entry.savedAt).toLocaleString()}`}
+                    >
+                      {entry.slot === AUTOSAVE_SLOT ? <span className="italic">{entry.name}</span> : entry.name}
+                      <span className="text-gray-500 font-mono"> F{entry.generation}</span>
+                    </button>
+                    {entry.slot !== AUTOSAVE_SLOT && (
+                      <button onClick={() => removeSlot(entry)} className="text-gray-500 hover:text-red-400" title="Delete this save">
+                        <Trash2 size={10} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center justify-between text-gray-400">
+              <button onClick={exportProgram} disabled={population.length === 0} className="hover:text-white disabled:opacity-40 flex items-center gap-1" title="Download the whole program as a file">
+                <Download size={11} /> Export file
+              </button>
+              <label className="hover:text-white cursor-pointer flex items-center gap-1" title="Open a program exported from CornBreeder">
+                <Upload size={11} /> Open file
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleProgramFile} />
+              </label>
+            </div>
+          </div>
+
           {/* Scientific Info Box */}
           <div className="bg-gray-800/30 border border-gray-700 p-2 rounded text-[9px] text-gray-400">
             <p className="font-bold text-gray-300 flex items-center gap-1 mb-1"><Info size={10} /> Breeding Equation</p>
@@ -407,15 +1743,15 @@ const App: React.FC = () => {
         <div className="p-3 border-t border-gray-800 bg-gradient-to-r from-gray-900 to-gray-800">
           <div className="flex justify-between items-center mb-1.5 text-[10px] text-gray-500 font-mono">
             <span>Parents: {selectedIds.size}</span>
-            <span>Min: 2</span>
+            <span>Min: {designInfo.minParents}</span>
           </div>
           <button
             onClick={advanceGeneration}
-            disabled={isProcessing || selectedIds.size < 2}
+            disabled={isProcessing || selectedIds.size < designInfo.minParents || generation >= config.maxGenerations}
             className="w-full py-2.5 bg-gradient-to-r from-green-700 to-green-600 hover:from-green-600 hover:to-green-500 disabled:from-gray-800 disabled:to-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed text-white text-sm font-bold rounded-lg shadow-lg flex items-center justify-center gap-2 transition-all"
           >
-            {isProcessing ? '🧬 Crossing...' : `Breed F${generation + 1}`}
-            {!isProcessing && <ArrowRight size={16} />}
+            {isProcessing ? '🧬 Crossing...' : generation >= config.maxGenerations ? 'Program Complete' : `Breed F${generation + 1}`}
+            {!isProcessing && generation < config.maxGenerations && <ArrowRight size={16} />}
           </button>
         </div>
       </aside>
@@ -433,6 +1769,8 @@ const App: React.FC = () => {
               onPlantClick={handlePlantClick}
               showGenetics={genomicSelectionEnabled}
               weather={weather}
+              epidemic={epidemic}
+              field={fieldTrial}
             />
           </div>
 
@@ -446,6 +1784,13 @@ const App: React.FC = () => {
                 <h2 className="text-[10px] font-bold uppercase tracking-wider">Diploid Genome Viewer</h2>
               </div>
               <GenomeVisualizer plant={lastSelectedPlant} />
+
+              {/* Marker-trait association scan */}
+              <div className="flex items-center gap-1 mt-3 mb-1.5 text-gray-400">
+                <BarChart3 size={12} />
+                <h2 className="text-[10px] font-bold uppercase tracking-wider">GWAS · Manhattan Plot</h2>
+              </div>
+              <ManhattanPlot population={population} trainingSet={trainingSet} />
             </div>
 
             {/* Stats Charts */}
@@ -455,7 +1800,18 @@ const App: React.FC = () => {
                 <h2 className="text-[10px] font-bold uppercase tracking-wider">Breeding Progress</h2>
               </div>
               <div className="flex-1 min-h-0 overflow-y-auto">
-                <StatsPanel history={history} />
+                {timeline && (
+                  <BranchTree
+                    timeline={timeline}
+                    generation={generation}
+                    hidden={hiddenBranches}
+                    onSelect={goToGeneration}
+                    onFork={forkHere}
+                    onToggleOverlay={toggleBranchOverlay}
+                    onDelete={(branchId) => setTimeline(deleteBranch(timeline, branchId))}
+                  />
+                )}
+                <StatsPanel history={history} overlays={overlays} />
               </div>
             </div>
           </div>
@@ -0,0 +1,78 @@
+import React from 'react';
+import { PopulationStats } from '../types';
+import { getArchitecture, traitForLocus } from '../utils/architecture';
+
+interface Props {
+  history: PopulationStats[];
+}
+
+// Favourable-allele frequency: red = lost (0), yellow = segregating, green = fixed (1)
+const frequencyColor = (p: number) => {
+  const hue = Math.round(p * 120);
+  return `hsl(${hue}, 70%, ${p === 0 || p === 1 ? 35 : 45}%)`;
+};
+
+// Loci × generations heatmap of favourable-allele frequencies, showing selection
+// sweeping favourable alleles to fixation (or drift losing them), plus an event log.
+const AlleleFrequencyHeatmap: React.FC<Props> = ({ history }) => {
+  const arch = getArchitecture();
+  const tracked = history.filter(h => h.alleleFrequencies?.length);
+  if (tracked.length === 0) return null;
+
+  const loci = tracked[tracked.length - 1].alleleFrequencies.map((_, i) => i);
+  const events = tracked
+    .flatMap(h => h.alleleEvents.map(e => ({ ...e, generation: h.generation })))
+    .reverse();
+  const losses = events.filter(e => e.kind === 'lost');
+
+  return (
+    <div className="bg-gray-800/80 p-3 rounded-xl border border-gray-700">
+      <h3 className="text-lime-400 text-xs font-bold mb-2 flex items-center gap-1">
+        🧫 Favourable Allele Frequencies
+      </h3>
+      <div className="flex gap-1">
+        <div className="flex flex-col gap-px py-px">
+          {loci.map(i => (
+            <div key={i} className="h-1.5 w-1 rounded-sm" style={{ backgroundColor: traitForLocus(i, arch)?.color || '#4b5563' }} />
+          ))}
+        </div>
+        <div
+          className="flex-1 grid gap-px bg-gray-900 p-px rounded"
+          style={{ gridTemplateColumns: `repeat(${tracked.length}, minmax(0, 1fr))`, gridAutoFlow: 'column', gridTemplateRows: `repeat(${loci.length}, 0.375rem)` }}
+        >
+          {tracked.map(h => loci.map(i => {
+            const p = h.alleleFrequencies[i] ?? 0;
+            return (
+              <div
+                key={`${h.generation}-${i}`}
+                style={{ backgroundColor: frequencyColor(p) }}
+                title={`F${h.generation} locus ${i}${traitForLocus(i, arch) ? ` (${traitForLocus(i, arch)!.name})` : ''}: p = ${p.toFixed(2)}`}
+              />
+            );
+          }))}
+        </div>
+      </div>
+      <div className="flex justify-between text-[8px] text-gray-500 mt-0.5 pl-2">
+        <span>F{tracked[0].generation}</span>
+        <span>Loci 0–{loci.length - 1} × generations</span>
+        <span>F{tracked[tracked.length - 1].generation}</span>
+      </div>
+
+      {/* Event log - losses matter most, a lost favourable allele cannot be selected back */}
+      {events.length > 0 && (
+        <div className="mt-2 max-h-20 overflow-y-auto text-[9px] font-mono space-y-0.5">
+          {losses.length > 0 && (
+            <p className="text-red-400 font-sans font-bold">⚠ {losses.length} favourable allele{losses.length > 1 ? 's' : ''} lost</p>
+          )}
+          {events.map(e => (
+            <p key={`${e.generation}-${e.locus}-${e.kind}`} className={e.kind === 'lost' ? 'text-red-400' : 'text-green-400'}>
+              F{e.generation}: locus {e.locus}{e.trait ? ` (${arch.traits.find(t => t.id === e.trait)?.name ?? e.trait})` : ''} {e.kind === 'lost' ? 'favourable allele lost' : 'fixed for favourable allele'}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlleleFrequencyHeatmap;
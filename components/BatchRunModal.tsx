@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { X, FlaskConical, Plus, Download } from 'lucide-react';
+import { BatchResult, BatchStrategy, GeneticArchitecture, ProgramConfig } from '../types';
+import { MATING_DESIGNS, SELECTION_SCHEMES } from '../constants';
+import { runBatchAsync } from '../utils/batchClient';
+import { batchToCsv, batchToJson, summarizeBatch } from '../utils/batchRunner';
+import { parseSeed } from '../utils/random';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  config: ProgramConfig;
+  architecture: GeneticArchitecture;
+  onDownload: (filename: string, text: string) => void;
+}
+
+type Seasons = 'constant' | 'random';
+
+const defaultStrategies = (architecture: GeneticArchitecture): BatchStrategy[] => [
+  { name: 'Phenotypic', trait: architecture.traits[0].id, proportion: 0.2, genomic: false },
+  { name: 'Genomic', trait: architecture.traits[0].id, proportion: 0.2, genomic: true },
+];
+
+// Monte-Carlo comparison of breeding strategies: every strategy runs the current program
+// setup for a number of replicates in a worker, with no clicking. Per-generation
+// statistics download as CSV or JSON.
+const BatchRunModal: React.FC<Props> = ({ isOpen, onClose, config, architecture, onDownload }) => {
+  const [strategies, setStrategies] = useState<BatchStrategy[]>(() => defaultStrategies(architecture));
+  const [replicates, setReplicates] = useState<number>(20);
+  const [generations, setGenerations] = useState<number>(config.maxGenerations);
+  const [seasons, setSeasons] = useState<Seasons>('constant');
+  const [seedInput, setSeedInput] = useState<string>('1');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<BatchResult | null>(null);
+  const [error, setError] = useState<string>('');
+
+  // A different crop invalidates the trait choices
+  useEffect(() => {
+    setStrategies(defaultStrategies(architecture));
+    setResult(null);
+  }, [architecture]);
+
+  if (!isOpen) return null;
+  const running = progress !== null;
+
+  const update = (i: number, patch: Partial<BatchStrategy>) =>
+    setStrategies(prev => prev.map((s, j) => (j === i ? { ...s, ...patch } : s)));
+
+  const addStrategy = () =>
+    setStrategies(prev => [...prev, { name: `Strategy ${prev.length + 1}`, trait: architecture.traits[0].id, proportion: 0.2, genomic: false }]);
+
+  const run = async () => {
+    setError('');
+    setResult(null);
+    setProgress({ done: 0, total: strategies.length * replicates });
+    try {
+      const batch = await runBatchAsync(
+        {
+          program: { ...config, maxGenerations: generations },
+          generations,
+          replicates,
+          seed: parseSeed(seedInput),
+          strategies: strategies.map(s => ({ ...s, scenarios: seasons })),
+          architecture,
+        },
+        (done, total) => setProgress({ done, total })
+      );
+      setResult(batch);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The batch failed.');
+    }
+    setProgress(null);
+  };
+
+  const base = `${architecture.name.replace(/[^\w-]+/g, '_')}_batch`;
+  const inputClass = 'bg-gray-800 border border-gray-600 rounded px-1.5 py-0.5 text-[10px]';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-gray-900 border border-gray-700 w-full max-w-2xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col">
+
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-800">
+          <div className="flex items-center gap-2">
+            <FlaskConical className="text-sky-400" />
+            <h2 className="text-xl font-bold text-white">Batch Run</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm text-gray-300 overflow-y-auto">
+          <p className="text-xs text-gray-500">
+            {architecture.name}: {config.populationSize} founders, {config.offspringCount} offspring per generation, {config.genomeLength} loci, σ²E {config.initialEnvVariance}.
+            Replicate r of every strategy starts from seed + r − 1, so strategies are compared on the same founders.
+          </p>
+
+          {/* Run settings */}
+          <div className="grid grid-cols-4 gap-3 text-xs">
+            <label className="flex flex-col gap-1">Generations
+              <input type="number" min={2} max={200} value={generations} onChange={(e) => setGenerations(Math.max(2, Math.round(Number(e.target.value) || 2)))} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">Replicates
+              <input type="number" min={1} max={1000} value={replicates} onChange={(e) => setReplicates(Math.max(1, Math.round(Number(e.target.value) || 1)))} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">Seed
+              <input type="text" value={seedInput} onChange={(e) => setSeedInput(e.target.value)} className={`${inputClass} font-mono`} />
+            </label>
+            <label className="flex flex-col gap-1">Seasons
+              <select value={seasons} onChange={(e) => setSeasons(e.target.value as Seasons)} className={inputClass}>
+                <option value="constant">Constant σ²E</option>
+                <option value="random">Random scenarios</option>
+              </select>
+            </label>
+          </div>
+
+          {/* Strategies */}
+          <div className="space-y-1">
+            <div className="grid grid-cols-[1fr_90px_50px_40px_110px_100px_16px] gap-1 text-[9px] text-gray-500 uppercase font-bold">
+              <span>Strategy</span><span>Select on</span><span>Keep %</span><span>GS</span><span>Scheme</span><span>Mating</span><span />
+            </div>
+            {strategies.map((s, i) => (
+              <div key={i} className="grid grid-cols-[1fr_90px_50px_40px_110px_100px_16px] gap-1 items-center">
+                <input value={s.name} onChange={(e) => update(i, { name: e.target.value })} className={inputClass} />
+                <select value={s.trait} onChange={(e) => update(i, { trait: e.target.value })} className={inputClass}>
+                  {architecture.traits.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  <option value="index">Index</option>
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={Math.round(s.proportion * 100)}
+                  onChange={(e) => update(i, { proportion: Math.min(1, Math.max(0.01, (Number(e.target.value) || 1) / 100)) })}
+                  className={`${inputClass} text-right`}
+                />
+                <input type="checkbox" checked={s.genomic} onChange={(e) => update(i, { genomic: e.target.checked })} className="accent-purple-500 justify-self-center" />
+                <select value={s.scheme ?? 'truncation'} onChange={(e) => update(i, { scheme: e.target.value as BatchStrategy['scheme'] })} className={inputClass}>
+                  {SELECTION_SCHEMES.filter(sc => sc.criterion).map(sc => <option key={sc.id} value={sc.id}>{sc.name}</option>)}
+                </select>
+                <select value={s.matingDesign ?? 'random'} onChange={(e) => update(i, { matingDesign: e.target.value as BatchStrategy['matingDesign'] })} className={inputClass}>
+                  {MATING_DESIGNS.filter(d => !d.needsReference).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+                <button
+                  onClick={() => setStrategies(prev => prev.filter((_, j) => j !== i))}
+                  disabled={strategies.length === 1}
+                  className="text-gray-500 hover:text-red-400 disabled:opacity-30"
+                  title="Remove strategy"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            <button onClick={addStrategy} className="text-xs text-gray-400 hover:text-white flex items-center gap-1">
+              <Plus size={12} /> Add strategy
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          {/* Final-generation summary */}
+          {result && (
+            <div className="text-xs">
+              <p className="text-gray-400 mb-1">Trait means at F{result.config.generations}, mean ± SD over {result.config.replicates} replicates</p>
+              <table className="w-full font-mono text-[10px]">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal">Strategy</th>
+                    {architecture.traits.map(t => <th key={t.id} className="text-right font-normal" style={{ color: t.color }}>{t.name}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {summarizeBatch(result).map(row => (
+                    <tr key={row.strategy} className="border-t border-gray-800">
+                      <td className="text-gray-300 font-sans">{row.strategy}</td>
+                      {architecture.traits.map(t => (
+                        <td key={t.id} className="text-right text-white">{row.means[t.id].toFixed(2)} ± {row.sds[t.id].toFixed(2)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-between items-center px-6 py-4 border-t border-gray-800 text-xs">
+          <div className="flex items-center gap-2 text-gray-400">
+            {result && (
+              <>
+                <Download size={12} />
+                <button onClick={() => onDownload(`${base}.csv`, batchToCsv(result))} className="hover:text-white">CSV</button>
+                <button onClick={() => onDownload(`${base}.json`, batchToJson(result))} className="hover:text-white">JSON</button>
+              </>
+            )}
+            {running && <span>Running replicate {progress!.done} / {progress!.total}…</span>}
+          </div>
+          <button onClick={run} disabled={running} className="bg-sky-700 hover:bg-sky-600 disabled:bg-gray-700 text-white font-bold rounded px-4 py-2">
+            Run Batch
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchRunModal;
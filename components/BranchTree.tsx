@@ -0,0 +1,81 @@
+import React from 'react';
+import { Eye, EyeOff, GitBranch, Trash2, Undo2 } from 'lucide-react';
+import { Timeline } from '../types';
+import { branchTree, canDeleteBranch } from '../utils/timeline';
+
+interface Props {
+  timeline: Timeline;
+  generation: number; // Generation on screen, on the active branch
+  hidden: Set<string>; // Branches left out of the chart overlay
+  onSelect: (branchId: string, generation: number) => void;
+  onFork: () => void;
+  onToggleOverlay: (branchId: string) => void;
+  onDelete: (branchId: string) => void;
+}
+
+// Every branch of the program as a row of generations. Clicking a generation goes back to
+// it; breeding from there (or pressing Fork) starts a new branch.
+const BranchTree: React.FC<Props> = ({ timeline, generation, hidden, onSelect, onFork, onToggleOverlay, onDelete }) => {
+  const firstGeneration = timeline.branches[0].snapshots[0].generation;
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded p-1.5 mb-1.5 text-[9px]">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-gray-500 uppercase font-bold flex items-center gap-1"><GitBranch size={10} /> Timeline</span>
+        <div className="flex gap-1">
+          <button
+            onClick={() => onSelect(timeline.activeId, generation - 1)}
+            disabled={generation <= firstGeneration}
+            className="text-gray-400 hover:text-white disabled:opacity-30 flex items-center gap-0.5"
+            title="Step back one generation"
+          >
+            <Undo2 size={10} /> Undo
+          </button>
+          <button onClick={onFork} className="text-gray-400 hover:text-white flex items-center gap-0.5" title="Start a new branch from this generation">
+            <GitBranch size={10} /> Fork
+          </button>
+        </div>
+      </div>
+      <div className="space-y-0.5 max-h-28 overflow-y-auto">
+        {branchTree(timeline).map(({ branch, depth }) => {
+          const active = branch.id === timeline.activeId;
+          const own = branch.snapshots.filter(s => branch.forkGeneration === null || s.generation >= branch.forkGeneration);
+          return (
+            <div key={branch.id} className="flex items-center gap-1" style={{ paddingLeft: depth * 8 }}>
+              <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: branch.color }} />
+              <span className={`shrink-0 ${active ? 'text-white font-bold' : 'text-gray-400'}`}>{branch.name}</span>
+              <div className="flex flex-wrap gap-px flex-1 min-w-0">
+                {own.map(s => {
+                  const here = active && s.generation === generation;
+                  return (
+                    <button
+                      key={s.generation}
+                      onClick={() => onSelect(branch.id, s.generation)}
+                      className={`px-0.5 rounded font-mono ${here ? 'text-gray-900' : 'text-gray-300 hover:bg-gray-700'}`}
+                      style={here ? { backgroundColor: branch.color } : undefined}
+                      title={`${branch.name}, F${s.generation}`}
+                    >
+                      {s.generation}
+                    </button>
+                  );
+                })}
+              </div>
+              {!active && (
+                <button onClick={() => onToggleOverlay(branch.id)} className="text-gray-500 hover:text-white shrink-0" title="Show or hide this branch in the progress charts">
+                  {hidden.has(branch.id) ? <EyeOff size={10} /> : <Eye size={10} />}
+                </button>
+              )}
+              {canDeleteBranch(timeline, branch.id) && (
+                <button onClick={() => onDelete(branch.id)} className="text-gray-500 hover:text-red-400 shrink-0" title="Delete this branch">
+                  <Trash2 size={10} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BranchTree;
@@ -4,6 +4,7 @@ import { Plant } from '../types';
 import { useFrame } from '@react-three/fiber';
 import { Vector3, Group, Color, Mesh, MeshStandardMaterial } from 'three';
 import { useGLTF, Html } from '@react-three/drei';
+import { getArchitecture } from '../utils/architecture';
 
 // Use Vite's BASE_URL for proper path resolution on GitHub Pages
 const cornModelUrl = `${import.meta.env.BASE_URL}components/corn_corn_corn.glb`;
@@ -14,18 +15,23 @@ interface CornPlant3DProps {
   isSelected: boolean;
   onClick: (id: string) => void;
   showGenetics: boolean;
+  disease?: number | null; // Epidemic progress 0-1 at the current time step (null = not infected yet)
 }
 
-const CornPlant3D: React.FC<CornPlant3DProps> = ({ plant, position, isSelected, onClick, showGenetics }) => {
+const CornPlant3D: React.FC<CornPlant3DProps> = ({ plant, position, isSelected, onClick, showGenetics, disease = null }) => {
   const groupRef = useRef<Group>(null);
 
   // Load the 3D model
   const { scene } = useGLTF(cornModelUrl);
 
   // --- TRAIT VALUES ---
-  const yieldVal = plant.phenotype.yield;
-  const heightVal = plant.phenotype.height;
-  const resVal = plant.phenotype.resistance;
+  // The architecture names which traits drive stature, vigour and health
+  const { traits, display } = getArchitecture();
+  // Predicted GEBVs when a genomic model exists, otherwise the simulator's true values
+  const geneticValues = plant.gebv || plant.breedingValue;
+  const yieldVal = plant.phenotype[display.vigor];
+  const heightVal = plant.phenotype[display.height];
+  const resVal = plant.phenotype[display.health];
 
   // Scaling based on genetics
   const baseScale = 0.4;
@@ -40,6 +46,9 @@ const CornPlant3D: React.FC<CornPlant3DProps> = ({ plant, position, isSelected,
   // Disease severity (inverse of health)
   const diseaseSeverity = 1 - healthFactor;
 
+  // Epidemic lesions, in quarter steps so the model is not re-cloned every frame of progress
+  const lesions = disease === null ? 0 : Math.ceil(disease * 4) / 4;
+
   // Clone scene with disease-based coloring
   const clonedScene = useMemo(() => {
     const c = scene.clone(true);
@@ -76,6 +85,11 @@ const CornPlant3D: React.FC<CornPlant3DProps> = ({ plant, position, isSelected,
       );
     }
 
+    // Infection spreads rust-orange over the plant as the season goes on
+    if (lesions > 0) {
+      plantColor = new Color().lerpColors(plantColor, new Color(0xb7410e), Math.min(1, 0.35 + lesions * 0.65));
+    }
+
     c.traverse((obj) => {
       if ((obj as Mesh).isMesh) {
         const mesh = obj as Mesh;
@@ -95,7 +109,7 @@ const CornPlant3D: React.FC<CornPlant3DProps> = ({ plant, position, isSelected,
     });
 
     return c;
-  }, [scene, healthFactor, diseaseSeverity]);
+  }, [scene, healthFactor, diseaseSeverity, lesions]);
 
   // Animation - reduced sway for sick plants
   useFrame((state) => {
@@ -125,11 +139,11 @@ const CornPlant3D: React.FC<CornPlant3DProps> = ({ plant, position, isSelected,
           style={{ pointerEvents: 'none' }}
         >
           <div className="bg-black/80 backdrop-blur-sm px-2 py-1 rounded text-[10px] font-mono whitespace-nowrap border border-purple-500/50">
-            <div className="text-purple-300 font-bold mb-0.5">GEBV</div>
+            <div className="text-purple-300 font-bold mb-0.5">{plant.gebv ? 'GEBV' : 'TBV'}</div>
             <div className="flex gap-2">
-              <span className="text-green-400">Y:{plant.breedingValue.yield.toFixed(1)}</span>
-              <span className="text-yellow-400">R:{plant.breedingValue.resistance.toFixed(1)}</span>
-              <span className="text-blue-400">H:{plant.breedingValue.height.toFixed(1)}</span>
+              {traits.map(t => (
+                <span key={t.id} style={{ color: t.color }}>{t.abbreviation}:{geneticValues[t.id].toFixed(1)}</span>
+              ))}
             </div>
           </div>
         </Html>
@@ -144,9 +158,12 @@ const CornPlant3D: React.FC<CornPlant3DProps> = ({ plant, position, isSelected,
           style={{ pointerEvents: 'none' }}
         >
           <div className="bg-black/70 px-2 py-1 rounded text-[9px] font-mono whitespace-nowrap">
-            <span className="text-green-300">Y:{yieldVal.toFixed(1)}</span>
-            {' '}
-            <span className="text-yellow-300">R:{resVal.toFixed(1)}</span>
+            {traits.map((t, i) => (
+              <React.Fragment key={t.id}>
+                {i > 0 && ' '}
+                <span style={{ color: t.color }}>{t.abbreviation}:{plant.phenotype[t.id].toFixed(1)}</span>
+              </React.Fragment>
+            ))}
           </div>
         </Html>
       )}
@@ -171,6 +188,14 @@ const CornPlant3D: React.FC<CornPlant3DProps> = ({ plant, position, isSelected,
         </mesh>
       )}
 
+      {/* Infection marker, growing with severity */}
+      {disease !== null && (
+        <mesh position={[0, 0.06, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <ringGeometry args={[0.2, 0.2 + 0.1 + disease * 0.25, 24]} />
+          <meshBasicMaterial color="#f97316" opacity={0.35 + disease * 0.5} transparent side={2} />
+        </mesh>
+      )}
+
       {/* The 3D Corn Model */}
       <primitive
         object={clonedScene}
@@ -141,8 +141,12 @@ const EducationModal: React.FC<Props> = ({ isOpen, onClose }) => {
                
                <div className="space-y-4">
                   <div className="border-l-4 border-blue-500 pl-4">
-                      <h4 className="font-bold text-white">1. Additive Gene Action</h4>
-                      <p className="text-sm text-gray-400">Traits are controlled by 20 loci with purely additive effects (Value 0, 1, or 2). No dominance or epistasis is simulated.</p>
+                      <h4 className="font-bold text-white">1. Gene Action</h4>
+                      <p className="text-sm text-gray-400">
+                        Each locus has an additive effect {'$a$'} and a dominance deviation {'$d = k \\times a$'} (aa = 0, Aa = a + d, AA = 2a); {'$k > 1$'} is overdominance.
+                        Some locus pairs interact epistatically. The GEBV shown is the additive breeding value; the genotypic value G adds dominance and epistasis,
+                        which is why F1 crosses between unrelated lines show heterosis and selfing shows inbreeding depression.
+                      </p>
                   </div>
 
                   <div className="border-l-4 border-green-500 pl-4">
@@ -162,9 +166,28 @@ const EducationModal: React.FC<Props> = ({ isOpen, onClose }) => {
                       </p>
                   </div>
 
+                  <div className="border-l-4 border-purple-500 pl-4">
+                      <h4 className="font-bold text-white">4. Linkage Map</h4>
+                      <p className="text-sm text-gray-400">
+                        Loci sit at centimorgan positions on three chromosomes. Meiosis switches strands at crossovers placed with the Haldane mapping function,
+                        so closely linked alleles travel together and linkage disequilibrium decays at {'$(1-r)$'} per generation.
+                      </p>
+                  </div>
+
                   <div className="border-l-4 border-red-500 pl-4">
-                      <h4 className="font-bold text-white">4. Random Mating</h4>
-                      <p className="text-sm text-gray-400">Selected parents mate randomly (Panmixia). No selfing or specific cross-planning is enabled in this version.</p>
+                      <h4 className="font-bold text-white">5. Mating Designs</h4>
+                      <p className="text-sm text-gray-400">
+                        By default selected parents mate randomly (Panmixia). The sidebar also offers selfing, single-seed descent, full and half diallels,
+                        backcrossing to a recurrent parent, test-crossing and doubled haploids, each with its expected offspring inbreeding.
+                      </p>
+                  </div>
+
+                  <div className="border-l-4 border-pink-500 pl-4">
+                      <h4 className="font-bold text-white">6. Genomic Prediction</h4>
+                      <p className="text-sm text-gray-400">
+                        GEBVs come from rrBLUP or GBLUP fitted to the marker genotypes and phenotypes of a training population (assumed {'$h^2 = 0.5$'}).
+                        Accuracy is the correlation with the true breeding values and decays over generations unless the model is retrained.
+                      </p>
                   </div>
                </div>
              </div>
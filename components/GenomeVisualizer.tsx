@@ -1,6 +1,8 @@
 import React from 'react';
 import { Plant } from '../types';
-import { YIELD_LOCI, RESISTANCE_LOCI, HEIGHT_LOCI, PLEIOTROPIC_YIELD_RESISTANCE, PLEIOTROPIC_HEIGHT_YIELD } from '../constants';
+import { getArchitecture, traitForLocus, isPleiotropic, isEpistatic, getTrait } from '../utils/architecture';
+import { TRIAL_LOCATIONS } from '../constants';
+import { alleleAt, donorFraction, dosage, genomeSize, heterozygosity } from '../utils/genome';
 
 interface GenomeVisualizerProps {
   plant: Plant | null;
@@ -18,82 +20,107 @@ const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({ plant }) => {
     );
   }
 
+  const arch = getArchitecture();
+
   // Calculate heterozygosity percentage
-  const hetCount = plant.genome.diploid ?
-    plant.genome.diploid.filter(a => a.maternal !== a.paternal).length : 0;
-  const hetPercent = plant.genome.diploid ?
-    ((hetCount / plant.genome.diploid.length) * 100).toFixed(1) : '0';
+  const hetPercent = (heterozygosity(plant.genome) * 100).toFixed(1);
 
-  const renderLocus = (index: number) => {
-    const val = plant.genome.loci[index];
-    const diploid = plant.genome.diploid?.[index];
+  const renderLocus = (index: number, position: number) => {
+    const val = dosage(plant.genome, index);
+    const diploid = alleleAt(plant.genome, index);
 
-    const isYield = YIELD_LOCI.includes(index);
-    const isRes = RESISTANCE_LOCI.includes(index);
-    const isHeight = HEIGHT_LOCI.includes(index);
-    const isPleiotropic = PLEIOTROPIC_YIELD_RESISTANCE.includes(index) || PLEIOTROPIC_HEIGHT_YIELD.includes(index);
+    const trait = traitForLocus(index, arch);
+    const isPleio = isPleiotropic(index, arch);
+    const isEpi = isEpistatic(index, arch);
 
     // Check heterozygosity
-    const isHet = diploid ? diploid.maternal !== diploid.paternal : val === 1;
-
-    // Determine colors
-    let bgColor = 'bg-gray-700';
-    let borderColor = 'border-gray-600';
-
-    if (val === 2) { // AA - Homozygous dominant
-      if (isYield) bgColor = 'bg-green-500';
-      else if (isRes) bgColor = 'bg-yellow-500';
-      else if (isHeight) bgColor = 'bg-blue-500';
-    } else if (val === 1) { // Aa - Heterozygous
-      if (isYield) bgColor = 'bg-green-700';
-      else if (isRes) bgColor = 'bg-yellow-700';
-      else if (isHeight) bgColor = 'bg-blue-700';
-      borderColor = 'border-white/40';
-    } else { // aa - Homozygous recessive
-      bgColor = 'bg-gray-800';
-    }
+    const isHet = diploid.maternal !== diploid.paternal;
+
+    // Favourable alleles take the trait color; heterozygotes are drawn dimmer with an outline
+    const alleleColor = trait?.color || '#6b7280';
+    const alleleOpacity = val === 1 ? 0.6 : 1;
+    const borderColor = isHet ? 'border-white/40' : '';
 
     // Pleiotropic loci get a special indicator
-    const pleioRing = isPleiotropic ? 'ring-1 ring-purple-400' : '';
+    const pleioRing = isPleio ? 'ring-1 ring-purple-400' : isEpi ? 'ring-1 ring-pink-400' : '';
 
     return (
       <div
         key={index}
         className="flex flex-col items-center group relative"
-        title={`Locus ${index}: ${val === 2 ? 'AA' : val === 1 ? 'Aa' : 'aa'}${isPleiotropic ? ' (Pleiotropic)' : ''}`}
+        title={`Locus ${index} @ ${position} cM: ${val === 2 ? 'AA' : val === 1 ? 'Aa' : 'aa'}${trait ? ` (${trait.name})` : ''}${isPleio ? ' (Pleiotropic)' : ''}${isEpi ? ' (Epistatic)' : ''}`}
       >
         {/* Diploid representation - two alleles side by side */}
         <div className="flex gap-px">
           <div
-            className={`w-1.5 h-5 rounded-l-sm ${diploid?.maternal ? bgColor : 'bg-gray-800'} ${isHet ? borderColor : ''} border-r border-gray-900`}
+            className={`w-1.5 h-5 rounded-l-sm ${diploid.maternal ? '' : 'bg-gray-800'} ${borderColor} border-r border-gray-900`}
+            style={diploid.maternal ? { backgroundColor: alleleColor, opacity: alleleOpacity } : undefined}
           />
           <div
-            className={`w-1.5 h-5 rounded-r-sm ${diploid?.paternal ? bgColor : 'bg-gray-800'} ${pleioRing}`}
+            className={`w-1.5 h-5 rounded-r-sm ${diploid.paternal ? '' : 'bg-gray-800'} ${pleioRing}`}
+            style={diploid.paternal ? { backgroundColor: alleleColor, opacity: alleleOpacity } : undefined}
           />
         </div>
       </div>
     );
   };
 
-  // Group loci by chromosome/trait for visualization
-  const chromosomes = [
-    { name: 'Chr1 (Yield)', loci: YIELD_LOCI, color: 'text-green-400' },
-    { name: 'Chr2 (Resistance)', loci: RESISTANCE_LOCI, color: 'text-yellow-400' },
-    { name: 'Chr3 (Height)', loci: HEIGHT_LOCI, color: 'text-blue-400' },
-  ];
+  // Group loci by chromosome (from the genetic map), labelled by the trait they carry
+  const chromosomes = arch.map.map(chr => {
+    const trait = traitForLocus(chr.loci[0]?.index ?? -1, arch);
+    return { name: `${chr.name} (${trait?.name || 'Neutral'})`, length: chr.length, loci: chr.loci, color: trait?.color || '#9ca3af' };
+  });
+
+  // Loci missing from the map assort independently; show them as their own group
+  const mapped = new Set(arch.map.flatMap(chr => chr.loci.map(l => l.index)));
+  const unmapped = Array.from({ length: genomeSize(plant.genome) }, (_, i) => i).filter(i => !mapped.has(i));
+  if (unmapped.length > 0) {
+    chromosomes.push({ name: 'Unlinked', length: 0, loci: unmapped.map(index => ({ index, position: 0 })), color: '#9ca3af' });
+  }
+
+  // Pleiotropic effects, described relative to each locus's main trait
+  const linkageNotes = arch.pleiotropy.map(p => {
+    const main = traitForLocus(p.locus, arch);
+    const secondary = getTrait(p.trait, arch);
+    const sign = p.effect >= 0 ? '+' : '−';
+    return `Locus ${p.locus}: ${main?.name || 'Neutral'} → ${secondary?.name || p.trait} (${sign}${Math.abs(p.effect)}/allele)`;
+  });
+
+  const epistasisNotes = arch.epistasis.map(e =>
+    `Loci ${e.loci[0]}×${e.loci[1]}: ${getTrait(e.trait, arch)?.name || e.trait} epistasis (${e.effect >= 0 ? '+' : '−'}${Math.abs(e.effect)})`
+  );
 
   return (
     <div className="space-y-2 text-[10px]">
       {/* Header with ID and heterozygosity */}
       <div className="flex justify-between items-center bg-gray-800/50 px-2 py-1 rounded">
-        <span className="font-mono text-gray-300">{plant.id}</span>
+        <span className="font-mono text-gray-300" title={plant.id}>{plant.name ?? plant.id}</span>
         <div className="flex gap-2">
           <span className={`px-1.5 py-0.5 rounded ${plant.isHeterozygous ? 'bg-purple-900/50 text-purple-300' : 'bg-gray-700 text-gray-400'}`}>
             Het: {hetPercent}%
           </span>
+          <span className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300" title="Pedigree inbreeding coefficient">
+            F: {plant.inbreeding.toFixed(3)}
+          </span>
+          {plant.genome.donor && (
+            <span className="px-1.5 py-0.5 rounded bg-amber-900/50 text-amber-300" title="Fraction of alleles from introduced germplasm">
+              Donor: {Math.round(donorFraction(plant.genome) * 100)}%
+            </span>
+          )}
+          {plant.infection && (
+            <span className="px-1.5 py-0.5 rounded bg-orange-900/50 text-orange-300" title={`Infected in week ${plant.infection.step}, severity ${plant.infection.severity}`}>
+              Infected: −{Math.round(plant.infection.loss * 100)}%
+            </span>
+          )}
         </div>
       </div>
 
+      {/* Pedigree */}
+      <div className="flex justify-between px-2 text-[8px] text-gray-500 font-mono">
+        <span>♀ {plant.motherId ? plant.motherId.slice(-8) : 'founder'}</span>
+        <span>♂ {plant.fatherId ? plant.fatherId.slice(-8) : plant.motherId ? 'doubled haploid' : 'founder'}</span>
+      </div>
+
       {/* Diploid Genome Visualization */}
       <div className="bg-black/50 p-2 rounded">
         <p className="text-gray-500 text-[9px] mb-1 font-bold">DIPLOID GENOME (2n)</p>
@@ -101,11 +128,12 @@ const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({ plant }) => {
         {chromosomes.map((chr, chrIdx) => (
           <div key={chr.name} className="mb-1.5">
             <div className="flex items-center gap-1 mb-0.5">
-              <span className={`${chr.color} text-[8px] font-bold`}>{chr.name}</span>
+              <span className="text-[8px] font-bold" style={{ color: chr.color }}>{chr.name}</span>
+              {chr.length > 0 && <span className="text-gray-600 text-[7px]">{chr.length} cM</span>}
               {chrIdx === 0 && <span className="text-purple-400 text-[7px]">↔ linkage</span>}
             </div>
             <div className="flex gap-0.5 justify-start">
-              {chr.loci.map(idx => renderLocus(idx))}
+              {chr.loci.map(l => renderLocus(l.index, l.position))}
             </div>
           </div>
         ))}
@@ -113,39 +141,66 @@ const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({ plant }) => {
 
       {/* Breeding Values (GEBV) */}
       <div className="bg-gray-800/30 p-2 rounded">
-        <p className="text-gray-500 text-[9px] mb-1 font-bold">GENOMIC BREEDING VALUES (GEBV)</p>
+        <p className="text-gray-500 text-[9px] mb-1 font-bold">TRUE BREEDING VALUES (TBV)</p>
         <div className="grid grid-cols-3 gap-1">
-          <div className="bg-green-900/30 p-1.5 rounded text-center border border-green-700/30">
-            <p className="text-green-400 font-bold">Yield</p>
-            <p className="text-white text-sm font-mono">{plant.breedingValue.yield.toFixed(1)}</p>
-            <p className="text-gray-500 text-[8px]">P: {plant.phenotype.yield.toFixed(1)}</p>
-          </div>
-          <div className="bg-yellow-900/30 p-1.5 rounded text-center border border-yellow-700/30">
-            <p className="text-yellow-400 font-bold">Resist</p>
-            <p className="text-white text-sm font-mono">{plant.breedingValue.resistance.toFixed(1)}</p>
-            <p className="text-gray-500 text-[8px]">P: {plant.phenotype.resistance.toFixed(1)}</p>
-          </div>
-          <div className="bg-blue-900/30 p-1.5 rounded text-center border border-blue-700/30">
-            <p className="text-blue-400 font-bold">Height</p>
-            <p className="text-white text-sm font-mono">{plant.breedingValue.height.toFixed(1)}</p>
-            <p className="text-gray-500 text-[8px]">P: {plant.phenotype.height.toFixed(1)}</p>
-          </div>
+          {arch.traits.map(trait => (
+            <div
+              key={trait.id}
+              className="p-1.5 rounded text-center border"
+              style={{ backgroundColor: `${trait.color}26`, borderColor: `${trait.color}4d` }}
+            >
+              <p className="font-bold" style={{ color: trait.color }}>{trait.name}</p>
+              <p className="text-white text-sm font-mono">{plant.breedingValue[trait.id].toFixed(1)}</p>
+              {plant.gebv && <p className="text-purple-300 text-[8px]">GEBV: {plant.gebv[trait.id].toFixed(1)}</p>}
+              <p className="text-gray-500 text-[8px]">G: {plant.genotypicValue[trait.id].toFixed(1)}</p>
+              <p className="text-gray-500 text-[8px]">{plant.met ? 'BLUE' : 'P'}: {plant.phenotype[trait.id].toFixed(1)}</p>
+            </div>
+          ))}
         </div>
       </div>
 
+      {/* Multi-Environment Trial */}
+      {plant.met && (
+        <div className="bg-gray-800/30 p-2 rounded">
+          <p className="text-gray-500 text-[9px] mb-1 font-bold">MULTI-ENVIRONMENT TRIAL</p>
+          <table className="w-full text-[8px] font-mono">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal">Location</th>
+                {arch.traits.map(t => <th key={t.id} className="text-right font-normal" style={{ color: t.color }}>{t.abbreviation}</th>)}
+              </tr>
+            </thead>
+            <tbody className="text-gray-300">
+              {TRIAL_LOCATIONS.filter(loc => plant.met!.phenotypes[loc.id]).map(loc => (
+                <tr key={loc.id}>
+                  <td className="truncate max-w-[6rem]">{loc.name}</td>
+                  {arch.traits.map(t => <td key={t.id} className="text-right">{plant.met!.phenotypes[loc.id][t.id].toFixed(1)}</td>)}
+                </tr>
+              ))}
+              <tr className="text-teal-300 border-t border-gray-700" title="Finlay-Wilkinson slope: b > 1 responsive to good sites, b < 1 stable">
+                <td>FW slope b</td>
+                {arch.traits.map(t => <td key={t.id} className="text-right">{plant.met!.fwSlope[t.id].toFixed(2)}</td>)}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Legend */}
       <div className="flex flex-wrap gap-x-2 gap-y-0.5 text-[8px] text-gray-500 justify-center">
         <span>◼ AA (dom)</span>
         <span>◼ Aa (het)</span>
         <span>◻ aa (rec)</span>
         <span className="text-purple-400">○ pleiotropic</span>
+        <span className="text-pink-400">○ epistatic</span>
       </div>
 
       {/* Genetic Principle */}
       <div className="bg-purple-900/20 border border-purple-700/30 p-1.5 rounded text-[8px] text-purple-300">
         <p className="font-bold">📚 Linkage:</p>
-        <p>• Loci 8-9: Yield ↔ Resistance trade-off</p>
-        <p>• Loci 20-21: Height → Yield positive link</p>
+        {linkageNotes.map(note => <p key={note}>• {note}</p>)}
+        {epistasisNotes.map(note => <p key={note}>• {note}</p>)}
+        <p>• Crossovers follow the {arch.mappingFunction === 'kosambi' ? 'Kosambi' : 'Haldane'} map function</p>
       </div>
     </div>
   );
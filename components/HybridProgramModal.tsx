@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { X, GitMerge } from 'lucide-react';
+import { HeteroticPool, HybridTrial } from '../types';
+import { LINES_PER_POOL } from '../constants';
+import { getArchitecture } from '../utils/architecture';
+import { getSeed } from '../utils/random';
+import { createHeteroticPools, runHybridTrial, advanceHeteroticPools, indexMerit } from '../utils/hybridBreeding';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  envVariance: number;
+}
+
+// Hybrid program: two heterotic groups of inbred lines, testcrosses to the opposite group,
+// GCA/SCA from the hybrid phenotypes and reciprocal recurrent selection on GCA.
+const HybridProgramModal: React.FC<Props> = ({ isOpen, onClose, envVariance }) => {
+  const [pools, setPools] = useState<HeteroticPool[] | null>(null);
+  const [trial, setTrial] = useState<HybridTrial | null>(null);
+  const [testersPerPool, setTestersPerPool] = useState<number>(2);
+  const [cycle, setCycle] = useState<number>(1);
+
+  if (!isOpen) return null;
+  const traits = getArchitecture().traits;
+
+  const startProgram = () => {
+    setPools(createHeteroticPools(LINES_PER_POOL, envVariance, getSeed()));
+    setTrial(null);
+    setCycle(1);
+  };
+
+  const testcross = () => {
+    if (!pools) return;
+    setTrial(runHybridTrial(pools, testersPerPool, cycle, envVariance));
+  };
+
+  const nextCycle = () => {
+    if (!pools || !trial) return;
+    setPools(advanceHeteroticPools(pools, trial, envVariance));
+    setTrial(null);
+    setCycle(trial.cycle + 1);
+  };
+
+  const topHybrids = trial
+    ? [...trial.hybrids].sort((a, b) => indexMerit(b.phenotype) - indexMerit(a.phenotype)).slice(0, 6)
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-gray-900 border border-gray-700 w-full max-w-4xl h-[85vh] rounded-2xl shadow-2xl flex flex-col">
+
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-800">
+          <div className="flex items-center gap-2">
+            <GitMerge className="text-amber-500" />
+            <h2 className="text-xl font-bold text-white">Hybrid Program</h2>
+            {pools && <span className="text-sm text-gray-500 font-mono">Cycle {cycle}</span>}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Controls */}
+        <div className="flex flex-wrap items-center gap-2 px-6 py-3 border-b border-gray-800 text-xs">
+          <button onClick={startProgram} className="bg-gray-700 hover:bg-gray-600 text-white rounded px-3 py-1.5">
+            {pools ? 'Restart Pools' : 'Create Heterotic Pools'}
+          </button>
+          <label className="flex items-center gap-1 text-gray-400">
+            Testers per group
+            <select
+              value={testersPerPool}
+              onChange={(e) => setTestersPerPool(parseInt(e.target.value, 10))}
+              className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5"
+            >
+              {Array.from({ length: LINES_PER_POOL }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n === LINES_PER_POOL ? `${n} (full factorial)` : n}</option>
+              ))}
+            </select>
+          </label>
+          <button onClick={testcross} disabled={!pools} className="bg-amber-700 hover:bg-amber-600 disabled:bg-gray-800 disabled:text-gray-600 text-white rounded px-3 py-1.5">
+            Testcross & Estimate GCA/SCA
+          </button>
+          <button onClick={nextCycle} disabled={!trial} className="bg-green-700 hover:bg-green-600 disabled:bg-gray-800 disabled:text-gray-600 text-white rounded px-3 py-1.5">
+            Next Cycle (select on GCA)
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4 text-gray-300">
+          {!pools && (
+            <p className="text-sm text-gray-400">
+              Commercial corn is hybrid. Create two heterotic groups of inbred lines (Stiff Stalk and Non-Stiff Stalk),
+              cross each line to testers from the opposite group, and pick parents on general combining ability (GCA)
+              rather than on their own performance.
+            </p>
+          )}
+
+          {trial && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+              <div className="bg-gray-800/50 p-3 rounded border border-gray-700">
+                <p className="text-gray-500 font-bold uppercase text-[10px] mb-1">Hybrid Mean (μ)</p>
+                {traits.map(t => <p key={t.id} style={{ color: t.color }}>{t.name}: <span className="font-mono text-white">{trial.combining.mean[t.id].toFixed(1)}</span></p>)}
+              </div>
+              <div className="bg-gray-800/50 p-3 rounded border border-gray-700">
+                <p className="text-gray-500 font-bold uppercase text-[10px] mb-1">Mid-Parent Heterosis</p>
+                {traits.map(t => <p key={t.id} style={{ color: t.color }}>{t.name}: <span className="font-mono text-white">{trial.heterosis[t.id] >= 0 ? '+' : ''}{trial.heterosis[t.id].toFixed(1)}</span></p>)}
+              </div>
+              <div className="bg-amber-900/20 p-3 rounded border border-amber-700/40">
+                <p className="text-amber-400 font-bold uppercase text-[10px] mb-1">Best Single Cross</p>
+                {trial.bestPredicted && (
+                  <>
+                    <p className="font-mono text-white">{trial.bestPredicted.lineA} × {trial.bestPredicted.lineB}</p>
+                    <p className="text-[10px] text-gray-400">{trial.bestPredicted.tested ? 'Tested in this trial' : 'Predicted from GCA (untested)'}</p>
+                    {traits.map(t => <p key={t.id} style={{ color: t.color }}>{t.name}: <span className="font-mono text-white">{trial.bestPredicted!.value[t.id].toFixed(1)}</span></p>)}
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {pools && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {pools.map(pool => (
+                <div key={pool.id} className="bg-gray-800/50 p-3 rounded border border-gray-700">
+                  <p className="text-sm font-bold text-white mb-2">{pool.name} <span className="text-gray-500 font-mono text-xs">({pool.id})</span></p>
+                  <table className="w-full text-[10px] font-mono">
+                    <thead>
+                      <tr className="text-gray-500">
+                        <th className="text-left font-normal">Line</th>
+                        {traits.map(t => <th key={t.id} className="text-right font-normal" style={{ color: t.color }}>{t.abbreviation} per se</th>)}
+                        {trial && traits.map(t => <th key={`${t.id}-gca`} className="text-right font-normal" style={{ color: t.color }}>{t.abbreviation} GCA</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pool.lines.map(line => (
+                        <tr key={line.id}>
+                          <td>{line.id}</td>
+                          {traits.map(t => <td key={t.id} className="text-right">{line.phenotype[t.id].toFixed(1)}</td>)}
+                          {trial && traits.map(t => {
+                            const g = trial.combining.gca[line.id]?.[t.id] ?? 0;
+                            return <td key={`${t.id}-gca`} className={`text-right ${g >= 0 ? 'text-green-400' : 'text-red-400'}`}>{g >= 0 ? '+' : ''}{g.toFixed(2)}</td>;
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {trial && (
+            <div className="bg-gray-800/50 p-3 rounded border border-gray-700">
+              <p className="text-sm font-bold text-white mb-2">Top Hybrids <span className="text-gray-500 text-xs font-normal">({trial.hybrids.length} tested)</span></p>
+              <table className="w-full text-[10px] font-mono">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal">Hybrid</th>
+                    {traits.map(t => <th key={t.id} className="text-right font-normal" style={{ color: t.color }}>{t.abbreviation}</th>)}
+                    {traits.map(t => <th key={`${t.id}-sca`} className="text-right font-normal" style={{ color: t.color }}>{t.abbreviation} SCA</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {topHybrids.map(h => (
+                    <tr key={h.id}>
+                      <td>{h.id}</td>
+                      {traits.map(t => <td key={t.id} className="text-right">{h.phenotype[t.id].toFixed(1)}</td>)}
+                      {traits.map(t => <td key={`${t.id}-sca`} className="text-right text-gray-400">{trial.combining.sca[h.id][t.id].toFixed(2)}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-[10px] text-gray-500 mt-2">y_ij = μ + GCA_i + GCA_j + SCA_ij. GCA reflects additive value in crosses; SCA is the dominance and epistatic part specific to a pair.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HybridProgramModal;
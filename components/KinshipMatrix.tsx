@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface Props {
+  ids: string[];
+  matrix: number[][]; // From the engine worker (see assessRelatedness)
+}
+
+// Heatmap of the numerator relationship matrix A for a handful of plants.
+// Diagonal = 1 + F; off-diagonal = 2 × coancestry (0.5 for full-sibs, 0.25 for half-sibs).
+const KinshipMatrix: React.FC<Props> = ({ ids, matrix }) => {
+  const cellColor = (a: number, diagonal: boolean) => {
+    if (diagonal) return `rgba(168, 85, 247, ${0.3 + Math.min(1, a - 1) * 0.7})`;
+    return `rgba(239, 68, 68, ${Math.min(1, a * 1.6)})`;
+  };
+
+  return (
+    <div className="mt-1.5">
+      <p className="text-[8px] text-gray-500 font-bold mb-0.5">RELATIONSHIP MATRIX (A)</p>
+      <div
+        className="grid gap-px bg-gray-900 p-px rounded"
+        style={{ gridTemplateColumns: `repeat(${ids.length}, minmax(0, 1fr))` }}
+      >
+        {matrix.map((row, i) => row.map((a, j) => (
+          <div
+            key={`${i}-${j}`}
+            className="aspect-square"
+            style={{ backgroundColor: cellColor(a, i === j) }}
+            title={`${ids[i].slice(-5)} × ${ids[j].slice(-5)}: a = ${a.toFixed(3)}`}
+          />
+        )))}
+      </div>
+      <p className="text-[7px] text-gray-600 mt-0.5">Red = related (avoid crossing) • Purple diagonal = 1 + F</p>
+    </div>
+  );
+};
+
+export default KinshipMatrix;
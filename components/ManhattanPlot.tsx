@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { GwasResult, MultipleTestCorrection, Plant } from '../types';
+import { getArchitecture } from '../utils/architecture';
+import { runGwasAsync } from '../utils/engineClient';
+
+interface Props {
+  population: Plant[];
+  trainingSet: Plant[];
+}
+
+const CHROMOSOME_GAP = 10; // cM of blank axis between chromosomes
+const UNLINKED_SPACING = 2; // Axis units per unmapped locus
+
+// Manhattan plot of a marker–trait association scan: −log10 p per locus along the map,
+// with the multiple-testing threshold. The true QTL stay hidden until revealed. The scan
+// runs in the engine worker; a result for an outdated choice of plants or trait is dropped.
+const ManhattanPlot: React.FC<Props> = ({ population, trainingSet }) => {
+  const arch = getArchitecture();
+  const [traitId, setTraitId] = useState<string>(arch.traits[0].id);
+  const [source, setSource] = useState<'population' | 'training'>('population');
+  const [correction, setCorrection] = useState<MultipleTestCorrection>('bonferroni');
+  const [reveal, setReveal] = useState<boolean>(false);
+
+  const trait = arch.traits.find(t => t.id === traitId) ?? arch.traits[0];
+  const plants = source === 'training' ? trainingSet : population;
+  const [result, setResult] = useState<GwasResult | null>(null);
+  useEffect(() => {
+    let current = true;
+    runGwasAsync(plants, trait.id, correction)
+      .then(scan => { if (current) setResult(scan); })
+      .catch(err => console.error(err));
+    return () => { current = false; };
+  }, [plants, trait.id, correction]);
+
+  // Cumulative map coordinates: chromosomes in map order, unmapped loci after them
+  const { points, ticks } = useMemo(() => {
+    if (!result) return { points: [], ticks: [] };
+    const offsets = new Map<string, number>();
+    const ticks: { x: number; label: string }[] = [];
+    let offset = 0;
+    arch.map.forEach(chr => {
+      offsets.set(chr.name, offset);
+      ticks.push({ x: offset + chr.length / 2, label: chr.name });
+      offset += chr.length + CHROMOSOME_GAP;
+    });
+    const unlinkedStart = offset;
+    const unlinked = result.associations.filter(a => a.chromosome === null);
+    if (unlinked.length > 0) ticks.push({ x: unlinkedStart + (unlinked.length * UNLINKED_SPACING) / 2, label: 'Unl.' });
+
+    const chromosomeIndex = new Map(arch.map.map((chr, i) => [chr.name, i]));
+    let u = 0;
+    const points = result.associations.map(a => {
+      const x = a.chromosome !== null
+        ? offsets.get(a.chromosome)! + a.position!
+        : unlinkedStart + (u++) * UNLINKED_SPACING;
+      const shade = (a.chromosome !== null ? chromosomeIndex.get(a.chromosome)! : arch.map.length) % 2 === 0 ? '#9ca3af' : '#4b5563';
+      return { ...a, x, color: a.pValue <= result.threshold ? trait.color : shade };
+    });
+    return { points, ticks };
+  }, [result, arch, trait.color]);
+
+  const trueQtl = new Set([
+    ...trait.lociIndices,
+    ...arch.pleiotropy.filter(p => p.trait === trait.id).map(p => p.locus),
+  ]);
+  if (!result) {
+    return <div className="bg-gray-800/50 p-2 rounded border border-gray-700 text-[10px] text-gray-500 italic">Scanning markers…</div>;
+  }
+  const hits = points.filter(p => p.pValue <= result.threshold).sort((a, b) => a.pValue - b.pValue);
+  const thresholdLogP = -Math.log10(result.threshold);
+
+  return (
+    <div className="bg-gray-800/50 p-2 rounded border border-gray-700 text-[10px]">
+      <div className="flex flex-wrap items-center gap-1 mb-1">
+        <select value={trait.id} onChange={(e) => setTraitId(e.target.value)} className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5">
+          {arch.traits.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        <select value={source} onChange={(e) => setSource(e.target.value as 'population' | 'training')} className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5">
+          <option value="population">Current ({population.length})</option>
+          <option value="training">Training set ({trainingSet.length})</option>
+        </select>
+        <select value={correction} onChange={(e) => setCorrection(e.target.value as MultipleTestCorrection)} className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5">
+          <option value="bonferroni">Bonferroni</option>
+          <option value="fdr">FDR (BH)</option>
+        </select>
+      </div>
+
+      {result.n < 3 ? (
+        <p className="text-gray-500 italic py-2">Not enough phenotyped plants for a scan.</p>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={130}>
+            <ScatterChart margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis
+                type="number"
+                dataKey="x"
+                domain={['dataMin - 2', 'dataMax + 2']}
+                ticks={ticks.map(t => t.x)}
+                tickFormatter={(x: number) => ticks.find(t => t.x === x)?.label ?? ''}
+                stroke="#9CA3AF"
+                tick={{ fontSize: 8 }}
+              />
+              <YAxis type="number" dataKey="logP" stroke="#9CA3AF" tick={{ fontSize: 8 }} domain={[0, (max: number) => Math.ceil(Math.max(max, thresholdLogP + 0.5))]} />
+              <Tooltip
+                cursor={false}
+                contentStyle={{ backgroundColor: '#1F2937', borderColor: '#4B5563', color: '#F3F4F6', fontSize: 10 }}
+                formatter={(value: number, name: string) => [name === 'logP' ? value.toFixed(2) : value, name === 'logP' ? '−log10 p' : 'Map']}
+                labelFormatter={() => ''}
+              />
+              <ReferenceLine y={thresholdLogP} stroke="#ef4444" strokeDasharray="4 2" />
+              <Scatter data={points} isAnimationActive={false}>
+                {points.map(p => <Cell key={p.locus} fill={p.color} />)}
+              </Scatter>
+            </ScatterChart>
+          </ResponsiveContainer>
+          <p className="text-gray-500">
+            n = {result.n}, {result.associations.length} markers · threshold p ≤ {result.threshold.toExponential(1)}
+            {correction === 'bonferroni' ? ` (α/${result.associations.length})` : ` (FDR ${result.alpha})`}
+          </p>
+
+          {/* Significant markers */}
+          <div className="mt-1 space-y-0.5 font-mono">
+            {hits.length === 0 && <p className="text-gray-500 font-sans italic">No marker passes the threshold.</p>}
+            {hits.slice(0, 8).map(h => (
+              <div key={h.locus} className="flex justify-between">
+                <span style={{ color: trait.color }}>
+                  L{h.locus}{h.chromosome ? ` ${h.chromosome}@${h.position}cM` : ''}
+                  {reveal && <span className={trueQtl.has(h.locus) ? 'text-green-400' : 'text-red-400'}> {trueQtl.has(h.locus) ? '✓' : '✗'}</span>}
+                </span>
+                <span className="text-gray-400">b = {h.effect >= 0 ? '+' : ''}{h.effect.toFixed(2)} · −log p = {h.logP.toFixed(1)}</span>
+              </div>
+            ))}
+            {hits.length > 8 && <p className="text-gray-500">+{hits.length - 8} more</p>}
+          </div>
+
+          <label className="flex items-center gap-1 mt-1 text-gray-400">
+            <input type="checkbox" checked={reveal} onChange={(e) => setReveal(e.target.checked)} />
+            Reveal true QTL
+          </label>
+          {reveal && (
+            <p className="text-gray-500 mt-0.5">
+              {trait.name} loci: {[...trueQtl].sort((a, b) => a - b).join(', ')}.
+              Found {[...trueQtl].filter(l => result.significant.includes(l)).length} of {trueQtl.size}; {hits.filter(h => !trueQtl.has(h.locus)).length} false or linked hit(s).
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ManhattanPlot;
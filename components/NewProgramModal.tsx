@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { X, SlidersHorizontal } from 'lucide-react';
+import { GeneticArchitecture, ProgramConfig } from '../types';
+import { DEFAULT_PROGRAM_CONFIG, PROGRAM_LIMITS } from '../constants';
+import { requiredGenomeLength } from '../utils/architecture';
+import { parseSeed } from '../utils/random';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  config: ProgramConfig;
+  architecture: GeneticArchitecture;
+  onStart: (config: ProgramConfig, seed?: number) => void;
+}
+
+const FIELDS: { key: keyof ProgramConfig; label: string; hint: string }[] = [
+  { key: 'populationSize', label: 'Founder population', hint: 'Plants in the F1 field' },
+  { key: 'offspringCount', label: 'Offspring per generation', hint: 'Plants bred from the selected parents each cycle' },
+  { key: 'genomeLength', label: 'Genome length (loci)', hint: 'Loci beyond the crop\'s QTL are neutral markers' },
+  { key: 'initialEnvVariance', label: 'Initial σ²E', hint: 'Environmental variance of the founder trial' },
+  { key: 'maxGenerations', label: 'Generations', hint: 'Length of the program' },
+];
+
+// Setup dialog for a new breeding program: population sizes, genome length, starting
+// environment and program length. Starting discards the current run.
+const NewProgramModal: React.FC<Props> = ({ isOpen, onClose, config, architecture, onStart }) => {
+  const [draft, setDraft] = useState<ProgramConfig>(config);
+  const [seedInput, setSeedInput] = useState<string>('');
+
+  useEffect(() => {
+    if (isOpen) setDraft(config);
+  }, [isOpen, config]);
+
+  if (!isOpen) return null;
+  const minLoci = requiredGenomeLength(architecture);
+
+  const limitsFor = (key: keyof ProgramConfig) =>
+    key === 'genomeLength' ? { ...PROGRAM_LIMITS.genomeLength, min: minLoci } : PROGRAM_LIMITS[key];
+
+  const update = (key: keyof ProgramConfig, raw: string) => {
+    const value = parseFloat(raw);
+    if (Number.isFinite(value)) setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  // Clamp to the allowed range; everything but σ²E is a whole number
+  const normalized = (): ProgramConfig => {
+    const out = { ...draft };
+    FIELDS.forEach(({ key }) => {
+      const { min, max } = limitsFor(key);
+      const v = Math.min(max, Math.max(min, draft[key]));
+      out[key] = key === 'initialEnvVariance' ? parseFloat(v.toFixed(1)) : Math.round(v);
+    });
+    return out;
+  };
+
+  const start = () => {
+    onStart(normalized(), seedInput.trim() ? parseSeed(seedInput) : undefined);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-gray-900 border border-gray-700 w-full max-w-md rounded-2xl shadow-2xl flex flex-col">
+
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-800">
+          <div className="flex items-center gap-2">
+            <SlidersHorizontal className="text-green-500" />
+            <h2 className="text-xl font-bold text-white">New Program</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Fields */}
+        <div className="p-6 space-y-3 text-sm text-gray-300">
+          <p className="text-xs text-gray-500">Crop: <span className="text-gray-300">{architecture.name}</span> ({minLoci} QTL loci)</p>
+          {FIELDS.map(({ key, label, hint }) => {
+            const { min, max, step } = limitsFor(key);
+            return (
+              <label key={key} className="flex items-center justify-between gap-3">
+                <span>
+                  {label}
+                  <span className="block text-[10px] text-gray-500">{hint} ({min}–{max})</span>
+                </span>
+                <input
+                  type="number"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={draft[key]}
+                  onChange={(e) => update(key, e.target.value)}
+                  className="w-24 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right font-mono text-xs"
+                />
+              </label>
+            );
+          })}
+          <label className="flex items-center justify-between gap-3">
+            <span>
+              Seed
+              <span className="block text-[10px] text-gray-500">Leave blank for a random seed</span>
+            </span>
+            <input
+              type="text"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              className="w-24 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right font-mono text-xs"
+            />
+          </label>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-between items-center px-6 py-4 border-t border-gray-800 text-xs">
+          <button onClick={() => setDraft({ ...DEFAULT_PROGRAM_CONFIG, genomeLength: Math.max(minLoci, DEFAULT_PROGRAM_CONFIG.genomeLength) })} className="text-gray-400 hover:text-white">
+            Defaults
+          </button>
+          <button onClick={start} className="bg-green-700 hover:bg-green-600 text-white font-bold rounded px-4 py-2">
+            Start Program
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewProgramModal;
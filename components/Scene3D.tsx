@@ -2,9 +2,10 @@
 import React, { Suspense, useMemo, useState, useEffect } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Sky, Environment, Stars } from '@react-three/drei';
-import { Plant } from '../types';
+import { Plant, EpidemicRecord, FieldTrial } from '../types';
+import { fieldColumns } from '../utils/epidemic';
+import { entryCells } from '../utils/fieldTrial';
 import CornPlant3D from './CornPlant3D';
-import { POPULATION_SIZE } from '../constants';
 import * as THREE from 'three';
 
 interface Scene3DProps {
@@ -13,8 +14,13 @@ interface Scene3DProps {
    onPlantClick: (id: string) => void;
    showGenetics: boolean;
    weather?: 'sunny' | 'cloudy' | 'rainy';
+   epidemic?: EpidemicRecord | null;
+   field?: FieldTrial | null;
 }
 
+const EPIDEMIC_STEP_MS = 700; // Playback speed of the season's epidemic
+const MAX_RENDERED_PLANTS = 400; // Larger generations show this many plants in a plain grid
+
 // Procedural soil texture
 const SoilGround: React.FC = () => {
    const soilTexture = useMemo(() => {
@@ -72,6 +78,33 @@ const SoilGround: React.FC = () => {
    );
 };
 
+// Soil fertility of a laid-out trial, one texel per plot: pale where poor, dark where rich
+const FertilityOverlay: React.FC<{ field: FieldTrial; spacing: number }> = ({ field, spacing }) => {
+   const texture = useMemo(() => {
+      const canvas = document.createElement('canvas');
+      canvas.width = field.cols;
+      canvas.height = field.rows;
+      const ctx = canvas.getContext('2d')!;
+      const values = field.fertility.flat();
+      const spread = Math.max(1e-6, ...values.map(Math.abs));
+      field.fertility.forEach((row, r) => row.forEach((f, c) => {
+         const t = (f / spread + 1) / 2; // 0 = poorest, 1 = richest
+         ctx.fillStyle = `rgb(${Math.round(190 - 150 * t)}, ${Math.round(160 - 130 * t)}, ${Math.round(110 - 90 * t)})`;
+         ctx.fillRect(c, r, 1, 1);
+      }));
+      const tex = new THREE.CanvasTexture(canvas);
+      tex.magFilter = THREE.LinearFilter;
+      return tex;
+   }, [field]);
+
+   return (
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.005, 0]} receiveShadow>
+         <planeGeometry args={[field.cols * spacing, field.rows * spacing]} />
+         <meshStandardMaterial map={texture} transparent opacity={0.85} roughness={0.95} />
+      </mesh>
+   );
+};
+
 // Field furrows
 const FieldFurrows: React.FC<{ rows: number; spacing: number }> = ({ rows, spacing }) => {
    const furrows = useMemo(() => {
@@ -122,24 +155,59 @@ const Scene3D: React.FC<Scene3DProps> = ({
    selectedIds,
    onPlantClick,
    showGenetics,
-   weather = 'sunny'
+   weather = 'sunny',
+   epidemic = null,
+   field = null
 }) => {
-   // Grid Layout - 8x8 for 64 plants
-   const rows = Math.ceil(Math.sqrt(POPULATION_SIZE));
+   // Square grid sized to the current generation (8x8 for 64 plants), or the trial's plot
+   // grid with each entry standing in its first-replicate plot. Generations too large to
+   // draw show their first plants only; selection tools still act on every plant.
+   const shown = population.length > MAX_RENDERED_PLANTS ? population.slice(0, MAX_RENDERED_PLANTS) : population;
+   const layout = shown === population ? field : null;
+   const cols = layout ? layout.cols : fieldColumns(shown.length);
+   const rows = layout ? layout.rows : cols;
    const spacing = 1.2;
-   const fieldOffset = (rows * spacing) / 2 - spacing / 2;
+   const offsetX = (cols * spacing) / 2 - spacing / 2;
+   const offsetZ = (rows * spacing) / 2 - spacing / 2;
 
    // Positions are computed once and memoized
    const plantPositions = useMemo(() => {
-      return population.map((_, index) => {
-         const row = Math.floor(index / rows);
-         const col = index % rows;
+      const cells = layout ? entryCells(layout) : null;
+      let extra = 0; // Plants outside the trial (e.g. donors introduced this season) stand past its last row
+      return shown.map((plant, index) => {
+         const cell = cells ? cells.get(plant.id) : [Math.floor(index / cols), index % cols];
+         const [row, col] = cell ?? [rows + Math.floor(extra / cols), extra++ % cols];
          // Small deterministic offset for natural look
-         const offsetX = ((index * 7) % 10 - 5) * 0.015;
-         const offsetZ = ((index * 13) % 10 - 5) * 0.015;
-         return [col * spacing + offsetX, 0, row * spacing + offsetZ] as [number, number, number];
+         const jitterX = ((index * 7) % 10 - 5) * 0.015;
+         const jitterZ = ((index * 13) % 10 - 5) * 0.015;
+         return [col * spacing + jitterX, 0, row * spacing + jitterZ] as [number, number, number];
       });
-   }, [population.length, rows, spacing]);
+   }, [shown, layout, rows, cols, spacing]);
+
+   // Replay the epidemic week by week whenever a new one arrives
+   const [epidemicStep, setEpidemicStep] = useState<number>(0);
+   const [playKey, setPlayKey] = useState<number>(0);
+   useEffect(() => {
+      if (!epidemic) return;
+      setEpidemicStep(0);
+      const timer = setInterval(() => {
+         setEpidemicStep(step => {
+            if (step >= epidemic.steps) {
+               clearInterval(timer);
+               return step;
+            }
+            return step + 1;
+         });
+      }, EPIDEMIC_STEP_MS);
+      return () => clearInterval(timer);
+   }, [epidemic, playKey]);
+
+   // Disease progress of a plant at the current step (null while still healthy)
+   const diseaseProgress = (plant: Plant): number | null => {
+      if (!epidemic || !plant.infection || plant.infection.step > epidemicStep) return null;
+      const span = epidemic.steps + 1 - plant.infection.step;
+      return plant.infection.severity * Math.min(1, (epidemicStep + 1 - plant.infection.step) / span);
+   };
 
    const isRainy = weather === 'rainy';
    const isCloudy = weather === 'cloudy' || isRainy;
@@ -204,10 +272,11 @@ const Scene3D: React.FC<Scene3DProps> = ({
                {/* Ground */}
                <SoilGround />
                <FieldFurrows rows={rows} spacing={spacing} />
+               {layout && <FertilityOverlay field={layout} spacing={spacing} />}
 
                {/* Plants */}
-               <group position={[-fieldOffset, 0, -fieldOffset]}>
-                  {population.map((plant, index) => (
+               <group position={[-offsetX, 0, -offsetZ]}>
+                  {shown.map((plant, index) => (
                      <CornPlant3D
                         key={plant.id}
                         plant={plant}
@@ -215,6 +284,7 @@ const Scene3D: React.FC<Scene3DProps> = ({
                         isSelected={selectedIds.has(plant.id)}
                         onClick={onPlantClick}
                         showGenetics={showGenetics}
+                        disease={diseaseProgress(plant)}
                      />
                   ))}
                </group>
@@ -244,12 +314,38 @@ const Scene3D: React.FC<Scene3DProps> = ({
                <p><span className="text-yellow-500">●</span> Mild stress</p>
                <p><span className="text-orange-600">●</span> Diseased (brown/dry)</p>
                <p><span className="text-red-500">○</span> Severely susceptible</p>
+               {epidemic && <p><span className="text-orange-500">◎</span> Infected (epidemic)</p>}
+               {layout && <p><span className="text-amber-200">▪</span> Poor soil <span className="text-amber-900">▪</span> Rich soil</p>}
             </div>
+            {shown !== population && <p className="text-[10px] text-yellow-400 mt-1">Showing {shown.length} of {population.length} plants</p>}
             <hr className="border-gray-600 my-1.5" />
             <p className="text-gray-400">Click: Select | Drag: Rotate</p>
             <p className="text-gray-400">Scroll: Zoom | Right-drag: Pan</p>
          </div>
 
+         {/* Epidemic progress */}
+         {epidemic && (
+            <div className="absolute bottom-3 left-3 text-white text-[10px] font-mono bg-black/70 backdrop-blur-sm p-2.5 rounded-lg border border-orange-800/60 w-56">
+               <div className="flex justify-between items-center mb-1">
+                  <p className="font-bold text-orange-400">🍂 Epidemic · week {epidemicStep}/{epidemic.steps}</p>
+                  <button onClick={() => setPlayKey(k => k + 1)} className="text-gray-400 hover:text-white" title="Replay the season">↻</button>
+               </div>
+               <div className="flex items-end gap-px h-8">
+                  {epidemic.curve.map((count, step) => (
+                     <div
+                        key={step}
+                        className={`flex-1 rounded-sm ${step <= epidemicStep ? 'bg-orange-500' : 'bg-gray-700'}`}
+                        style={{ height: `${Math.max(4, (count / Math.max(1, population.length)) * 100)}%` }}
+                        title={`Week ${step}: ${count} infected`}
+                     />
+                  ))}
+               </div>
+               <p className="text-gray-300 mt-1">
+                  {epidemic.curve[Math.min(epidemicStep, epidemic.curve.length - 1)]} infected · final {Math.round(epidemic.incidence * 100)}%, mean {epidemic.trait} loss {Math.round(epidemic.meanLoss * 100)}%
+               </p>
+            </div>
+         )}
+
          {/* Weather indicator */}
          <div className="absolute top-3 left-3 text-white text-xs font-mono bg-black/60 backdrop-blur-sm px-2 py-1.5 rounded-lg">
             {weather === 'sunny' && '☀️ Sunny'}
@@ -2,6 +2,7 @@ import React, { useMemo, useState } from 'react';
 import { ComposedChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { Plant } from '../types';
 import { getBellCurveData } from '../utils/geneticsEngine';
+import { getArchitecture } from '../utils/architecture';
 
 interface Props {
   population: Plant[];
@@ -9,7 +10,10 @@ interface Props {
 }
 
 const SelectionDistributionChart: React.FC<Props> = ({ population, selectedIds }) => {
-  const [trait, setTrait] = useState<'yield' | 'resistance' | 'height'>('yield');
+  const traits = getArchitecture().traits;
+  const [traitId, setTrait] = useState<string>(traits[0].id);
+  // Fall back to the first trait if a newly loaded crop lacks the chosen one
+  const trait = traits.some(t => t.id === traitId) ? traitId : traits[0].id;
 
   const { data, mean, selMean, stdDev } = useMemo(
     () => getBellCurveData(population, selectedIds, trait),
@@ -18,31 +22,24 @@ const SelectionDistributionChart: React.FC<Props> = ({ population, selectedIds }
 
   const differential = selectedIds.size > 0 ? selMean - mean : 0;
 
-  const traitColors: Record<string, { primary: string; secondary: string }> = {
-    yield: { primary: '#22c55e', secondary: '#86efac' },
-    resistance: { primary: '#eab308', secondary: '#fde047' },
-    height: { primary: '#3b82f6', secondary: '#93c5fd' },
-  };
-
-  const colors = traitColors[trait];
+  const colors = { primary: traits.find(t => t.id === trait)!.color };
 
   return (
     <div className="h-full flex flex-col">
       {/* Trait selector and stats */}
       <div className="flex justify-between items-center mb-1 px-1">
         <div className="flex gap-1">
-          {(['yield', 'resistance', 'height'] as const).map(t => (
+          {traits.map(t => (
             <button
-              key={t}
-              onClick={() => setTrait(t)}
-              className={`px-1.5 py-0.5 text-[9px] rounded transition-colors ${trait === t
-                  ? t === 'yield' ? 'bg-green-700 text-white'
-                    : t === 'resistance' ? 'bg-yellow-700 text-white'
-                      : 'bg-blue-700 text-white'
+              key={t.id}
+              onClick={() => setTrait(t.id)}
+              className={`px-1.5 py-0.5 text-[9px] rounded transition-colors ${trait === t.id
+                  ? 'text-white'
                   : 'bg-gray-800 text-gray-400 hover:text-white'
                 }`}
+              style={trait === t.id ? { backgroundColor: t.color } : undefined}
             >
-              {t.charAt(0).toUpperCase() + t.slice(1)}
+              {t.name}
             </button>
           ))}
         </div>
@@ -1,80 +1,154 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
   AreaChart, Area, Legend
 } from 'recharts';
-import { PopulationStats } from '../types';
+import { BranchOverlay, PopulationStats } from '../types';
+import { getArchitecture } from '../utils/architecture';
+import AlleleFrequencyHeatmap from './AlleleFrequencyHeatmap';
 
 interface StatsPanelProps {
   history: PopulationStats[];
+  overlays?: BranchOverlay[]; // Other timeline branches, drawn thin over the trait progress
 }
 
-const StatsPanel: React.FC<StatsPanelProps> = ({ history }) => {
+const StatsPanel: React.FC<StatsPanelProps> = ({ history, overlays = [] }) => {
+  const traits = getArchitecture().traits;
+
+  // Trait progress rows by generation, with each overlaid branch's means beside the active history
+  const progress = useMemo(() => {
+    const length = Math.max(history.length, ...overlays.map(o => o.history.length));
+    return Array.from({ length }, (_, i) => ({
+      ...(history[i] ?? { generation: i + 1 }),
+      branches: Object.fromEntries(overlays.map(o => [o.id, o.history[i]?.means])),
+    }));
+  }, [history, overlays]);
+  const hasAccuracy = history.some(h => h.gsAccuracy);
+  const hasResponse = history.some(h => h.response);
+
   return (
     <div className="flex flex-col gap-3 h-full overflow-y-auto">
-      {/* Yield Progress */}
+      {/* Per-trait progress, one chart per trait in the genetic architecture */}
+      {traits.map(trait => (
+        <div key={trait.id} className="bg-gray-800/80 p-3 rounded-xl border border-gray-700 min-h-[180px]">
+          <h3 className="text-xs font-bold mb-2 flex items-center gap-1" style={{ color: trait.color }}>
+            {trait.name} Progress
+          </h3>
+          <ResponsiveContainer width="100%" height={140}>
+            <LineChart data={progress}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="generation" stroke="#9CA3AF" tick={{ fontSize: 10 }} />
+              <YAxis stroke="#9CA3AF" domain={['auto', 'auto']} tick={{ fontSize: 10 }} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1F2937', borderColor: '#4B5563', color: '#F3F4F6', fontSize: 11 }}
+              />
+              <Line type="monotone" dataKey={`means.${trait.id}`} stroke={trait.color} strokeWidth={2} dot={{ r: 2 }} name="Mean" />
+              <Line type="monotone" dataKey={`maxima.${trait.id}`} stroke={trait.color} strokeOpacity={0.6} strokeWidth={1.5} strokeDasharray="4 4" name="Max" />
+              {overlays.map(o => (
+                <Line key={o.id} type="monotone" dataKey={`branches.${o.id}.${trait.id}`} stroke={o.color} strokeWidth={1} dot={false} name={`${o.name} mean`} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+
+      {/* Phenotypic Variance */}
       <div className="bg-gray-800/80 p-3 rounded-xl border border-gray-700 min-h-[180px]">
-        <h3 className="text-green-400 text-xs font-bold mb-2 flex items-center gap-1">
-          🌽 Yield Progress
+        <h3 className="text-orange-400 text-xs font-bold mb-2 flex items-center gap-1">
+          📉 Phenotypic Variance (σ²P)
         </h3>
         <ResponsiveContainer width="100%" height={140}>
           <LineChart data={history}>
             <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
             <XAxis dataKey="generation" stroke="#9CA3AF" tick={{ fontSize: 10 }} />
-            <YAxis stroke="#9CA3AF" domain={['auto', 'auto']} tick={{ fontSize: 10 }} />
+            <YAxis stroke="#9CA3AF" tick={{ fontSize: 10 }} />
             <Tooltip
               contentStyle={{ backgroundColor: '#1F2937', borderColor: '#4B5563', color: '#F3F4F6', fontSize: 11 }}
             />
-            <Line type="monotone" dataKey="meanYield" stroke="#22c55e" strokeWidth={2} dot={{ r: 2 }} name="Mean" />
-            <Line type="monotone" dataKey="maxYield" stroke="#86efac" strokeWidth={1.5} strokeDasharray="4 4" name="Max" />
+            <Legend wrapperStyle={{ fontSize: 10 }} />
+            {traits.map(trait => (
+              <Line key={trait.id} type="monotone" dataKey={`variances.${trait.id}`} stroke={trait.color} strokeWidth={1.5} dot={false} name={trait.name} />
+            ))}
           </LineChart>
         </ResponsiveContainer>
       </div>
 
-      {/* Height Progress */}
-      <div className="bg-gray-800/80 p-3 rounded-xl border border-gray-700 min-h-[180px]">
-        <h3 className="text-blue-400 text-xs font-bold mb-2 flex items-center gap-1">
-          📏 Plant Height
+      {/* Narrow-sense heritability */}
+      <div className="bg-gray-800/80 p-3 rounded-xl border border-gray-700 min-h-[160px]">
+        <h3 className="text-teal-400 text-xs font-bold mb-2 flex items-center gap-1">
+          🧮 Heritability h² = σ²A / σ²P
         </h3>
-        <ResponsiveContainer width="100%" height={140}>
+        <ResponsiveContainer width="100%" height={120}>
           <LineChart data={history}>
             <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
             <XAxis dataKey="generation" stroke="#9CA3AF" tick={{ fontSize: 10 }} />
-            <YAxis stroke="#9CA3AF" domain={['auto', 'auto']} tick={{ fontSize: 10 }} />
+            <YAxis stroke="#9CA3AF" domain={[0, 1]} tick={{ fontSize: 10 }} />
             <Tooltip
               contentStyle={{ backgroundColor: '#1F2937', borderColor: '#4B5563', color: '#F3F4F6', fontSize: 11 }}
             />
-            <Line type="monotone" dataKey="meanHeight" stroke="#3b82f6" strokeWidth={2} dot={{ r: 2 }} name="Mean Height" />
+            <Legend wrapperStyle={{ fontSize: 10 }} />
+            {traits.map(trait => (
+              <Line key={trait.id} type="monotone" dataKey={`components.${trait.id}.heritability`} stroke={trait.color} strokeWidth={1.5} dot={false} name={trait.name} />
+            ))}
           </LineChart>
         </ResponsiveContainer>
       </div>
 
-      {/* Resistance & Variance */}
-      <div className="bg-gray-800/80 p-3 rounded-xl border border-gray-700 min-h-[180px]">
-        <h3 className="text-yellow-400 text-xs font-bold mb-2 flex items-center gap-1">
-          🛡️ Resistance & Variance
-        </h3>
-        <ResponsiveContainer width="100%" height={140}>
-          <AreaChart data={history}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-            <XAxis dataKey="generation" stroke="#9CA3AF" tick={{ fontSize: 10 }} />
-            <YAxis stroke="#9CA3AF" tick={{ fontSize: 10 }} />
-            <Tooltip
-              contentStyle={{ backgroundColor: '#1F2937', borderColor: '#4B5563', color: '#F3F4F6', fontSize: 11 }}
-            />
-            <Legend wrapperStyle={{ fontSize: 10 }} />
-            <Area type="monotone" dataKey="meanResistance" stroke="#eab308" fill="#eab308" fillOpacity={0.2} name="Resistance" />
-            <Area type="monotone" dataKey="varYield" stroke="#f97316" fill="#f97316" fillOpacity={0.15} name="Variance" />
-          </AreaChart>
-        </ResponsiveContainer>
-      </div>
+      {/* Breeder's equation: predicted vs observed response */}
+      {hasResponse && (
+        <div className="bg-gray-800/80 p-3 rounded-xl border border-gray-700 min-h-[180px]">
+          <h3 className="text-sky-400 text-xs font-bold mb-2 flex items-center gap-1">
+            ⚖️ Response to Selection: R vs h²S
+          </h3>
+          <ResponsiveContainer width="100%" height={140}>
+            <LineChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="generation" stroke="#9CA3AF" tick={{ fontSize: 10 }} />
+              <YAxis stroke="#9CA3AF" domain={['auto', 'auto']} tick={{ fontSize: 10 }} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1F2937', borderColor: '#4B5563', color: '#F3F4F6', fontSize: 11 }}
+              />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              {traits.map(trait => (
+                <Line key={`${trait.id}-obs`} type="monotone" dataKey={`response.${trait.id}.observed`} stroke={trait.color} strokeWidth={2} dot={{ r: 2 }} name={`${trait.abbreviation} R`} connectNulls />
+              ))}
+              {traits.map(trait => (
+                <Line key={`${trait.id}-pred`} type="monotone" dataKey={`response.${trait.id}.predicted`} stroke={trait.color} strokeOpacity={0.6} strokeWidth={1.5} strokeDasharray="4 4" dot={false} name={`${trait.abbreviation} h²S`} connectNulls />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Genomic prediction accuracy */}
+      {hasAccuracy && (
+        <div className="bg-gray-800/80 p-3 rounded-xl border border-gray-700 min-h-[160px]">
+          <h3 className="text-purple-300 text-xs font-bold mb-2 flex items-center gap-1">
+            🎯 GS Accuracy r(GEBV, TBV)
+          </h3>
+          <ResponsiveContainer width="100%" height={120}>
+            <LineChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="generation" stroke="#9CA3AF" tick={{ fontSize: 10 }} />
+              <YAxis stroke="#9CA3AF" domain={[-0.2, 1]} tick={{ fontSize: 10 }} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1F2937', borderColor: '#4B5563', color: '#F3F4F6', fontSize: 11 }}
+              />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              {traits.map(trait => (
+                <Line key={trait.id} type="monotone" dataKey={`gsAccuracy.${trait.id}`} stroke={trait.color} strokeWidth={1.5} dot={{ r: 2 }} name={trait.name} connectNulls />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
 
       {/* Heterozygosity */}
-      <div className="bg-gray-800/80 p-3 rounded-xl border border-gray-700 min-h-[140px]">
+      <div className="bg-gray-800/80 p-3 rounded-xl border border-gray-700 min-h-[160px]">
         <h3 className="text-purple-400 text-xs font-bold mb-2 flex items-center gap-1">
-          🧬 Genetic Diversity (Heterozygosity)
+          🧬 Genetic Diversity (Heterozygosity, F & Donor Genome)
         </h3>
-        <ResponsiveContainer width="100%" height={100}>
+        <ResponsiveContainer width="100%" height={120}>
           <AreaChart data={history}>
             <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
             <XAxis dataKey="generation" stroke="#9CA3AF" tick={{ fontSize: 10 }} />
@@ -82,10 +156,36 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ history }) => {
             <Tooltip
               contentStyle={{ backgroundColor: '#1F2937', borderColor: '#4B5563', color: '#F3F4F6', fontSize: 11 }}
             />
+            <Legend wrapperStyle={{ fontSize: 10 }} />
             <Area type="monotone" dataKey="heterozygosity" stroke="#a855f7" fill="#a855f7" fillOpacity={0.3} name="Heterozygosity" />
+            <Area type="monotone" dataKey="meanInbreeding" stroke="#ef4444" fill="#ef4444" fillOpacity={0.15} name="Mean F" />
+            <Area type="monotone" dataKey="donorProportion" stroke="#f59e0b" fill="#f59e0b" fillOpacity={0.15} name="Donor Genome" />
           </AreaChart>
         </ResponsiveContainer>
       </div>
+
+      {/* Rate of inbreeding */}
+      {history.some(h => h.deltaF !== null) && (
+        <div className="bg-gray-800/80 p-3 rounded-xl border border-gray-700 min-h-[160px]">
+          <h3 className="text-red-400 text-xs font-bold mb-2 flex items-center gap-1">
+            📐 Rate of Inbreeding ΔF (Ne = 1/2ΔF)
+          </h3>
+          <ResponsiveContainer width="100%" height={120}>
+            <LineChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="generation" stroke="#9CA3AF" tick={{ fontSize: 10 }} />
+              <YAxis stroke="#9CA3AF" domain={['auto', 'auto']} tick={{ fontSize: 10 }} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1F2937', borderColor: '#4B5563', color: '#F3F4F6', fontSize: 11 }}
+              />
+              <Line type="monotone" dataKey="deltaF" stroke="#ef4444" strokeWidth={1.5} dot={{ r: 2 }} name="ΔF" connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Per-locus allele frequencies */}
+      <AlleleFrequencyHeatmap history={history} />
     </div>
   );
 };
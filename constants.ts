@@ -1,33 +1,191 @@
-export const POPULATION_SIZE = 64; // Increased for more plants
-export const GENOME_LENGTH = 30; // 30 Loci for more genetic variation
-export const MAX_GENERATIONS = 20;
-
-export const TRAITS = {
-  YIELD: 'yield',
-  RESISTANCE: 'resistance',
-  HEIGHT: 'height',
+import { MatingDesign, TrialLocation, GermplasmProfile, ProgramConfig, FieldSettings, FieldDesign, GeneticSource, IndexMode, SelectionScheme, SeasonScenario } from './types';
+
+// Defaults for a new breeding program; each run can change them in the setup dialog
+export const DEFAULT_PROGRAM_CONFIG: ProgramConfig = {
+  populationSize: 64,
+  offspringCount: 64,
+  genomeLength: 30, // Loci in the default corn architecture
+  initialEnvVariance: 1.5,
+  maxGenerations: 20,
+};
+
+// Bounds offered in the setup dialog
+export const PROGRAM_LIMITS: Record<keyof ProgramConfig, { min: number; max: number; step: number }> = {
+  populationSize: { min: 8, max: 5000, step: 1 },
+  offspringCount: { min: 8, max: 5000, step: 1 },
+  genomeLength: { min: 1, max: 2000, step: 1 },
+  initialEnvVariance: { min: 0, max: 5, step: 0.1 },
+  maxGenerations: { min: 1, max: 200, step: 1 },
 };
 
-// Loci allocation with LINKAGE:
-// Loci 0-9: Primarily affect Yield
-// Loci 10-19: Primarily affect Disease Resistance (linked negatively to yield)
-// Loci 20-29: Primarily affect Height (linked positively to yield)
-export const YIELD_LOCI = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
-export const RESISTANCE_LOCI = [10, 11, 12, 13, 14, 15, 16, 17, 18, 19];
-export const HEIGHT_LOCI = [20, 21, 22, 23, 24, 25, 26, 27, 28, 29];
-
-// Linkage: Some loci affect multiple traits (pleiotropy)
-// Loci 8,9 affect both yield AND resistance (trade-off)
-// Loci 20,21 affect both height AND yield (positive linkage)
-export const PLEIOTROPIC_YIELD_RESISTANCE = [8, 9]; // Higher = more yield, less resistance
-export const PLEIOTROPIC_HEIGHT_YIELD = [20, 21]; // Dwarf = less yield
-
-export const INITIAL_ENV_VARIANCE = 1.5;
-
-// Selection types
-export const SELECTION_TYPES = {
-  YIELD: 'yield',
-  RESISTANCE: 'resistance',
-  HEIGHT: 'height',
-  OPTIMUM: 'optimum', // Balanced selection
+// Traits, loci, effect sizes and the genetic map are defined per crop in
+// data/cornArchitecture.json (see utils/architecture.ts).
+
+// Hybrid breeding: heterotic groups, lines per group and how far apart their allele
+// frequencies start (p = 0.5 ± divergence, opposite sign in each group)
+export const HETEROTIC_POOLS = [
+  { id: 'SS', name: 'Stiff Stalk' },
+  { id: 'NSS', name: 'Non-Stiff Stalk' },
+];
+export const LINES_PER_POOL = 8;
+export const HETEROTIC_DIVERGENCE = 0.3;
+
+// Marker-assisted selection: default distance for new linked markers, and the
+// marker-QTL concordance below which a marker is reported as broken away from its QTL
+export const DEFAULT_MARKER_DISTANCE = 5; // cM
+export const MARKER_BREAK_CONCORDANCE = 0.9;
+
+// Field trial layout defaults; soil patches add up to ± this many residual SDs
+export const DEFAULT_FIELD_SETTINGS: FieldSettings = {
+  design: 'rcbd',
+  reps: 2,
+  blockSize: 8,
+  checks: 2,
+  trend: 2,
+  patches: 3,
+  analysis: 'spatial',
 };
+export const FIELD_PATCH_AMPLITUDE = 1.5;
+export const FIELD_NEIGHBOUR_RADIUS = 2; // Plots each way averaged by the spatial adjustment
+export const FIELD_DESIGNS: { id: FieldDesign; name: string; description: string }[] = [
+  { id: 'crd', name: 'Completely Randomized', description: 'Every plot placed at random; soil differences stay in the error' },
+  { id: 'rcbd', name: 'RCBD', description: 'Each replicate is a block containing every entry once' },
+  { id: 'alpha', name: 'Alpha-Lattice', description: 'Replicates split into small incomplete blocks that track local soil' },
+];
+
+// Spatial epidemic: weekly time steps per season, initial foci, per-step chance that an
+// infected plant passes disease to a fully susceptible neighbour, and the yield lost by a
+// plant infected from the first week
+export const EPIDEMIC_STEPS = 8;
+export const EPIDEMIC_FOCI = 2;
+export const EPIDEMIC_TRANSMISSION = 0.8;
+export const EPIDEMIC_MAX_LOSS = 0.6;
+export const EPIDEMIC_RESISTANCE_SCALE = 2; // Spread of the logistic susceptibility curve
+export const DISEASE_KEYWORDS = ['disease', 'rust', 'fungal', 'blight', 'mildew', 'pathogen'];
+
+// Optimal contribution selection: default target rate of inbreeding per generation
+export const OCS_DEFAULT_DELTA_F = 0.01;
+
+// Pedigree coancestries kept in memory before the kinship memo starts afresh
+export const KINSHIP_MEMO_LIMIT = 2_000_000;
+
+// Per-locus, per-gamete mutation rate (0 keeps fixed alleles fixed)
+export const DEFAULT_MUTATION_RATE = 0;
+export const MAX_MUTATION_RATE = 0.01;
+
+// Germplasm introduction: donor profiles and how many donors one introduction adds.
+// favourableFrequency is the chance of carrying the favourable allele at each trait locus.
+export const DONORS_PER_INTRODUCTION = 4;
+
+export const GERMPLASM_PROFILES: { id: GermplasmProfile; name: string; description: string; favourableFrequency: number; inbred: boolean }[] = [
+  { id: 'random', name: 'Random Accession', description: 'Unselected material at intermediate allele frequencies', favourableFrequency: 0.5, inbred: false },
+  { id: 'elite', name: 'Elite Line', description: 'Inbred line from another program, mostly favourable alleles', favourableFrequency: 0.85, inbred: true },
+  { id: 'landrace', name: 'Landrace', description: 'Heterogeneous farmer variety, low mean but diverse', favourableFrequency: 0.3, inbred: false },
+];
+
+// Multi-environment trial locations. Sensitivity > 1 exaggerates genetic differences
+// (favourable sites), < 1 compresses them (stress sites).
+export const TRIAL_LOCATIONS: TrialLocation[] = [
+  {
+    id: 'ames',
+    name: 'Ames, IA',
+    description: 'High-input, high-yield site',
+    mainEffect: { yield: 3, resistance: 0, height: 2 },
+    sensitivity: { yield: 1.3, resistance: 1, height: 1.1 },
+    noise: 1,
+    gxeVariance: 0.02,
+  },
+  {
+    id: 'gardenCity',
+    name: 'Garden City, KS',
+    description: 'Dryland site with terminal drought',
+    mainEffect: { yield: -3, resistance: 0, height: -3 },
+    sensitivity: { yield: 0.6, resistance: 0.9, height: 0.8 },
+    noise: 1.4,
+    gxeVariance: 0.1,
+  },
+  {
+    id: 'urbana',
+    name: 'Urbana, IL',
+    description: 'Disease hotspot with heavy leaf blight pressure',
+    mainEffect: { yield: -1, resistance: -5, height: 0 },
+    sensitivity: { yield: 1, resistance: 1.4, height: 1 },
+    noise: 1.1,
+    gxeVariance: 0.05,
+  },
+  {
+    id: 'mead',
+    name: 'Mead, NE',
+    description: 'Irrigated site, uniform conditions',
+    mainEffect: { yield: 1, resistance: 0.5, height: 1 },
+    sensitivity: { yield: 1.1, resistance: 1, height: 1 },
+    noise: 0.8,
+    gxeVariance: 0.02,
+  },
+];
+
+// Replicate plots per entry at each trial location
+export const MET_REPLICATES = 2;
+
+// Growing seasons used when the AI scenario generator is offline, and by batch runs
+export const SEASON_SCENARIOS: SeasonScenario[] = [
+  { description: "Normal growing conditions", envImpact: 1.5 },
+  { description: "Mild drought stress - reduced water availability", envImpact: 2.5 },
+  { description: "Nitrogen deficiency in soil", envImpact: 2.2 },
+  { description: "Fall Armyworm outbreak detected", envImpact: 3.0 },
+  { description: "Optimal GxE interaction - ideal weather", envImpact: 1.0 },
+  { description: "Heat wave during flowering stage", envImpact: 2.8 },
+  { description: "Heavy rainfall - waterlogging risk", envImpact: 2.0 },
+  { description: "Fungal rust disease pressure", envImpact: 2.6 },
+  { description: "Early frost warning", envImpact: 3.5 },
+  { description: "Excellent pollination conditions", envImpact: 1.2 },
+];
+
+// Genomic prediction: most recent phenotyped plants kept for training
+export const GP_MAX_TRAINING_SIZE = 1000;
+
+// Saved programs: format version written today (see utils/programStore.ts), the storage
+// slot that follows the current program, and how long it waits after a change
+export const SAVE_FORMAT_VERSION = 2;
+export const AUTOSAVE_SLOT = 'autosave';
+export const AUTOSAVE_DELAY_MS = 1500;
+
+// Colours of timeline branches in the tree view and chart overlays, in fork order
+export const BRANCH_COLORS = ['#22c55e', '#38bdf8', '#f472b6', '#facc15', '#a78bfa', '#fb923c', '#2dd4bf', '#f87171'];
+
+// Selection schemes offered in the sidebar; `criterion` schemes rank on the trait or index button pressed
+export const SELECTION_SCHEMES: { id: SelectionScheme; name: string; description: string; criterion: boolean }[] = [
+  { id: 'truncation', name: 'Truncation', description: 'The best fraction of all candidates', criterion: true },
+  { id: 'culling', name: 'Independent Culling', description: 'Every plant past a threshold on each trait, selected in one pass', criterion: false },
+  { id: 'tandem', name: 'Tandem', description: 'Truncation on one trait per generation, following a schedule', criterion: false },
+  { id: 'withinFamily', name: 'Within-Family', description: 'The same fraction of the best plants from every full-sib family', criterion: true },
+  { id: 'betweenFamily', name: 'Between-Family', description: 'Whole families ranked on their mean', criterion: true },
+  { id: 'stabilizing', name: 'Stabilizing', description: "Plants closest to the trait's optimum value", criterion: true },
+  { id: 'disruptive', name: 'Disruptive', description: "Plants furthest from the trait's optimum, in both tails", criterion: true },
+];
+
+// Selection index modes offered in the index builder
+export const INDEX_MODES: { id: IndexMode; name: string; description: string }[] = [
+  { id: 'economic', name: 'Economic Weights', description: 'Smith-Hazel index maximising the value of the aggregate genotype' },
+  { id: 'desired', name: 'Desired Gains', description: 'Pešek-Baker index whose responses are proportional to the gains asked for' },
+  { id: 'restricted', name: 'Restricted', description: 'Economic index with the chosen traits held at zero genetic change' },
+];
+
+// How the index builder estimated the genetic covariances, for its footnote
+export const GENETIC_SOURCE_LABELS: Record<GeneticSource, string> = {
+  gebv: 'from the GEBVs ranked on',
+  families: 'from a sib analysis of their families',
+  assumed: 'assumed at h² = ½ (the families gave no usable estimate)',
+};
+
+// Mating designs offered in the sidebar
+export const MATING_DESIGNS: { id: MatingDesign; name: string; description: string; minParents: number; needsReference?: boolean }[] = [
+  { id: 'random', name: 'Random Mating', description: 'Panmixia among selected parents (selfing avoided)', minParents: 2 },
+  { id: 'selfing', name: 'Selfing', description: 'Each parent pollinates itself; offspring shared evenly', minParents: 1 },
+  { id: 'ssd', name: 'Single-Seed Descent', description: 'One selfed seed per parent advances each line', minParents: 1 },
+  { id: 'fullDiallel', name: 'Full Diallel', description: 'Every parent crossed with every other, reciprocals included', minParents: 2 },
+  { id: 'halfDiallel', name: 'Half Diallel', description: 'Every pair of parents crossed once (no reciprocals)', minParents: 2 },
+  { id: 'backcross', name: 'Backcross', description: 'Each parent crossed back to the recurrent parent', minParents: 1, needsReference: true },
+  { id: 'testcross', name: 'Test-Cross', description: 'Each parent crossed to a tester (recessive tester if none chosen)', minParents: 1 },
+  { id: 'doubledHaploid', name: 'Doubled Haploids', description: 'Gametes doubled into fully homozygous lines', minParents: 1 },
+];
@@ -0,0 +1,47 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { BatchConfig } from '../types';
+import { DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { parseArchitecture } from '../utils/architecture';
+import { batchToCsv, batchToJson, runBatch } from '../utils/batchRunner';
+
+// Headless batch runs from the command line:
+//
+//   npm run batch -- strategies.json runs.csv
+//
+// The config file is a BatchConfig as JSON. `program` may list only the settings that
+// differ from the defaults and `architecture` may hold a crop definition (default: corn).
+// The output is CSV unless the file name ends in .json; with no output file the CSV goes
+// to stdout. Progress goes to stderr.
+
+const [configPath, outputPath] = process.argv.slice(2);
+if (!configPath) {
+  console.error('Usage: npm run batch -- <config.json> [output.csv | output.json]');
+  process.exit(1);
+}
+
+try {
+  const raw = JSON.parse(readFileSync(configPath, 'utf8')) as Partial<BatchConfig>;
+  const config: BatchConfig = {
+    generations: 10,
+    replicates: 10,
+    seed: 1,
+    strategies: [],
+    ...raw,
+    program: { ...DEFAULT_PROGRAM_CONFIG, ...raw.program },
+    architecture: raw.architecture ? parseArchitecture(raw.architecture) : undefined,
+  };
+
+  const result = runBatch(config, (done, total) => process.stderr.write(`\rReplicate ${done} / ${total}`));
+  process.stderr.write('\n');
+
+  const text = outputPath?.toLowerCase().endsWith('.json') ? batchToJson(result) : batchToCsv(result);
+  if (outputPath) {
+    writeFileSync(outputPath, text);
+    console.error(`Wrote ${result.records.length} records to ${outputPath}`);
+  } else {
+    process.stdout.write(text);
+  }
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -1,19 +1,7 @@
 import { GoogleGenAI } from "@google/genai";
 import { PopulationStats } from "../types";
-
-// Pre-defined scenarios for fallback when no API key
-const FALLBACK_SCENARIOS = [
-  { description: "Normal growing conditions", envImpact: 1.5 },
-  { description: "Mild drought stress - reduced water availability", envImpact: 2.5 },
-  { description: "Nitrogen deficiency in soil", envImpact: 2.2 },
-  { description: "Fall Armyworm outbreak detected", envImpact: 3.0 },
-  { description: "Optimal GxE interaction - ideal weather", envImpact: 1.0 },
-  { description: "Heat wave during flowering stage", envImpact: 2.8 },
-  { description: "Heavy rainfall - waterlogging risk", envImpact: 2.0 },
-  { description: "Fungal rust disease pressure", envImpact: 2.6 },
-  { description: "Early frost warning", envImpact: 3.5 },
-  { description: "Excellent pollination conditions", envImpact: 1.2 },
-];
+import { randomInt } from "../utils/random";
+import { SEASON_SCENARIOS } from "../constants";
 
 const FALLBACK_ANALYSES = [
   "Selection differential appears positive. Monitor variance depletion.",
@@ -55,7 +43,7 @@ export const getGeneticistAnalysis = async (
 
   // If no API key, use fallback
   if (!ai) {
-    return FALLBACK_ANALYSES[Math.floor(Math.random() * FALLBACK_ANALYSES.length)];
+    return FALLBACK_ANALYSES[randomInt(FALLBACK_ANALYSES.length)];
   }
 
   const latest = history[history.length - 1];
@@ -70,6 +58,8 @@ export const getGeneticistAnalysis = async (
     Data:
     Gen ${currentGeneration - 1}: μ_yield=${previous.meanYield}, μ_height=${previous.meanHeight}, σ²=${previous.varYield}, Het=${previous.heterozygosity}.
     Gen ${currentGeneration}: μ_yield=${latest.meanYield}, μ_height=${latest.meanHeight}, σ²=${latest.varYield}, Het=${latest.heterozygosity}, Max=${latest.maxYield}.
+    Yield variance components (Gen ${currentGeneration - 1}): σ²A=${previous.components?.yield?.additive}, σ²E=${previous.components?.yield?.environmental}, h²=${previous.components?.yield?.heritability}.
+    Yield response: S=${latest.response?.yield?.differential}, predicted R=h²S=${latest.response?.yield?.predicted}, observed R=${latest.response?.yield?.observed}.
     
     Analyze the Response to Selection (R).
     Did we achieve Genetic Gain (ΔG)?
@@ -85,10 +75,10 @@ export const getGeneticistAnalysis = async (
       model: 'gemini-2.5-flash',
       contents: prompt,
     });
-    return response.text || FALLBACK_ANALYSES[Math.floor(Math.random() * FALLBACK_ANALYSES.length)];
+    return response.text || FALLBACK_ANALYSES[randomInt(FALLBACK_ANALYSES.length)];
   } catch (error) {
     console.error("Gemini API Error:", error);
-    return FALLBACK_ANALYSES[Math.floor(Math.random() * FALLBACK_ANALYSES.length)];
+    return FALLBACK_ANALYSES[randomInt(FALLBACK_ANALYSES.length)];
   }
 };
 
@@ -98,9 +88,9 @@ export const generateScenario = async (generation: number): Promise<{ descriptio
     return { description: "Normal growing conditions - establishing baseline", envImpact: 1.5 };
   }
 
-  // If no API key, use fallback scenarios
+  // If no API key, use fallback scenarios (drawn from the seeded stream so offline runs replay)
   if (!ai) {
-    const scenario = FALLBACK_SCENARIOS[Math.floor(Math.random() * FALLBACK_SCENARIOS.length)];
+    const scenario = SEASON_SCENARIOS[randomInt(SEASON_SCENARIOS.length)];
     return scenario;
   }
 
@@ -132,7 +122,7 @@ export const generateScenario = async (generation: number): Promise<{ descriptio
     };
   } catch (error) {
     console.error("Scenario generation error:", error);
-    return FALLBACK_SCENARIOS[Math.floor(Math.random() * FALLBACK_SCENARIOS.length)];
+    return SEASON_SCENARIOS[randomInt(SEASON_SCENARIOS.length)];
   }
 };
 
@@ -1,10 +1,82 @@
 
+// Trait values keyed by Trait.id
+export type TraitValues = Record<string, number>;
+
 export interface Trait {
   id: string;
   name: string;
+  abbreviation: string; // Short label for plant tags, e.g. 'Y'
+  selectionLabel?: string; // Auto-select button text
   type: 'quantitative' | 'qualitative';
+  color: string; // Hex color used by charts and the genome viewer
   lociIndices: number[]; // Which indices in the genome array affect this trait
-  optimumValue?: number;
+  alleleEffects?: number[]; // Effect per favourable allele, aligned with lociIndices (default 1)
+  dominance?: number[]; // Degree of dominance d/a per locus (0 additive, 1 complete, >1 overdominance)
+  baseValue: number; // Genotypic value with no favourable alleles
+  minValue?: number; // Phenotypes and genotypic values are floored here
+  envScale?: number; // Environmental SD relative to σE (default 1)
+  direction?: 'increase' | 'decrease'; // Which tail truncation selection keeps
+  optimumValue?: number; // Target of stabilizing and disruptive selection (default: the candidates' mean)
+}
+
+// Secondary effect of a locus on another trait (per favourable allele)
+export interface PleiotropicEffect {
+  locus: number;
+  trait: string;
+  effect: number;
+}
+
+// Additive-by-additive interaction between two loci: adds effect × (n_i − 1)(n_j − 1)
+export interface EpistaticInteraction {
+  loci: [number, number];
+  trait: string;
+  effect: number;
+}
+
+// Phenotype of `source` below `threshold` reduces `target` by slope × shortfall
+export interface ThresholdPenalty {
+  source: string;
+  target: string;
+  threshold: number;
+  slope: number;
+}
+
+// Genetic map: loci placed along named chromosomes at centimorgan positions
+export type MappingFunction = 'haldane' | 'kosambi';
+
+export interface MappedLocus {
+  index: number; // Index into the genome array
+  position: number; // cM from the start of the chromosome
+}
+
+export interface Chromosome {
+  name: string;
+  length: number; // Total map length in cM
+  loci: MappedLocus[]; // Sorted by position
+}
+
+// Full genetic architecture of a crop, loaded from JSON
+export interface GeneticArchitecture {
+  name: string;
+  description?: string;
+  genomeLength: number;
+  mappingFunction: MappingFunction;
+  traits: Trait[];
+  pleiotropy: PleiotropicEffect[];
+  epistasis: EpistaticInteraction[];
+  penalties: ThresholdPenalty[];
+  indexWeights: Record<string, number>; // Balanced selection index
+  display: { height: string; vigor: string; health: string }; // Traits that drive the 3D plant
+  map: Chromosome[];
+}
+
+// Parameters of one breeding program, set in the new-program dialog
+export interface ProgramConfig {
+  populationSize: number; // Founder plants
+  offspringCount: number; // Plants bred each generation
+  genomeLength: number; // Loci per genome; loci beyond the architecture's QTL are neutral markers
+  initialEnvVariance: number;
+  maxGenerations: number;
 }
 
 // Diploid genome representation
@@ -13,43 +85,469 @@ export interface Allele {
   paternal: 0 | 1;
 }
 
+// Packed diploid genome: one byte per allele and strand (see utils/genome.ts)
 export interface Genome {
-  // Diploid: Each locus has two alleles (maternal and paternal)
-  // For backwards compatibility, we also compute the additive value (0, 1, or 2)
-  loci: number[]; // Additive representation: 0 (aa), 1 (Aa), 2 (AA)
-  diploid: Allele[]; // Full diploid representation
+  maternal: Uint8Array; // 0 = recessive, 1 = dominant, per locus
+  paternal: Uint8Array;
+  donor?: Uint8Array; // Per-locus flags for alleles descended from introduced germplasm (absent if none)
 }
 
 export interface Plant {
   id: string;
+  name?: string; // Sample name of an imported founder
   generation: number;
   genome: Genome;
-  phenotype: {
-    yield: number;
-    resistance: number;
-    height: number;
-  };
-  breedingValue: {
-    yield: number;
-    resistance: number;
-    height: number;
-  };
+  phenotype: TraitValues;
+  breedingValue: TraitValues; // Additive breeding value (sum of average effects) in the current population
+  genotypicValue: TraitValues; // Total genetic value: additive + dominance + epistasis
   isSelected: boolean;
   isHeterozygous: boolean; // True if many loci are Aa
+  motherId: string | null; // null for founders
+  fatherId: string | null; // null for founders and doubled haploids
+  inbreeding: number; // Pedigree inbreeding coefficient F
+  gebv?: TraitValues; // Genomic estimated breeding value from the current prediction model
+  met?: TrialRecord; // Multi-environment trial results, when the generation was tested across locations
+  infection?: Infection; // Set if the plant caught the season's epidemic
+  field?: FieldEntryRecord; // Field-trial plots and adjusted means, when grown in a laid-out trial
+}
+
+// Genotype files exchanged with external tools (TASSEL, PLINK, rrBLUP, GAPIT)
+export type GenotypeFormat = 'vcf' | 'hapmap' | 'plink';
+
+// Founder genotypes read from a file: one genome per sample, loci in genome order
+export interface FounderPanel {
+  format: GenotypeFormat;
+  sampleIds: string[];
+  genomes: Genome[];
+  loci: number;
+  missing: number; // Missing allele calls, filled with allele 0
+}
+
+// Selection schemes
+export type SelectionScheme = 'truncation' | 'culling' | 'tandem' | 'withinFamily' | 'betweenFamily' | 'stabilizing' | 'disruptive';
+
+export interface SchemeSettings {
+  scheme: SelectionScheme;
+  cullingLevels: TraitValues; // Independent culling threshold per trait (absent = no culling on it)
+  tandemSchedule: Record<string, number>; // Consecutive generations spent on each trait in tandem selection
+}
+
+export interface SelectionReport {
+  scheme: SelectionScheme;
+  criterion: string; // What was ranked on, e.g. a trait name or 'Index'
+  candidates: number;
+  selected: number;
+  proportion: number;
+  intensity: number | null; // Realized i = S/σ on the criterion (null for independent culling)
+  expectedIntensity: number; // Truncation intensity for the same proportion selected
+  traitIntensity: TraitValues; // Realized S/σ_P of every trait
+  varianceRatio: number | null; // Variance of the criterion among the selected relative to the candidates
+}
+
+// Selection index builder
+export type IndexMode = 'economic' | 'desired' | 'restricted';
+
+// Where an index takes the genetic covariances G from: the GEBVs it ranks on, a sib
+// analysis of the candidates' families, or an assumed heritability of ½
+export type GeneticSource = 'gebv' | 'families' | 'assumed';
+
+export interface IndexSettings {
+  mode: IndexMode;
+  weights: TraitValues; // Economic value per unit of each trait (economic and restricted indices)
+  desiredGains: TraitValues; // Relative genetic gains wanted (desired-gains index)
+  restricted: string[]; // Traits held at zero genetic change (restricted index)
+}
+
+export interface SelectionIndex {
+  mode: IndexMode;
+  coefficients: TraitValues; // b: weight given to each trait's value in the index
+  response: TraitValues; // Expected genetic gain per trait this generation, i·Gb/σ_I
+  intensity: number; // Selection intensity i of the current proportion selected
+  sigmaI: number; // Standard deviation of the index
+  geneticSource: GeneticSource;
+}
+
+// Multi-environment trials (G×E)
+export interface TrialLocation {
+  id: string;
+  name: string;
+  description: string;
+  mainEffect: TraitValues; // Location effect added to every genotype
+  sensitivity: TraitValues; // Scales genetic deviations from the trait base (scale-type G×E)
+  noise: number; // Multiplier on the residual SD at this location
+  gxeVariance: number; // Variance of location-specific locus effect deviations (rank-changing G×E)
+}
+
+export interface TrialRecord {
+  phenotypes: Record<string, TraitValues>; // Plot means per location
+  blue: TraitValues; // Across-location BLUE (genotype mean adjusted for location effects)
+  fwSlope: TraitValues; // Finlay-Wilkinson regression slope on the environmental index
+}
+
+// Hybrid breeding: two heterotic groups of inbred lines
+export interface HeteroticPool {
+  id: string;
+  name: string;
+  lines: Plant[];
+}
+
+// Combining ability from hybrid phenotypes: y_ij = μ + GCA_i + GCA_j + SCA_ij
+export interface CombiningAbility {
+  mean: TraitValues; // μ
+  gca: Record<string, TraitValues>; // Line id -> general combining ability
+  sca: Record<string, TraitValues>; // Hybrid id -> specific combining ability (tested hybrids only)
+}
+
+export interface SingleCross {
+  lineA: string;
+  lineB: string;
+  value: TraitValues; // Observed for tested pairs, μ + GCA_i + GCA_j otherwise
+  tested: boolean;
+}
+
+export interface HybridTrial {
+  cycle: number;
+  hybrids: Plant[];
+  combining: CombiningAbility;
+  heterosis: TraitValues; // Mean mid-parent heterosis of the tested hybrids
+  bestObserved: Plant | null;
+  bestPredicted: SingleCross | null;
+}
+
+// Field trial layout: plots on a rows × cols grid with soil fertility that varies in space
+export type FieldDesign = 'crd' | 'rcbd' | 'alpha';
+export type FieldAnalysis = 'raw' | 'blocks' | 'spatial';
+
+export interface FieldSettings {
+  design: FieldDesign;
+  reps: number; // Plots per entry
+  blockSize: number; // Entries per incomplete block (alpha-lattice)
+  checks: number; // Check varieties in every block (every rep for CRD)
+  trend: number; // Strength of the linear fertility gradient, in residual SDs across the field
+  patches: number; // Number of fertile or poor soil patches
+  analysis: FieldAnalysis;
+}
+
+export interface FieldPlot {
+  row: number;
+  col: number;
+  rep: number;
+  block: number; // Block within the field (reps for RCBD; incomplete blocks for alpha)
+  entry: string; // Plant id, or check id
+  isCheck: boolean;
+  fertility: number; // Soil effect at this plot, in residual SDs
+  values: TraitValues; // Observed plot phenotype
+}
+
+export interface FieldTrial {
+  settings: FieldSettings;
+  rows: number;
+  cols: number;
+  plots: FieldPlot[];
+  fertility: number[][]; // [row][col]
+  checks: Plant[];
+  accuracy: { raw: TraitValues; adjusted: TraitValues }; // r(entry mean, genotypic value) before and after adjustment
+}
+
+export interface FieldEntryRecord {
+  raw: TraitValues; // Plain mean of the entry's plots
+  adjusted: TraitValues; // After block or spatial adjustment (becomes the phenotype)
+  plots: number;
+}
+
+// Spatial disease epidemic over one season on the field grid
+export interface Infection {
+  step: number; // Time step at which the plant became infected (0 = initial focus)
+  severity: number; // Disease severity 0-1 at the end of the season
+  loss: number; // Fraction of the damaged trait lost
+}
+
+export interface EpidemicRecord {
+  pressure: number; // Scales transmission (1 = typical outbreak)
+  steps: number;
+  foci: string[]; // Ids of the plants infected at step 0
+  curve: number[]; // Infected plants after each step
+  incidence: number; // Fraction of the field infected by the end
+  meanLoss: number; // Mean fraction of the damaged trait lost across the field
+  trait: string; // Trait that loses value (yield by default)
+}
+
+// Outside material that can be introduced into the parent pool
+export type GermplasmProfile = 'random' | 'elite' | 'landrace';
+
+export type GenomicMethod = 'rrblup' | 'gblup';
+
+// Marker-based prediction model fitted on a phenotyped training population
+export interface GenomicModel {
+  method: GenomicMethod;
+  trainedGeneration: number;
+  trainingSize: number;
+  h2: number; // Heritability assumed for the shrinkage parameter λ
+  freq: number[]; // Training-set allele frequencies used to center genotypes
+  traits: Record<string, { mean: number; effects: number[] }>; // Marker effects per trait
+}
+
+// Genome-wide association scan (single-marker regression)
+export type MultipleTestCorrection = 'bonferroni' | 'fdr';
+
+export interface MarkerAssociation {
+  locus: number;
+  chromosome: string | null; // null for unmapped loci
+  position: number | null; // cM
+  effect: number; // Regression slope per copy of allele A
+  se: number;
+  pValue: number;
+  logP: number; // −log10 p
+  maf: number; // Minor allele frequency
+}
+
+export interface GwasResult {
+  trait: string;
+  n: number;
+  correction: MultipleTestCorrection;
+  alpha: number;
+  threshold: number; // Per-test p-value cut-off after correction
+  associations: MarkerAssociation[];
+  significant: number[]; // Loci passing the threshold
+}
+
+// Marker-assisted selection
+export type MarkerRequirement = 'any' | 'carrier' | 'homozygous';
+
+export interface Marker {
+  locus: number;
+  qtl: number | null; // QTL the marker tags (itself for a QTL used directly, null if unlinked)
+  distance: number; // cM to that QTL
+  favourable: 0 | 1; // Marker allele in coupling with the favourable QTL allele
+}
+
+export interface MarkerLinkage {
+  marker: number;
+  qtl: number;
+  distance: number;
+  expectedRecombination: number; // r per meiosis from the map
+  concordance: number; // Fraction of haplotypes where marker and QTL agree
+  recombinants: number; // Haplotypes where they disagree
+  r2: number | null; // Linkage disequilibrium (null if either is fixed)
+  broken: boolean; // Concordance below MARKER_BREAK_CONCORDANCE
+}
+
+// Optimal contribution selection: how much each candidate passes on
+export interface ContributionPlan {
+  contributions: Record<string, number>; // Plant id -> share of the next generation (sums to 1)
+  groupCoancestry: number; // c'Ac/2 of the plan
+  targetCoancestry: number; // C* from the target ΔF
+  meanMerit: number; // c'm
+  fallback?: string; // Why the plan fell back to truncation with equal shares, if it did
+}
+
+// One individual in the stored pedigree. `order` increases with every entry so
+// ancestors always sort before their descendants.
+export interface PedigreeEntry {
+  id: string;
+  motherId: string | null;
+  fatherId: string | null;
+  generation: number;
+  order: number;
+  doubledHaploid?: boolean;
+  founderInbreeding?: number; // Known F of a founder with no recorded parents (e.g. an inbred donor line)
+}
+
+export type Pedigree = Record<string, PedigreeEntry>;
+
+// How selected parents are combined into the next generation
+export type MatingDesign =
+  | 'random'
+  | 'selfing'
+  | 'ssd'
+  | 'fullDiallel'
+  | 'halfDiallel'
+  | 'backcross'
+  | 'testcross'
+  | 'doubledHaploid';
+
+// One planned mating. A doubled haploid has a single parent and no second gamete.
+export interface Mating {
+  mother: Plant;
+  father: Plant | null;
+}
+
+// Variance components of one trait in one generation, from the simulated true values
+export interface VarianceComponents {
+  phenotypic: number; // σ²P
+  additive: number; // σ²A, variance of true breeding values
+  genotypic: number; // σ²G, additive + dominance + epistatic
+  environmental: number; // σ²E, variance of P − G
+  heritability: number; // Narrow-sense h² = σ²A / σ²P
+}
+
+// Response to the selection that produced a generation (breeder's equation R = h²S)
+export interface SelectionResponse {
+  differential: number; // S: selected parents' mean minus the candidates' mean
+  observed: number; // R: offspring mean minus the candidates' mean
+  predicted: number; // h²S with h² of the candidate generation
+  realizedHeritability: number | null; // R / S (null when S ≈ 0)
+}
+
+// A locus reaching fixation or loss of its favourable allele
+export interface AlleleEvent {
+  locus: number;
+  kind: 'fixed' | 'lost'; // Favourable allele frequency reached 1 or 0
+  trait?: string; // Main trait of the locus
 }
 
 export interface PopulationStats {
   generation: number;
   size: number;
+  means: TraitValues;
+  variances: TraitValues;
+  maxima: TraitValues;
+  components: Record<string, VarianceComponents>;
+  response?: Record<string, SelectionResponse>; // Absent for the founders
+  // Summary of the default corn traits (0 when the loaded crop lacks them)
   meanYield: number;
   varYield: number;
   meanResistance: number;
   meanHeight: number;
   maxYield: number;
   heterozygosity: number; // Average heterozygosity
+  meanInbreeding: number; // Mean pedigree F
+  deltaF: number | null; // Rate of inbreeding ΔF = (F_t − F_t−1) / (1 − F_t−1); null for the founders
+  effectiveSize: number | null; // Ne = 1 / 2ΔF (null unless ΔF > 0)
+  donorProportion: number; // Mean fraction of the genome descended from introduced germplasm
+  alleleFrequencies: number[]; // Favourable-allele frequency per locus
+  alleleEvents: AlleleEvent[]; // Fixations and losses since the previous generation
+  gsAccuracy?: TraitValues; // cor(GEBV, true BV) when a prediction model was applied
+}
+
+// Everything needed to pick a breeding program up where it was left: saved to browser
+// storage and to files (see utils/programStore.ts)
+export interface ProgramState {
+  config: ProgramConfig;
+  architecture: GeneticArchitecture;
+  seed: number;
+  rngState: number; // Position in the seeded stream, so a restored run continues it
+  generation: number;
+  population: Plant[];
+  pedigree: Pedigree;
+  history: PopulationStats[];
+  selectedIds: string[];
+  selectionIntensity: number;
+  envVariance: number;
+  scenario: string;
+  analysisMsg: string;
+  genomicSelectionEnabled: boolean;
+  trainingSet: Plant[];
+  gpModel: GenomicModel | null;
+  gpMethod: GenomicMethod;
+  autoRetrain: boolean;
+  matingDesign: MatingDesign;
+  referenceParent: Plant | null;
+  metEnabled: boolean;
+  metTarget: string;
+  mutationRate: number;
+  ocsEnabled: boolean;
+  targetDeltaF: number;
+  ocsPlan: ContributionPlan | null;
+  markers: Marker[];
+  markerRequirements: Record<number, MarkerRequirement>;
+  inoculated: boolean;
+  epidemic: EpidemicRecord | null;
+  fieldEnabled: boolean;
+  fieldSettings: FieldSettings;
+  fieldTrial: FieldTrial | null;
+  indexSettings: IndexSettings;
+  schemeSettings: SchemeSettings;
+}
+
+// A program as written to a save slot or file. `version` is the format it was written
+// in; older versions are migrated on load.
+export interface SavedProgram {
+  version: number;
+  name: string;
+  savedAt: string; // ISO timestamp
+  state: ProgramState;
+}
+
+// One entry in the list of save slots
+export interface SaveSlot {
+  slot: string;
+  name: string;
+  savedAt: string;
+  crop: string;
+  generation: number;
+}
+
+// Branching history: every generation of every branch is kept as a program snapshot
+export interface Branch {
+  id: string;
+  name: string;
+  color: string;
+  parentId: string | null; // Branch it was forked from (null for the original run)
+  forkGeneration: number | null; // Generation it left the parent at
+  snapshots: ProgramState[]; // One per generation, oldest first; those before the fork are the parent's
+}
+
+export interface Timeline {
+  branches: Branch[];
+  activeId: string;
+  forks: number; // Branches forked so far, for naming
+}
+
+// Another branch's progress drawn over the active one in the charts
+export interface BranchOverlay {
+  id: string;
+  name: string;
+  color: string;
+  history: PopulationStats[];
+}
+
+// A growing season: what happened and the environmental variance σ²E it brought
+export interface SeasonScenario {
+  description: string;
+  envImpact: number;
+}
+
+// Headless batch runs (see utils/batchRunner.ts). A strategy is a fixed recipe applied
+// every generation.
+export interface BatchStrategy {
+  name: string;
+  trait: string; // Trait id, or 'index' for the crop's economic selection index
+  proportion: number; // Fraction of candidates kept as parents
+  genomic: boolean; // Rank on GEBVs from a model refitted every generation
+  gpMethod?: GenomicMethod; // Default rrBLUP
+  scheme?: SelectionScheme; // Any single-criterion scheme (default truncation)
+  matingDesign?: MatingDesign; // Default random mating; designs that need a recurrent parent are not supported
+  mutationRate?: number;
+  scenarios?: 'constant' | 'random' | SeasonScenario[]; // Seasons of the bred generations: the starting σ²E throughout, drawn like offline play, or a repeating sequence
+}
+
+export interface BatchConfig {
+  program: ProgramConfig; // Population sizes, genome length and starting σ²E
+  generations: number; // Generation each replicate ends at (the founders are F1)
+  replicates: number;
+  seed: number; // Replicate r starts from seed + r under every strategy, so strategies share founders
+  strategies: BatchStrategy[];
+  architecture?: GeneticArchitecture; // Default: the active crop
+}
+
+// One generation of one replicate
+export interface BatchRecord {
+  strategy: string;
+  replicate: number;
+  seed: number;
+  scenario: string;
+  envVariance: number;
+  stats: PopulationStats;
+}
+
+export interface BatchResult {
+  config: BatchConfig;
+  records: BatchRecord[];
 }
 
 export interface GameState {
+  seed: number; // PRNG seed the run was started from (replays exactly)
   generationCount: number;
   population: Plant[];
   history: PopulationStats[];
@@ -0,0 +1,153 @@
+import { GeneticArchitecture, Trait } from '../types';
+import cornArchitecture from '../data/cornArchitecture.json';
+
+// Genetic architecture: which loci affect which traits, by how much, and where they
+// sit on the map. The default corn definition ships as JSON; instructors can load
+// their own crop definition at runtime with parseArchitecture + setArchitecture.
+
+const fail = (msg: string): never => {
+  throw new Error(`Invalid genetic architecture: ${msg}`);
+};
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Validate untrusted JSON and fill in defaults
+export const parseArchitecture = (raw: unknown): GeneticArchitecture => {
+  if (!raw || typeof raw !== 'object') fail('expected a JSON object');
+  const a = raw as Partial<GeneticArchitecture>;
+
+  if (typeof a.name !== 'string' || !a.name) fail('missing "name"');
+  if (!isNumber(a.genomeLength) || a.genomeLength < 1) fail('"genomeLength" must be a positive number');
+  const genomeLength = Math.floor(a.genomeLength!);
+  const inGenome = (idx: unknown) => isNumber(idx) && idx >= 0 && idx < genomeLength && Number.isInteger(idx);
+
+  if (!Array.isArray(a.traits) || a.traits.length === 0) fail('"traits" must be a non-empty array');
+  const traits: Trait[] = a.traits!.map((t, i) => {
+    if (!t || typeof t.id !== 'string' || !t.id) fail(`trait ${i} is missing "id"`);
+    if (!Array.isArray(t.lociIndices) || !t.lociIndices.every(inGenome)) {
+      fail(`trait "${t.id}" has loci outside the genome`);
+    }
+    if (t.alleleEffects && (t.alleleEffects.length !== t.lociIndices.length || !t.alleleEffects.every(isNumber))) {
+      fail(`trait "${t.id}" needs one numeric allele effect per locus`);
+    }
+    if (t.dominance && (t.dominance.length !== t.lociIndices.length || !t.dominance.every(isNumber))) {
+      fail(`trait "${t.id}" needs one numeric dominance degree per locus`);
+    }
+    return {
+      ...t,
+      name: t.name || t.id,
+      abbreviation: t.abbreviation || (t.name || t.id).charAt(0).toUpperCase(),
+      type: t.type || 'quantitative',
+      color: t.color || '#9ca3af',
+      baseValue: isNumber(t.baseValue) ? t.baseValue : 0,
+      envScale: isNumber(t.envScale) ? t.envScale : 1,
+      direction: t.direction === 'decrease' ? 'decrease' : 'increase',
+    };
+  });
+  const traitIds = new Set(traits.map(t => t.id));
+  if (traitIds.size !== traits.length) fail('trait ids must be unique');
+  const knownTrait = (id: unknown) => typeof id === 'string' && traitIds.has(id);
+
+  const pleiotropy = a.pleiotropy || [];
+  pleiotropy.forEach(p => {
+    if (!inGenome(p.locus) || !knownTrait(p.trait) || !isNumber(p.effect)) {
+      fail(`bad pleiotropic effect at locus ${p.locus}`);
+    }
+  });
+
+  const epistasis = a.epistasis || [];
+  epistasis.forEach(e => {
+    if (!Array.isArray(e.loci) || e.loci.length !== 2 || !e.loci.every(inGenome) || !knownTrait(e.trait) || !isNumber(e.effect)) {
+      fail(`bad epistatic interaction ${JSON.stringify(e.loci)}`);
+    }
+  });
+
+  const penalties = a.penalties || [];
+  penalties.forEach(p => {
+    if (!knownTrait(p.source) || !knownTrait(p.target)) fail(`penalty refers to an unknown trait`);
+  });
+
+  const map = a.map || [];
+  map.forEach(chr => {
+    if (!Array.isArray(chr.loci) || !chr.loci.every(l => inGenome(l.index) && isNumber(l.position))) {
+      fail(`chromosome "${chr.name}" has invalid loci`);
+    }
+  });
+
+  const first = traits[0].id;
+  const display = {
+    height: knownTrait(a.display?.height) ? a.display!.height : first,
+    vigor: knownTrait(a.display?.vigor) ? a.display!.vigor : first,
+    health: knownTrait(a.display?.health) ? a.display!.health : first,
+  };
+
+  return {
+    name: a.name!,
+    description: a.description,
+    genomeLength,
+    mappingFunction: a.mappingFunction === 'kosambi' ? 'kosambi' : 'haldane',
+    traits,
+    pleiotropy,
+    epistasis,
+    penalties,
+    indexWeights: a.indexWeights || Object.fromEntries(traits.map(t => [t.id, 1 / traits.length])),
+    display,
+    map: map.map(chr => ({
+      name: chr.name,
+      length: isNumber(chr.length) ? chr.length : Math.max(0, ...chr.loci.map(l => l.position)),
+      loci: [...chr.loci].sort((x, y) => x.position - y.position),
+    })),
+  };
+};
+
+export const DEFAULT_ARCHITECTURE: GeneticArchitecture = parseArchitecture(cornArchitecture);
+
+let active: GeneticArchitecture = DEFAULT_ARCHITECTURE;
+
+export const getArchitecture = (): GeneticArchitecture => active;
+
+export const setArchitecture = (arch: GeneticArchitecture) => {
+  active = arch;
+};
+
+// Smallest genome that still holds every locus with an effect
+export const requiredGenomeLength = (arch: GeneticArchitecture = active): number => 1 + Math.max(
+  0,
+  ...arch.traits.flatMap(t => t.lociIndices),
+  ...arch.pleiotropy.map(p => p.locus),
+  ...arch.epistasis.flatMap(e => e.loci)
+);
+
+// Resize the genome of an architecture: extra loci are neutral and unmapped (they assort
+// independently); shrinking drops mapped neutral loci but never a QTL
+export const withGenomeLength = (arch: GeneticArchitecture, length: number): GeneticArchitecture => {
+  const genomeLength = Math.max(requiredGenomeLength(arch), Math.floor(length));
+  return {
+    ...arch,
+    genomeLength,
+    map: arch.map.map(chr => ({ ...chr, loci: chr.loci.filter(l => l.index < genomeLength) })),
+  };
+};
+
+export const getTrait = (id: string, arch: GeneticArchitecture = active): Trait | undefined =>
+  arch.traits.find(t => t.id === id);
+
+// Trait whose main-effect loci include this locus
+export const traitForLocus = (index: number, arch: GeneticArchitecture = active): Trait | undefined =>
+  arch.traits.find(t => t.lociIndices.includes(index));
+
+// Favourable allele at a locus: the one that moves its main trait in the breeding direction.
+// Loci without a main effect count allele 1 (A) as favourable.
+export const favourableAllele = (index: number, arch: GeneticArchitecture = active): 0 | 1 => {
+  const trait = traitForLocus(index, arch);
+  if (!trait) return 1;
+  const effect = trait.alleleEffects?.[trait.lociIndices.indexOf(index)] ?? 1;
+  const sign = trait.direction === 'decrease' ? -1 : 1;
+  return effect * sign < 0 ? 0 : 1;
+};
+
+export const isPleiotropic = (index: number, arch: GeneticArchitecture = active): boolean =>
+  arch.pleiotropy.some(p => p.locus === index);
+
+export const isEpistatic = (index: number, arch: GeneticArchitecture = active): boolean =>
+  arch.epistasis.some(e => e.loci.includes(index));
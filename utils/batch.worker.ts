@@ -0,0 +1,15 @@
+import { BatchConfig } from '../types';
+import { runBatch } from './batchRunner';
+import { BatchWorkerMessage } from './batchClient';
+
+// Web Worker entry for batch runs, so long comparisons do not freeze the app. Progress is
+// posted after every replicate, then the whole result.
+const post = (message: BatchWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<BatchConfig>) => {
+  try {
+    post({ result: runBatch(event.data, (done, total) => post({ progress: { done, total } })) });
+  } catch (err) {
+    post({ error: err instanceof Error ? err.message : String(err) });
+  }
+};
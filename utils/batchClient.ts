@@ -0,0 +1,44 @@
+import { BatchConfig, BatchResult } from '../types';
+import { getArchitecture } from './architecture';
+import { runBatch } from './batchRunner';
+
+// Main-thread side of batch runs: each batch gets its own worker, closed when it is done.
+// The active crop is sent along, since module state does not cross into the worker.
+// Without Worker support the batch runs inline.
+
+export type BatchWorkerMessage =
+  | { progress: { done: number; total: number } }
+  | { result: BatchResult }
+  | { error: string };
+
+export const runBatchAsync = (
+  config: BatchConfig,
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchResult> => {
+  const request: BatchConfig = { ...config, architecture: config.architecture ?? getArchitecture() };
+  if (typeof Worker === 'undefined') {
+    try {
+      return Promise.resolve(runBatch(request, onProgress));
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./batch.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<BatchWorkerMessage>) => {
+      const message = event.data;
+      if ('progress' in message) {
+        onProgress?.(message.progress.done, message.progress.total);
+        return;
+      }
+      worker.terminate();
+      if ('error' in message) reject(new Error(message.error));
+      else resolve(message.result);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Batch worker failed'));
+    };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { BatchConfig } from '../types';
+import { DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { getArchitecture } from './architecture';
+import { batchToCsv, runBatch, summarizeBatch } from './batchRunner';
+import { getRngState, random, setSeed } from './random';
+
+const config: BatchConfig = {
+  program: { ...DEFAULT_PROGRAM_CONFIG, populationSize: 20, offspringCount: 20 },
+  generations: 3,
+  replicates: 2,
+  seed: 40,
+  strategies: [
+    { name: 'Yield', trait: 'yield', proportion: 0.25, genomic: false },
+    { name: 'Index, "selfed"', trait: 'index', proportion: 0.25, genomic: false, matingDesign: 'selfing' },
+  ],
+};
+
+describe('batch runner', () => {
+  it('replays from its seed and leaves the crop and random stream alone', () => {
+    setSeed(5);
+    random();
+    const before = { architecture: getArchitecture(), rngState: getRngState() };
+    const result = runBatch(config);
+    expect(getArchitecture()).toBe(before.architecture);
+    expect(getRngState()).toBe(before.rngState);
+    expect(runBatch(config).records).toEqual(result.records);
+  });
+
+  it('records every generation of every replicate under every strategy', () => {
+    const { records } = runBatch(config);
+    expect(records).toHaveLength(2 * 2 * 3);
+    // Replicate r starts from seed + r - 1 under both strategies, so they share founders
+    const founders = records.filter(r => r.stats.generation === 1);
+    expect(founders.map(r => r.seed)).toEqual([40, 41, 40, 41]);
+    expect(founders[0].stats.means).toEqual(founders[2].stats.means);
+  });
+
+  it('writes one CSV row per record, quoting names that need it', () => {
+    const result = runBatch(config);
+    const [header, ...rows] = batchToCsv(result).trim().split('\n');
+    expect(header.split(',').slice(0, 7)).toEqual(['strategy', 'replicate', 'seed', 'generation', 'scenario', 'envVariance', 'size']);
+    expect(rows).toHaveLength(result.records.length);
+    expect(rows[rows.length - 1].startsWith('"Index, ""selfed""",2,41,3,')).toBe(true);
+    expect(summarizeBatch(result).map(s => s.strategy)).toEqual(['Yield', 'Index, "selfed"']);
+  });
+
+  it('rejects strategies the cycle cannot run', () => {
+    const withStrategy = (patch: object) => ({ ...config, strategies: [{ ...config.strategies[0], ...patch }] });
+    expect(() => runBatch(withStrategy({ trait: 'colour' }))).toThrow(/no trait "colour"/);
+    expect(() => runBatch(withStrategy({ proportion: 0 }))).toThrow(/proportion/);
+    expect(() => runBatch(withStrategy({ matingDesign: 'backcross' }))).toThrow(/cannot be run/);
+    expect(() => runBatch({ ...config, strategies: [config.strategies[0], config.strategies[0]] })).toThrow(/Two strategies/);
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  BatchConfig, BatchRecord, BatchResult, BatchStrategy, GeneticArchitecture, GenomicModel, Plant, PopulationStats,
+  ProgramConfig, SeasonScenario, TraitValues
+} from '../types';
+import { GP_MAX_TRAINING_SIZE, MATING_DESIGNS, SEASON_SCENARIOS, SELECTION_SCHEMES } from '../constants';
+import { breedNextGeneration, calculateStats, createInitialPopulation, selectionResponse } from './geneticsEngine';
+import { getArchitecture, setArchitecture, withGenomeLength } from './architecture';
+import { getRngState, getSeed, randomInt, setRngState, setSeed } from './random';
+import { recordGeneration } from './pedigree';
+import { fitGenomicModel, applyGenomicModel } from './genomicPrediction';
+import { diseasePressure, runEpidemic } from './epidemic';
+import { buildSelectionIndex, defaultIndexSettings, indexValue } from './selectionIndex';
+import { selectByScheme } from './selectionSchemes';
+
+// Headless breeding programs for comparing strategies. Every replicate runs the same
+// cycle as the app - select, breed, record the pedigree, grow the season (with its
+// epidemic, if the scenario brings disease), predict and record the statistics - with
+// no UI in the loop. The runner has no browser dependencies, so it works in Node, in a
+// worker (utils/batchClient.ts) or inline.
+//
+//   const result = runBatch({ program, generations: 20, replicates: 100, seed: 1, strategies });
+//   writeFileSync('runs.csv', batchToCsv(result));
+
+// Reject strategies the cycle cannot run, before any replicate starts
+const validate = (config: BatchConfig, arch: GeneticArchitecture) => {
+  if (config.strategies.length === 0) throw new Error('A batch needs at least one strategy.');
+  if (!(config.replicates >= 1) || !(config.generations >= 1)) throw new Error('Replicates and generations must be at least 1.');
+  const names = new Set<string>();
+  config.strategies.forEach(s => {
+    if (names.has(s.name)) throw new Error(`Two strategies are called "${s.name}"; names label the output rows.`);
+    names.add(s.name);
+    if (s.trait !== 'index' && !arch.traits.some(t => t.id === s.trait)) throw new Error(`Strategy "${s.name}": ${arch.name} has no trait "${s.trait}".`);
+    if (!(s.proportion > 0 && s.proportion <= 1)) throw new Error(`Strategy "${s.name}": the proportion selected must be in (0, 1].`);
+    const scheme = SELECTION_SCHEMES.find(sc => sc.id === (s.scheme ?? 'truncation'));
+    if (!scheme?.criterion) throw new Error(`Strategy "${s.name}": batch runs use single-criterion schemes, not ${scheme?.name ?? s.scheme}.`);
+    const design = MATING_DESIGNS.find(d => d.id === (s.matingDesign ?? 'random'));
+    if (!design || design.needsReference) throw new Error(`Strategy "${s.name}": ${design?.name ?? s.matingDesign} cannot be run in a batch.`);
+    if (Array.isArray(s.scenarios) && s.scenarios.length === 0) throw new Error(`Strategy "${s.name}": the scenario sequence is empty.`);
+  });
+};
+
+// Parents for the next generation under a strategy
+const chooseParents = (strategy: BatchStrategy, population: Plant[], minParents: number, arch: GeneticArchitecture): Plant[] => {
+  const values = (p: Plant): TraitValues => (strategy.genomic && p.gebv ? p.gebv : p.phenotype);
+  let raw: (p: Plant) => number;
+  let value: (p: Plant) => number;
+  let optimum: number | undefined;
+  if (strategy.trait === 'index') {
+    const index = buildSelectionIndex(population, defaultIndexSettings(arch), values, strategy.proportion, arch);
+    raw = value = (p: Plant) => (index ? indexValue(index, values(p)) : 0);
+  } else {
+    const trait = arch.traits.find(t => t.id === strategy.trait)!;
+    const sign = trait.direction === 'decrease' ? -1 : 1;
+    raw = (p: Plant) => values(p)[trait.id];
+    value = (p: Plant) => raw(p) * sign;
+    optimum = trait.optimumValue;
+  }
+  const chosen = selectByScheme(strategy.scheme ?? 'truncation', population, value, strategy.proportion, raw, optimum);
+  return chosen.length >= minParents ? chosen : [...population].sort((a, b) => value(b) - value(a)).slice(0, minParents);
+};
+
+// Season of the generation bred in cycle `cycle` (1 = the first offspring)
+const seasonFor = (strategy: BatchStrategy, cycle: number, program: ProgramConfig): SeasonScenario => {
+  const scenarios = strategy.scenarios ?? 'constant';
+  if (scenarios === 'constant') return { description: 'Normal growing conditions', envImpact: program.initialEnvVariance };
+  if (scenarios === 'random') return SEASON_SCENARIOS[randomInt(SEASON_SCENARIOS.length)];
+  return scenarios[(cycle - 1) % scenarios.length];
+};
+
+const runReplicate = (
+  strategy: BatchStrategy,
+  replicate: number,
+  seed: number,
+  config: BatchConfig,
+  arch: GeneticArchitecture
+): BatchRecord[] => {
+  const { program } = config;
+  const design = MATING_DESIGNS.find(d => d.id === (strategy.matingDesign ?? 'random'))!;
+  const founders = recordGeneration({}, createInitialPopulation(program, seed));
+  let population = founders.plants;
+  let pedigree = founders.pedigree;
+  let training = population;
+  let model: GenomicModel | null = null;
+  let stats: PopulationStats = calculateStats(population, 1);
+  const records: BatchRecord[] = [
+    { strategy: strategy.name, replicate, seed, scenario: 'Founders', envVariance: program.initialEnvVariance, stats },
+  ];
+
+  for (let generation = 1; generation < config.generations; generation++) {
+    // Candidates are ranked on GEBVs from every phenotyped plant so far, their own included
+    if (strategy.genomic) {
+      model = fitGenomicModel(training, strategy.gpMethod ?? 'rrblup', generation);
+      population = applyGenomicModel(population, model);
+    }
+    const parents = chooseParents(strategy, population, design.minParents, arch);
+
+    const season = seasonFor(strategy, generation, program);
+    const offspring = breedNextGeneration(
+      parents, generation, season.envImpact, design.id, null, strategy.mutationRate ?? 0, null, program
+    );
+    const recorded = recordGeneration(pedigree, offspring);
+    pedigree = recorded.pedigree;
+    let next = recorded.plants;
+    if (diseasePressure(season.description) > 0) next = runEpidemic(next).plants;
+    // Offspring are predicted before their phenotypes enter training, giving the GS accuracy
+    if (model) next = applyGenomicModel(next, model);
+    training = [...training, ...next].slice(-GP_MAX_TRAINING_SIZE);
+
+    stats = { ...calculateStats(next, generation + 1, stats), response: selectionResponse(population, parents, next) };
+    records.push({ strategy: strategy.name, replicate, seed, scenario: season.description, envVariance: season.envImpact, stats });
+    population = next;
+  }
+  return records;
+};
+
+// Run every strategy for the given number of replicates. The active crop and random
+// stream are left as they were.
+export const runBatch = (config: BatchConfig, onProgress?: (done: number, total: number) => void): BatchResult => {
+  const before = { architecture: getArchitecture(), seed: getSeed(), rngState: getRngState() };
+  const arch = withGenomeLength(config.architecture ?? before.architecture, config.program.genomeLength);
+  validate(config, arch);
+
+  const records: BatchRecord[] = [];
+  const total = config.strategies.length * config.replicates;
+  try {
+    setArchitecture(arch);
+    config.strategies.forEach((strategy, s) => {
+      for (let r = 1; r <= config.replicates; r++) {
+        records.push(...runReplicate(strategy, r, (config.seed + r - 1) >>> 0, config, arch));
+        onProgress?.(s * config.replicates + r, total);
+      }
+    });
+  } finally {
+    setArchitecture(before.architecture);
+    setSeed(before.seed);
+    setRngState(before.rngState);
+  }
+  return { config: { ...config, architecture: arch }, records };
+};
+
+const csvField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined || (typeof value === 'number' && !Number.isFinite(value))) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per strategy, replicate and generation
+export const batchToCsv = (result: BatchResult): string => {
+  const traits = (result.config.architecture ?? getArchitecture()).traits;
+  const header = [
+    'strategy', 'replicate', 'seed', 'generation', 'scenario', 'envVariance', 'size',
+    ...traits.flatMap(t => [
+      `mean_${t.id}`, `max_${t.id}`, `varP_${t.id}`, `varA_${t.id}`, `h2_${t.id}`,
+      `S_${t.id}`, `R_${t.id}`, `h2S_${t.id}`, `gsAccuracy_${t.id}`,
+    ]),
+    'heterozygosity', 'meanInbreeding', 'deltaF', 'effectiveSize', 'donorProportion',
+  ];
+  const rows = result.records.map(({ strategy, replicate, seed, scenario, envVariance, stats }) => [
+    strategy, replicate, seed, stats.generation, scenario, envVariance, stats.size,
+    ...traits.flatMap(t => [
+      stats.means[t.id], stats.maxima[t.id], stats.components[t.id]?.phenotypic, stats.components[t.id]?.additive,
+      stats.components[t.id]?.heritability, stats.response?.[t.id]?.differential, stats.response?.[t.id]?.observed,
+      stats.response?.[t.id]?.predicted, stats.gsAccuracy?.[t.id],
+    ]),
+    stats.heterozygosity, stats.meanInbreeding, stats.deltaF, stats.effectiveSize, stats.donorProportion,
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+export const batchToJson = (result: BatchResult): string => JSON.stringify(result);
+
+// Mean and SD across replicates of each strategy's final-generation trait means
+export const summarizeBatch = (result: BatchResult): { strategy: string; means: TraitValues; sds: TraitValues }[] => {
+  const traits = (result.config.architecture ?? getArchitecture()).traits;
+  return result.config.strategies.map(({ name }) => {
+    const finals = result.records.filter(r => r.strategy === name && r.stats.generation === result.config.generations);
+    const means: TraitValues = {};
+    const sds: TraitValues = {};
+    traits.forEach(t => {
+      const values = finals.map(r => r.stats.means[t.id]);
+      const m = values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+      means[t.id] = m;
+      sds[t.id] = values.length > 1 ? Math.sqrt(values.reduce((a, b) => a + (b - m) ** 2, 0) / (values.length - 1)) : 0;
+    });
+    return { strategy: name, means, sds };
+  });
+};
@@ -0,0 +1,170 @@
+import {
+  ContributionPlan, EpidemicRecord, FieldSettings, FieldTrial, FounderPanel, GenomicMethod, GenomicModel, MatingDesign, Pedigree, Plant,
+  PopulationStats, ProgramConfig, TraitValues
+} from '../types';
+import { TRIAL_LOCATIONS } from '../constants';
+import { breedNextGeneration, calculateStats, createInitialPopulation } from './geneticsEngine';
+import { getArchitecture } from './architecture';
+import { kinshipOf, meanRelationship, recordGeneration, relationshipMatrix } from './pedigree';
+import { ParentRef, expectedInbreeding } from './matingDesigns';
+import { optimalContributions } from './optimalContribution';
+import { runMultiEnvironmentTrial } from './multiEnvironment';
+import { applyFieldTrial, createCheckVarieties, entryCells } from './fieldTrial';
+import { runEpidemic } from './epidemic';
+import { applyGenomicModel, fitGenomicModel, predictionAccuracy } from './genomicPrediction';
+
+// The heavy stages of a breeding cycle, run in the engine worker (see engineProtocol.ts):
+// breeding, pedigree inbreeding, trials, the epidemic, genomic prediction and statistics,
+// plus the pedigree relatedness and contribution plans the selection panel asks for.
+// Each stage takes and returns plain data, so it can be posted across the worker boundary.
+
+// How a generation is tested: a multi-environment trial, a laid-out field trial, or
+// neither. The field trial's check varieties carry over from the previous trial while
+// their number and the genome stay the same.
+export interface TrialPlan {
+  met: boolean;
+  field: FieldSettings | null;
+  previousChecks: Plant[] | null;
+}
+
+export interface TestedGeneration {
+  plants: Plant[];
+  trial: FieldTrial | null;
+  stats: PopulationStats;
+}
+
+export interface GrownGeneration extends TestedGeneration {
+  epidemic: EpidemicRecord | null;
+  model: GenomicModel | null;
+}
+
+export interface TrainedModel {
+  model: GenomicModel;
+  plants: Plant[];
+  accuracy: TraitValues | undefined;
+}
+
+// Multi-environment trials give across-location BLUEs; otherwise a field trial gives
+// spatially adjusted entry means
+const runTrials = (plants: Plant[], envVariance: number, plan: TrialPlan): { plants: Plant[]; trial: FieldTrial | null } => {
+  if (plan.met) return { plants: runMultiEnvironmentTrial(plants, TRIAL_LOCATIONS, envVariance), trial: null };
+  if (!plan.field) return { plants, trial: null };
+  const previous = plan.previousChecks;
+  const reuse = previous !== null && previous.length === plan.field.checks &&
+    previous.every(c => c.genome.maternal.length === getArchitecture().genomeLength);
+  const checks = reuse ? previous : createCheckVarieties(plan.field.checks, envVariance);
+  return applyFieldTrial(plants, checks, plan.field, envVariance);
+};
+
+// Founders, tested like any other generation
+export const plantFounders = (config: ProgramConfig, seed: number, founders: FounderPanel | undefined, trials: TrialPlan): TestedGeneration => {
+  const recorded = recordGeneration({}, createInitialPopulation(config, seed, founders));
+  const tested = runTrials(recorded.plants, config.initialEnvVariance, trials);
+  return { ...tested, stats: calculateStats(tested.plants, 1) };
+};
+
+// Test the current generation again, e.g. when trials are switched on
+export const testGeneration = (
+  plants: Plant[],
+  generation: number,
+  envVariance: number,
+  trials: TrialPlan,
+  previousStats?: PopulationStats
+): TestedGeneration => {
+  const tested = runTrials(plants, envVariance, trials);
+  return { ...tested, stats: calculateStats(tested.plants, generation, previousStats) };
+};
+
+export interface GrowthRequest {
+  parents: Plant[];
+  currentGeneration: number;
+  envVariance: number;
+  design: MatingDesign;
+  referenceParent: Plant | null;
+  mutationRate: number;
+  contributions: Record<string, number> | null;
+  config: ProgramConfig;
+  pedigree: Pedigree;
+  trials: TrialPlan;
+  diseasePressure: number; // 0 for a season without disease
+  model: GenomicModel | null;
+  retrain: { trainingSet: Plant[]; method: GenomicMethod } | null; // Refit the model before predicting
+  previousStats?: PopulationStats;
+}
+
+// Breed the next generation and grow it through the season. Candidates are predicted
+// before their own phenotypes enter training.
+export const growGeneration = (request: GrowthRequest): GrownGeneration => {
+  const offspring = breedNextGeneration(
+    request.parents, request.currentGeneration, request.envVariance, request.design, request.referenceParent,
+    request.mutationRate, request.contributions, request.config
+  );
+  const generation = request.currentGeneration + 1;
+
+  // Record parentage and compute pedigree inbreeding
+  let { plants } = recordGeneration(request.pedigree, offspring);
+  const tested = runTrials(plants, request.envVariance, request.trials);
+  plants = tested.plants;
+
+  // Disease scenarios (and an inoculated nursery) run an epidemic through the field
+  let epidemic: EpidemicRecord | null = null;
+  if (request.diseasePressure > 0) {
+    const layout = tested.trial ? { cols: tested.trial.cols, cells: entryCells(tested.trial) } : undefined;
+    const outbreak = runEpidemic(plants, request.diseasePressure, undefined, layout);
+    plants = outbreak.plants;
+    epidemic = outbreak.record;
+  }
+
+  let model = request.model;
+  if (model && request.retrain) model = fitGenomicModel(request.retrain.trainingSet, request.retrain.method, request.currentGeneration);
+  if (model) plants = applyGenomicModel(plants, model);
+
+  return { plants, trial: tested.trial, epidemic, model, stats: calculateStats(plants, generation, request.previousStats) };
+};
+
+// Fit a prediction model and predict the current candidates
+export const trainGenomicModel = (training: Plant[], method: GenomicMethod, generation: number, candidates: Plant[]): TrainedModel => {
+  const model = fitGenomicModel(training, method, generation);
+  const plants = applyGenomicModel(candidates, model);
+  return { model, plants, accuracy: predictionAccuracy(plants) };
+};
+
+export interface RelatednessRequest {
+  pedigree: Pedigree;
+  parents: ParentRef[];
+  design: MatingDesign;
+  referenceParent: ParentRef | null;
+  matrixIds: string[]; // Plants shown in the relationship matrix
+}
+
+export interface Relatedness {
+  expectedF: { value: number; formula: string };
+  meanRelationship: number;
+  matrixIds: string[];
+  matrix: number[][];
+}
+
+// How related the chosen parents are: the offspring F the mating design predicts, their
+// mean relationship and the relationship matrix of the first few
+export const assessRelatedness = (request: RelatednessRequest): Relatedness => {
+  const kinship = kinshipOf(request.pedigree);
+  return {
+    expectedF: expectedInbreeding(request.design, request.parents, kinship, request.referenceParent),
+    meanRelationship: meanRelationship(request.parents.map(p => p.id), kinship),
+    matrixIds: request.matrixIds,
+    matrix: relationshipMatrix(request.matrixIds, kinship),
+  };
+};
+
+// Optimal contributions from merits computed by the caller (a merit function cannot be
+// posted to the worker), one per candidate id
+export const planContributions = (
+  pedigree: Pedigree,
+  ids: string[],
+  merits: number[],
+  targetDeltaF: number,
+  fallbackProportion: number
+): ContributionPlan => {
+  const merit = new Map(ids.map((id, i) => [id, merits[i]]));
+  return optimalContributions(ids.map(id => ({ id })), c => merit.get(c.id)!, kinshipOf(pedigree), targetDeltaF, fallbackProportion);
+};
@@ -0,0 +1,12 @@
+import { EngineRequest, handleEngineRequest } from './engineProtocol';
+import { genomeBuffers } from './genome';
+
+// Web Worker entry: breeding and the stages after it run here so large generations do
+// not block the 3D scene. The genomes of any plants in the result are transferred back, not copied.
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  const response = handleEngineRequest(event.data);
+  const transfer = 'result' in response && 'plants' in response.result
+    ? genomeBuffers(response.result.plants.map(p => p.genome))
+    : [];
+  self.postMessage(response, { transfer });
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { TrialPlan } from './breedingCycle';
+import { createInitialPopulation } from './geneticsEngine';
+import { contributionsAsync, relatednessAsync, runGwasAsync, testGenerationAsync } from './engineClient';
+import { runGwas } from './gwas';
+import { expectedInbreeding } from './matingDesigns';
+import { optimalContributions } from './optimalContribution';
+import { kinshipOf, meanRelationship, recordGeneration, relationshipMatrix } from './pedigree';
+import { setSeed } from './random';
+
+// Without Worker support the client runs each call inline, through the same handler
+const founders = recordGeneration({}, createInitialPopulation(DEFAULT_PROGRAM_CONFIG, 21));
+const parents = founders.plants.slice(0, 6);
+const met: TrialPlan = { met: true, field: null, previousChecks: null };
+
+describe('engine client', () => {
+  it('works out relatedness as the pedigree functions do', async () => {
+    const kinship = kinshipOf(founders.pedigree);
+    const result = await relatednessAsync({
+      pedigree: founders.pedigree,
+      parents,
+      design: 'halfDiallel',
+      referenceParent: null,
+      matrixIds: parents.slice(0, 3).map(p => p.id),
+    });
+    expect(result.expectedF).toEqual(expectedInbreeding('halfDiallel', parents, kinship));
+    expect(result.meanRelationship).toBe(meanRelationship(parents.map(p => p.id), kinship));
+    expect(result.matrix).toEqual(relationshipMatrix(parents.slice(0, 3).map(p => p.id), kinship));
+  });
+
+  it('plans contributions from merits as the solver does from a merit function', async () => {
+    const merit = (p: { id: string }) => founders.plants.find(f => f.id === p.id)!.phenotype.yield;
+    const plan = await contributionsAsync(founders.pedigree, parents.map(p => p.id), parents.map(merit), 0.01, 0.2);
+    expect(plan).toEqual(optimalContributions(parents, merit, kinshipOf(founders.pedigree), 0.01, 0.2));
+  });
+
+  it('scans markers as runGwas does', async () => {
+    expect(await runGwasAsync(founders.plants, 'yield', 'fdr')).toEqual(runGwas(founders.plants, 'yield', 'fdr'));
+  });
+
+  it('gives overlapping calls consecutive parts of the seeded stream', async () => {
+    setSeed(3);
+    const overlapping = await Promise.all([
+      testGenerationAsync(founders.plants, 1, 2, met),
+      testGenerationAsync(founders.plants, 1, 2, met),
+    ]);
+    setSeed(3);
+    const first = await testGenerationAsync(founders.plants, 1, 2, met);
+    const second = await testGenerationAsync(founders.plants, 1, 2, met);
+    expect(overlapping.map(t => t.plants[0].phenotype)).toEqual([first.plants[0].phenotype, second.plants[0].phenotype]);
+    expect(first.plants[0].phenotype).not.toEqual(second.plants[0].phenotype);
+  });
+});
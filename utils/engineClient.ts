@@ -0,0 +1,98 @@
+import { FounderPanel, GenomicMethod, MultipleTestCorrection, Pedigree, Plant, PopulationStats, ProgramConfig } from '../types';
+import { EngineCall, EngineRequest, EngineResponse, EngineResult, EngineResults, handleEngineRequest } from './engineProtocol';
+import { GrowthRequest, RelatednessRequest, TrialPlan } from './breedingCycle';
+import { getArchitecture } from './architecture';
+import { getRngState, getSeed, setRngState, setSeed } from './random';
+
+// Main-thread side of the engine worker. Calls are queued and run one at a time: each
+// request is sent only after the previous one has settled, with the random stream that
+// call left behind, so overlapping calls draw consecutive parts of the seeded sequence
+// instead of starting from the same state. The stream a response returns is adopted
+// here, so anything drawn on the main thread afterwards (scenarios) continues it too.
+// Without Worker support (tests, SSR) the same handler runs inline.
+
+let worker: Worker | null = null;
+let nextId = 0;
+let queue: Promise<unknown> = Promise.resolve();
+const pending = new Map<number, { resolve: (result: EngineResult) => void; reject: (err: Error) => void }>();
+
+const settle = (response: EngineResponse) => {
+  const call = pending.get(response.id);
+  if (!call) return;
+  pending.delete(response.id);
+  if ('error' in response) {
+    call.reject(new Error(response.error));
+    return;
+  }
+  setSeed(response.seed);
+  setRngState(response.rngState);
+  call.resolve(response.result);
+};
+
+const getWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EngineResponse>) => settle(event.data);
+    worker.onerror = (event) => {
+      // A crashed worker fails everything in flight; the next call starts a fresh one
+      pending.forEach(call => call.reject(new Error(event.message || 'Engine worker failed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+// Send one call; the context is read at send time, after every earlier call has settled
+const send = (call: EngineCall): Promise<EngineResult> => {
+  const request: EngineRequest = {
+    ...call,
+    id: nextId++,
+    context: { architecture: getArchitecture(), seed: getSeed(), rngState: getRngState() },
+  };
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { resolve, reject });
+    const target = getWorker();
+    if (target) target.postMessage(request);
+    else settle(handleEngineRequest(request));
+  });
+};
+
+const dispatch = <C extends EngineCall>(call: C): Promise<EngineResults[C['op']]> => {
+  const result = queue.then(() => send(call));
+  queue = result.catch(() => undefined); // A failed call does not hold up the ones behind it
+  return result as Promise<EngineResults[C['op']]>;
+};
+
+export const plantFoundersAsync = (config: ProgramConfig, seed: number, founders: FounderPanel | undefined, trials: TrialPlan) =>
+  dispatch({ op: 'plantFounders', config, seed, founders, trials });
+
+export const growGenerationAsync = (request: GrowthRequest) =>
+  dispatch({ op: 'growGeneration', ...request });
+
+export const testGenerationAsync = (
+  plants: Plant[],
+  generation: number,
+  envVariance: number,
+  trials: TrialPlan,
+  previousStats?: PopulationStats
+) => dispatch({ op: 'testGeneration', plants, generation, envVariance, trials, previousStats });
+
+export const trainGenomicModelAsync = (training: Plant[], method: GenomicMethod, generation: number, candidates: Plant[]) =>
+  dispatch({ op: 'trainGenomicModel', training, method, generation, candidates });
+
+export const relatednessAsync = (request: RelatednessRequest) =>
+  dispatch({ op: 'relatedness', ...request });
+
+export const contributionsAsync = (
+  pedigree: Pedigree,
+  ids: string[],
+  merits: number[],
+  targetDeltaF: number,
+  fallbackProportion: number
+) => dispatch({ op: 'contributions', pedigree, ids, merits, targetDeltaF, fallbackProportion });
+
+export const runGwasAsync = (plants: Plant[], traitId: string, correction: MultipleTestCorrection) =>
+  dispatch({ op: 'gwas', plants, traitId, correction });
@@ -0,0 +1,95 @@
+import {
+  ContributionPlan, FounderPanel, GeneticArchitecture, GenomicMethod, GwasResult, MultipleTestCorrection, Pedigree, Plant,
+  PopulationStats, ProgramConfig
+} from '../types';
+import {
+  GrowthRequest, GrownGeneration, Relatedness, RelatednessRequest, TestedGeneration, TrainedModel, TrialPlan, assessRelatedness,
+  growGeneration, planContributions, plantFounders, testGeneration, trainGenomicModel
+} from './breedingCycle';
+import { runGwas } from './gwas';
+import { setArchitecture } from './architecture';
+import { getRngState, getSeed, setRngState, setSeed } from './random';
+
+// Messages between the main thread and the engine worker. Module state (the active
+// architecture and the random stream) does not cross the worker boundary, so each
+// request carries it in and each response carries the advanced stream back out.
+
+export interface EngineContext {
+  architecture: GeneticArchitecture;
+  seed: number;
+  rngState: number;
+}
+
+export type EngineCall =
+  | { op: 'plantFounders'; config: ProgramConfig; seed: number; founders?: FounderPanel; trials: TrialPlan }
+  | ({ op: 'growGeneration' } & GrowthRequest)
+  | {
+    op: 'testGeneration';
+    plants: Plant[];
+    generation: number;
+    envVariance: number;
+    trials: TrialPlan;
+    previousStats?: PopulationStats;
+  }
+  | { op: 'trainGenomicModel'; training: Plant[]; method: GenomicMethod; generation: number; candidates: Plant[] }
+  | ({ op: 'relatedness' } & RelatednessRequest)
+  | {
+    op: 'contributions';
+    pedigree: Pedigree;
+    ids: string[];
+    merits: number[];
+    targetDeltaF: number;
+    fallbackProportion: number;
+  }
+  | { op: 'gwas'; plants: Plant[]; traitId: string; correction: MultipleTestCorrection };
+
+// What each operation resolves to
+export interface EngineResults {
+  plantFounders: TestedGeneration;
+  growGeneration: GrownGeneration;
+  testGeneration: TestedGeneration;
+  trainGenomicModel: TrainedModel;
+  relatedness: Relatedness;
+  contributions: ContributionPlan;
+  gwas: GwasResult;
+}
+
+export type EngineResult = EngineResults[keyof EngineResults];
+
+export type EngineRequest = EngineCall & { id: number; context: EngineContext };
+
+export type EngineResponse =
+  | { id: number; result: EngineResult; seed: number; rngState: number }
+  | { id: number; error: string };
+
+const run = (call: EngineCall): EngineResult => {
+  switch (call.op) {
+    case 'plantFounders':
+      return plantFounders(call.config, call.seed, call.founders, call.trials);
+    case 'growGeneration':
+      return growGeneration(call);
+    case 'testGeneration':
+      return testGeneration(call.plants, call.generation, call.envVariance, call.trials, call.previousStats);
+    case 'trainGenomicModel':
+      return trainGenomicModel(call.training, call.method, call.generation, call.candidates);
+    case 'relatedness':
+      return assessRelatedness(call);
+    case 'contributions':
+      return planContributions(call.pedigree, call.ids, call.merits, call.targetDeltaF, call.fallbackProportion);
+    case 'gwas':
+      return runGwas(call.plants, call.traitId, call.correction);
+  }
+};
+
+// Execute one request against the engine in whatever thread this module lives in
+export const handleEngineRequest = (request: EngineRequest): EngineResponse => {
+  try {
+    setArchitecture(request.context.architecture);
+    setSeed(request.context.seed);
+    setRngState(request.context.rngState);
+    const result = run(request);
+    return { id: request.id, result, seed: getSeed(), rngState: getRngState() };
+  } catch (err) {
+    return { id: request.id, error: err instanceof Error ? err.message : String(err) };
+  }
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROGRAM_CONFIG, TRIAL_LOCATIONS } from '../constants';
+import { diseasePressure, epidemicTraits, runEpidemic, susceptibility } from './epidemic';
+import { createInitialPopulation } from './geneticsEngine';
+import { runMultiEnvironmentTrial } from './multiEnvironment';
+import { setSeed } from './random';
+
+const tested = runMultiEnvironmentTrial(createInitialPopulation(DEFAULT_PROGRAM_CONFIG, 8), TRIAL_LOCATIONS, 1);
+const { target } = epidemicTraits();
+
+const outbreak = (seed: number) => {
+  setSeed(seed);
+  return runEpidemic(tested, 1);
+};
+
+describe('epidemic', () => {
+  it('starts only in disease scenarios', () => {
+    expect(diseasePressure('Fungal rust disease pressure')).toBe(1);
+    expect(diseasePressure('Early frost warning')).toBe(0);
+    expect(susceptibility(10, 5)).toBeLessThan(susceptibility(0, 5));
+  });
+
+  it('spreads from its foci and replays from the seed', () => {
+    const { plants, record } = outbreak(4);
+    expect(record.curve[0]).toBe(record.foci.length);
+    record.curve.slice(1).forEach((count, t) => expect(count).toBeGreaterThanOrEqual(record.curve[t]));
+    expect(record.incidence).toBeCloseTo(plants.filter(p => p.infection).length / plants.length, 3);
+    expect(outbreak(4)).toEqual({ plants, record });
+  });
+
+  it('takes the same share at every location and keeps the BLUE the phenotype', () => {
+    const { plants } = outbreak(4);
+    plants.forEach((p, i) => {
+      const before = tested[i];
+      if (!p.infection) {
+        expect(p).toBe(before);
+        return;
+      }
+      expect(p.phenotype).toEqual(p.met!.blue);
+      expect(p.met!.fwSlope).toEqual(before.met!.fwSlope);
+      TRIAL_LOCATIONS.forEach(loc => {
+        const healthy = before.met!.phenotypes[loc.id][target];
+        expect(p.met!.phenotypes[loc.id][target]).toBeCloseTo(healthy * (1 - p.infection!.loss), 1);
+      });
+    });
+    expect(plants.some(p => p.infection && p.phenotype[target] < tested.find(t => t.id === p.id)!.phenotype[target])).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import { EpidemicRecord, GeneticArchitecture, Plant, TraitValues } from '../types';
+import {
+  EPIDEMIC_STEPS, EPIDEMIC_FOCI, EPIDEMIC_TRANSMISSION, EPIDEMIC_MAX_LOSS, EPIDEMIC_RESISTANCE_SCALE, DISEASE_KEYWORDS
+} from '../constants';
+import { getArchitecture, getTrait } from './architecture';
+import { random, randomInt } from './random';
+
+// Spatial epidemic on the field grid. Plants stand in population order, row by row, in a
+// square grid (the layout Scene3D draws), or at their plots when a field trial laid them
+// out. Disease starts at a few foci and, each time step, spreads from every infected plant
+// to its eight neighbours with a probability set by the neighbour's resistance phenotype.
+// Plants infected early lose the most yield.
+
+// Columns of the square field grid for n plants
+export const fieldColumns = (n: number): number => Math.max(1, Math.ceil(Math.sqrt(n)));
+
+// Disease pressure implied by a season scenario (0 = no epidemic)
+export const diseasePressure = (scenario: string): number =>
+  DISEASE_KEYWORDS.some(k => new RegExp(`\\b${k}`, 'i').test(scenario)) ? 1 : 0;
+
+// Which trait confers resistance, which trait the disease damages, and the resistance at
+// which a plant is half as susceptible as a plant with none. The architecture's threshold
+// penalty on the health trait is reused where present.
+export const epidemicTraits = (arch: GeneticArchitecture = getArchitecture()) => {
+  const resistance = arch.display.health;
+  const penalty = arch.penalties.find(p => p.source === resistance);
+  const trait = getTrait(resistance, arch);
+  const midpoint = penalty
+    ? penalty.threshold
+    : (trait?.baseValue ?? 0) + (trait?.alleleEffects ?? trait?.lociIndices.map(() => 1) ?? []).reduce((s, a) => s + Math.abs(a), 0);
+  return { resistance, target: penalty?.target ?? arch.display.vigor, midpoint };
+};
+
+// Chance that a fully exposed plant catches disease relative to a susceptible one (logistic in resistance)
+export const susceptibility = (resistance: number, midpoint: number): number =>
+  1 / (1 + Math.exp((resistance - midpoint) / EPIDEMIC_RESISTANCE_SCALE));
+
+// Run one season's epidemic and return the damaged plants with the epidemic curve. A field
+// layout gives each plant's [row, col]; plants without a cell sit out the epidemic.
+export const runEpidemic = (
+  plants: Plant[],
+  pressure: number = 1,
+  steps: number = EPIDEMIC_STEPS,
+  layout?: { cols: number; cells: Map<string, [number, number]> }
+): { plants: Plant[]; record: EpidemicRecord } => {
+  const arch = getArchitecture();
+  const { resistance, target, midpoint } = epidemicTraits(arch);
+  const n = plants.length;
+  const cols = layout ? layout.cols : fieldColumns(n);
+  const cells = plants.map((p, i) => (layout ? layout.cells.get(p.id) : [Math.floor(i / cols), i % cols] as [number, number]));
+  const occupant = new Map<number, number>();
+  cells.forEach((cell, i) => { if (cell) occupant.set(cell[0] * cols + cell[1], i); });
+  const risk = plants.map(p => susceptibility(p.phenotype[resistance], midpoint));
+  const infectedAt = new Array<number>(n).fill(-1);
+
+  // Foci: random plants, infected regardless of resistance
+  const foci: number[] = [];
+  while (foci.length < Math.min(EPIDEMIC_FOCI, occupant.size)) {
+    const i = randomInt(n);
+    if (cells[i] && !foci.includes(i)) foci.push(i);
+  }
+  foci.forEach(i => { infectedAt[i] = 0; });
+
+  const curve = [foci.length];
+  for (let step = 1; step <= steps; step++) {
+    const sources = infectedAt.map((t, i) => (t >= 0 && t < step ? i : -1)).filter(i => i >= 0);
+    sources.forEach(i => {
+      const [row, col] = cells[i]!;
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          if (dr === 0 && dc === 0) continue;
+          const r = row + dr;
+          const c = col + dc;
+          const j = c >= 0 && c < cols ? occupant.get(r * cols + c) : undefined;
+          if (j === undefined || infectedAt[j] >= 0) continue;
+          const contact = dr !== 0 && dc !== 0 ? Math.SQRT1_2 : 1; // Diagonal neighbours are further away
+          if (random() < Math.min(1, EPIDEMIC_TRANSMISSION * pressure * contact * risk[j])) infectedAt[j] = step;
+        }
+      }
+    });
+    curve.push(infectedAt.filter(t => t >= 0).length);
+  }
+
+  // Severity grows with time since infection and with susceptibility; the loss follows.
+  // A plant tested across locations loses the same share at every location and in its
+  // BLUE, so the BLUE stays the mean of the location values; Finlay-Wilkinson slopes
+  // describe the healthy response to the environment and are left as fitted.
+  const floor = getTrait(target, arch)?.minValue ?? -Infinity;
+  let totalLoss = 0;
+  const damaged = plants.map((plant, i) => {
+    if (infectedAt[i] < 0) return plant;
+    const severity = Math.min(1, ((steps + 1 - infectedAt[i]) / (steps + 1)) * (0.5 + 0.5 * risk[i]));
+    const loss = EPIDEMIC_MAX_LOSS * severity;
+    totalLoss += loss;
+    const damage = (values: TraitValues): TraitValues =>
+      ({ ...values, [target]: parseFloat(Math.max(floor, values[target] * (1 - loss)).toFixed(2)) });
+    const met = plant.met && {
+      ...plant.met,
+      phenotypes: Object.fromEntries(Object.entries(plant.met.phenotypes).map(([loc, values]) => [loc, damage(values)])),
+      blue: damage(plant.met.blue),
+    };
+    return {
+      ...plant,
+      phenotype: damage(plant.phenotype),
+      ...(met ? { met } : {}),
+      infection: { step: infectedAt[i], severity: parseFloat(severity.toFixed(3)), loss: parseFloat(loss.toFixed(3)) },
+    };
+  });
+
+  return {
+    plants: damaged,
+    record: {
+      pressure,
+      steps,
+      foci: foci.map(i => plants[i].id),
+      curve,
+      incidence: parseFloat((curve[curve.length - 1] / Math.max(1, n)).toFixed(3)),
+      meanLoss: parseFloat((totalLoss / Math.max(1, n)).toFixed(3)),
+      trait: target,
+    },
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { FieldSettings } from '../types';
+import { DEFAULT_FIELD_SETTINGS, DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { applyFieldTrial, createCheckVarieties, entryCells } from './fieldTrial';
+import { createInitialPopulation } from './geneticsEngine';
+import { setSeed } from './random';
+
+const plants = createInitialPopulation(DEFAULT_PROGRAM_CONFIG, 19);
+
+// A steep fertility gradient that plain entry means cannot see past
+const trial = (settings: Partial<FieldSettings>) => {
+  setSeed(19);
+  const field = { ...DEFAULT_FIELD_SETTINGS, trend: 15, patches: 0, ...settings };
+  return applyFieldTrial(plants, createCheckVarieties(field.checks, 1), field, 1);
+};
+
+describe('field trials', () => {
+  it('recovers genotypic values better after spatial or block adjustment', () => {
+    const spatial = trial({ design: 'rcbd', analysis: 'spatial' }).trial.accuracy;
+    expect(spatial.adjusted.yield).toBeGreaterThan(spatial.raw.yield + 0.2);
+    const blocks = trial({ design: 'alpha', analysis: 'blocks' }).trial.accuracy;
+    expect(blocks.adjusted.yield).toBeGreaterThan(blocks.raw.yield);
+    // Complete blocks shift every entry alike, so block adjustment leaves an RCBD's accuracy as it was
+    const complete = trial({ design: 'rcbd', analysis: 'blocks' }).trial.accuracy;
+    expect(complete.adjusted.yield).toBe(complete.raw.yield);
+  });
+
+  it('grows every entry in each rep and the checks in every block', () => {
+    const { plants: tested, trial: field } = trial({ design: 'rcbd', reps: 3, checks: 2 });
+    tested.forEach(p => {
+      expect(p.field!.plots).toBe(3);
+      expect(p.phenotype).toEqual(p.field!.adjusted);
+    });
+    const blocks = new Set(field.plots.map(q => q.block));
+    expect(field.plots.filter(q => q.isCheck)).toHaveLength(blocks.size * 2);
+    expect(field.checks.map(c => c.id)).toEqual(['CHECK-A', 'CHECK-B']);
+    expect(entryCells(field).size).toBe(plants.length);
+  });
+});
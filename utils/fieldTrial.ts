@@ -0,0 +1,235 @@
+import { FieldAnalysis, FieldPlot, FieldSettings, FieldTrial, Plant, TraitValues } from '../types';
+import { FIELD_PATCH_AMPLITUDE, FIELD_NEIGHBOUR_RADIUS } from '../constants';
+import { random, randomInt, randomNormal } from './random';
+import { getArchitecture, favourableAllele } from './architecture';
+import { applyThresholdPenalties, evaluatePlant } from './geneticsEngine';
+import { createGenome } from './genome';
+import { correlation } from './matrix';
+import { fieldColumns } from './epidemic';
+
+// Field trials: entries are grown in replicated plots laid out by an experimental design,
+// on soil whose fertility drifts across the field and varies in patches. Plot phenotype =
+// G + soil + residual. Blocking or a spatial neighbour adjustment then removes as much of
+// the soil effect as it can before the entry means are used for selection.
+
+const round = (v: number) => parseFloat(v.toFixed(2));
+
+// Fisher-Yates on the engine stream
+const shuffle = <T,>(items: T[]): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+// Check varieties: fixed inbred lines grown in every block as a yardstick for the soil
+export const createCheckVarieties = (count: number, envVariance: number): Plant[] => {
+  const arch = getArchitecture();
+  return Array.from({ length: count }, (_, k) => {
+    const alleles = Uint8Array.from({ length: arch.genomeLength }, (_, i) => {
+      const fav = favourableAllele(i, arch);
+      return random() < 0.7 ? fav : 1 - fav;
+    });
+    const id = `CHECK-${String.fromCharCode(65 + k)}`;
+    return { ...evaluatePlant(createGenome(alleles, new Uint8Array(alleles)), 0, envVariance, id), inbreeding: 1 };
+  });
+};
+
+// Soil fertility (in residual SDs): a linear gradient in a random direction plus patches
+export const fertilityMap = (rows: number, cols: number, trend: number, patches: number): number[][] => {
+  const angle = random() * 2 * Math.PI;
+  const spots = Array.from({ length: patches }, () => ({
+    row: random() * rows,
+    col: random() * cols,
+    radius: 1 + random() * Math.max(rows, cols) / 4,
+    amplitude: (random() < 0.5 ? -1 : 1) * FIELD_PATCH_AMPLITUDE * (0.5 + 0.5 * random()),
+  }));
+  return Array.from({ length: rows }, (_, r) => Array.from({ length: cols }, (_, c) => {
+    const u = (c / Math.max(1, cols - 1) - 0.5) * Math.cos(angle) + (r / Math.max(1, rows - 1) - 0.5) * Math.sin(angle);
+    let f = trend * u;
+    spots.forEach(s => {
+      const d2 = (r - s.row) ** 2 + (c - s.col) ** 2;
+      f += s.amplitude * Math.exp(-d2 / (2 * s.radius ** 2));
+    });
+    return parseFloat(f.toFixed(3));
+  }));
+};
+
+type PlotSlot = Pick<FieldPlot, 'entry' | 'rep' | 'block' | 'isCheck'>;
+
+// Plot order for one design, before positions are assigned
+const randomize = (entries: string[], checks: string[], settings: FieldSettings): PlotSlot[] => {
+  const reps = Math.max(1, settings.reps);
+  const slot = (entry: string, rep: number, block: number, isCheck: boolean): PlotSlot => ({ entry, rep, block, isCheck });
+
+  if (settings.design === 'crd') {
+    const all: PlotSlot[] = [];
+    for (let r = 0; r < reps; r++) {
+      entries.forEach(e => all.push(slot(e, r, 0, false)));
+      checks.forEach(c => all.push(slot(c, r, 0, true)));
+    }
+    return shuffle(all);
+  }
+
+  if (settings.design === 'rcbd') {
+    return Array.from({ length: reps }, (_, r) =>
+      shuffle([...entries.map(e => slot(e, r, r, false)), ...checks.map(c => slot(c, r, r, true))])).flat();
+  }
+
+  // Alpha-lattice: entries arranged in an s × k array; in replicate j the entry in row b,
+  // column u goes to incomplete block (b + u·j) mod s, so pairs rarely share a block twice
+  const k = Math.max(2, Math.min(settings.blockSize, entries.length));
+  const s = Math.ceil(entries.length / k);
+  const order = shuffle(entries);
+  return Array.from({ length: reps }, (_, r) => {
+    const blocks: string[][] = Array.from({ length: s }, () => []);
+    order.forEach((e, i) => blocks[(Math.floor(i / k) + (i % k) * r) % s].push(e));
+    return shuffle(blocks.map((members, b) => shuffle([
+      ...members.map(e => slot(e, r, r * s + b, false)),
+      ...checks.map(c => slot(c, r, r * s + b, true)),
+    ]))).flat();
+  }).flat();
+};
+
+// Lay out and grow the trial
+export const runFieldTrial = (plants: Plant[], checks: Plant[], settings: FieldSettings, envVariance: number): FieldTrial => {
+  const arch = getArchitecture();
+  const slots = randomize(plants.map(p => p.id), checks.map(c => c.id), settings);
+  const cols = fieldColumns(slots.length);
+  const rows = Math.ceil(slots.length / cols);
+  const fertility = fertilityMap(rows, cols, settings.trend, settings.patches);
+  const lookup = new Map([...plants, ...checks].map(p => [p.id, p]));
+
+  const plots: FieldPlot[] = slots.map((s, i) => {
+    const row = Math.floor(i / cols);
+    const col = i % cols;
+    const plant = lookup.get(s.entry)!;
+    const values: TraitValues = {};
+    arch.traits.forEach(trait => {
+      const sd = envVariance * (trait.envScale ?? 1);
+      const y = plant.genotypicValue[trait.id] + fertility[row][col] * sd + randomNormal() * sd;
+      values[trait.id] = Math.max(trait.minValue ?? -Infinity, y);
+    });
+    applyThresholdPenalties(values);
+    return { ...s, row, col, fertility: fertility[row][col], values: Object.fromEntries(Object.entries(values).map(([t, v]) => [t, round(v)])) };
+  });
+
+  return { settings, rows, cols, plots, fertility, checks, accuracy: { raw: {}, adjusted: {} } };
+};
+
+// Mean of `value` over the plots in each group
+const groupMeans = <K,>(plots: FieldPlot[], key: (p: FieldPlot) => K, value: (p: FieldPlot) => number): Map<K, number> => {
+  const sums = new Map<K, { sum: number; n: number }>();
+  plots.forEach(p => {
+    const g = sums.get(key(p)) ?? { sum: 0, n: 0 };
+    g.sum += value(p);
+    g.n++;
+    sums.set(key(p), g);
+  });
+  return new Map([...sums].map(([k, { sum, n }]) => [k, sum / n]));
+};
+
+// Fixed entry + block model by backfitting (least squares for connected designs)
+const blockAdjusted = (plots: FieldPlot[], traitId: string): Map<string, number> => {
+  const y = (p: FieldPlot) => p.values[traitId];
+  let entry = groupMeans(plots, p => p.entry, y);
+  let block = new Map<number, number>();
+  for (let iter = 0; iter < 25; iter++) {
+    const raw = groupMeans(plots, p => p.block, p => y(p) - entry.get(p.entry)!);
+    const centre = plots.reduce((s, p) => s + raw.get(p.block)!, 0) / plots.length;
+    block = new Map([...raw].map(([b, v]) => [b, v - centre]));
+    entry = groupMeans(plots, p => p.entry, p => y(p) - block.get(p.block)!);
+  }
+  return entry;
+};
+
+// Nearest-neighbour (Papadakis-style) adjustment, iterated to convergence: the soil under
+// each plot is estimated as the mean residual of the plots around it, entry effects are
+// refitted on the soil-corrected values, and the two are alternated. Unreplicated entries
+// contribute residuals from the trial mean, so checks and other reps carry the information.
+const spatiallyAdjusted = (trial: FieldTrial, traitId: string): Map<string, number> => {
+  const { plots, cols } = trial;
+  const at = new Map(plots.map((p, i) => [p.row * cols + p.col, i]));
+  const index = new Map(plots.map((p, i) => [p, i]));
+  const copies = new Map<string, number>();
+  plots.forEach(p => copies.set(p.entry, (copies.get(p.entry) ?? 0) + 1));
+  const neighbours = plots.map(p => {
+    const around: number[] = [];
+    for (let dr = -FIELD_NEIGHBOUR_RADIUS; dr <= FIELD_NEIGHBOUR_RADIUS; dr++) {
+      for (let dc = -FIELD_NEIGHBOUR_RADIUS; dc <= FIELD_NEIGHBOUR_RADIUS; dc++) {
+        const c = p.col + dc;
+        const j = c >= 0 && c < cols ? at.get((p.row + dr) * cols + c) : undefined;
+        if ((dr !== 0 || dc !== 0) && j !== undefined) around.push(j);
+      }
+    }
+    return around;
+  });
+
+  const y = plots.map(p => p.values[traitId]);
+  const grand = y.reduce((a, b) => a + b, 0) / y.length;
+  let soil = new Array<number>(plots.length).fill(0);
+  let entry = groupMeans(plots, p => p.entry, p => y[index.get(p)!]);
+  for (let iter = 0; iter < 20; iter++) {
+    const resid = plots.map((p, i) => y[i] - (copies.get(p.entry)! > 1 ? entry.get(p.entry)! : grand));
+    const smooth = neighbours.map(js => (js.length ? js.reduce((s, j) => s + resid[j], 0) / js.length : 0));
+    const centre = smooth.reduce((a, b) => a + b, 0) / smooth.length;
+    soil = smooth.map(v => v - centre);
+    entry = groupMeans(plots, p => p.entry, p => y[index.get(p)!] - soil[index.get(p)!]);
+  }
+  return entry;
+};
+
+// Entry means under the chosen analysis
+export const analyzeFieldTrial = (trial: FieldTrial, analysis: FieldAnalysis): Record<string, TraitValues> => {
+  const out: Record<string, TraitValues> = {};
+  getArchitecture().traits.forEach(trait => {
+    const means = analysis === 'blocks'
+      ? blockAdjusted(trial.plots, trait.id)
+      : analysis === 'spatial'
+        ? spatiallyAdjusted(trial, trait.id)
+        : groupMeans(trial.plots, p => p.entry, p => p.values[trait.id]);
+    means.forEach((v, entry) => { out[entry] = { ...out[entry], [trait.id]: round(v) }; });
+  });
+  return out;
+};
+
+// Grow the population in a laid-out trial and replace each phenotype with its adjusted mean
+export const applyFieldTrial = (
+  plants: Plant[],
+  checks: Plant[],
+  settings: FieldSettings,
+  envVariance: number
+): { plants: Plant[]; trial: FieldTrial } => {
+  const trial = runFieldTrial(plants, checks, settings, envVariance);
+  const raw = analyzeFieldTrial(trial, 'raw');
+  const adjusted = analyzeFieldTrial(trial, settings.analysis);
+
+  // Plots per entry, counted in one pass over the field
+  const plotCount = new Map<string, number>();
+  trial.plots.forEach(q => plotCount.set(q.entry, (plotCount.get(q.entry) ?? 0) + 1));
+
+  const tested = plants.map(p => ({
+    ...p,
+    phenotype: adjusted[p.id],
+    field: { raw: raw[p.id], adjusted: adjusted[p.id], plots: plotCount.get(p.id) ?? 0 },
+  }));
+
+  getArchitecture().traits.forEach(trait => {
+    const g = plants.map(p => p.genotypicValue[trait.id]);
+    trial.accuracy.raw[trait.id] = round(correlation(plants.map(p => raw[p.id][trait.id]), g));
+    trial.accuracy.adjusted[trait.id] = round(correlation(plants.map(p => adjusted[p.id][trait.id]), g));
+  });
+
+  return { plants: tested, trial };
+};
+
+// Where each entry's first-replicate plot sits, for drawing and for the epidemic
+export const entryCells = (trial: FieldTrial): Map<string, [number, number]> => {
+  const cells = new Map<string, [number, number]>();
+  trial.plots.forEach(p => {
+    if (!p.isCheck && !cells.has(p.entry)) cells.set(p.entry, [p.row, p.col]);
+  });
+  return cells;
+};
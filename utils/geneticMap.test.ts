@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { getArchitecture } from './architecture';
+import { doubledHaploid, evaluatePlant } from './geneticsEngine';
+import { createGenome } from './genome';
+import { mapDistance, recombinationBetween, recombinationFraction } from './geneticMap';
+import { setSeed } from './random';
+
+describe('genetic map', () => {
+  it('converts map distance with Haldane and Kosambi', () => {
+    expect(recombinationFraction(0, 'haldane')).toBe(0);
+    expect(recombinationFraction(50, 'haldane')).toBeCloseTo(0.316, 3);
+    expect(recombinationFraction(50, 'kosambi')).toBeCloseTo(0.381, 3);
+    expect(recombinationFraction(500, 'haldane')).toBeCloseTo(0.5, 4);
+    [10, 35, 80].forEach(d => {
+      expect(mapDistance(recombinationFraction(d, 'haldane'), 'haldane')).toBeCloseTo(d, 6);
+      expect(mapDistance(recombinationFraction(d, 'kosambi'), 'kosambi')).toBeCloseTo(d, 6);
+    });
+  });
+
+  it('treats loci on different chromosomes as unlinked', () => {
+    expect(recombinationBetween(0, 10)).toBe(0.5);
+    expect(recombinationBetween(20, 21)).toBeCloseTo(recombinationFraction(6), 9);
+  });
+
+  it('recombines gametes at the rate the map gives', () => {
+    // An F1 with one parental strand all 1 and the other all 0: a doubled haploid is
+    // recombinant between two loci when it carries different alleles at them
+    const length = getArchitecture().genomeLength;
+    const f1 = evaluatePlant(createGenome(new Uint8Array(length).fill(1), new Uint8Array(length)), 1, 0, 'f1');
+    setSeed(31);
+    const lines = Array.from({ length: 4000 }, (_, i) => doubledHaploid(f1, 2, i, 0).genome.maternal);
+    const observed = (a: number, b: number) => lines.filter(g => g[a] !== g[b]).length / lines.length;
+
+    [[20, 21], [0, 1], [0, 5], [0, 10]].forEach(([a, b]) => {
+      const expected = recombinationBetween(a, b);
+      // Within four binomial standard errors
+      expect(Math.abs(observed(a, b) - expected)).toBeLessThan(4 * Math.sqrt(expected * (1 - expected) / lines.length));
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { Chromosome, MappingFunction } from '../types';
+import { getArchitecture } from './architecture';
+
+// Map distance (cM) -> recombination fraction r
+// Haldane assumes no crossover interference; Kosambi allows some interference.
+export const recombinationFraction = (distanceCM: number, fn: MappingFunction = getArchitecture().mappingFunction): number => {
+  const d = Math.abs(distanceCM) / 100; // Morgans
+  if (fn === 'kosambi') {
+    return 0.5 * Math.tanh(2 * d);
+  }
+  return 0.5 * (1 - Math.exp(-2 * d));
+};
+
+// Recombination fraction -> map distance (cM), the inverse of the above
+export const mapDistance = (r: number, fn: MappingFunction = getArchitecture().mappingFunction): number => {
+  const rr = Math.min(0.4999, Math.max(0, r));
+  if (fn === 'kosambi') {
+    return 25 * Math.log((1 + 2 * rr) / (1 - 2 * rr));
+  }
+  return -50 * Math.log(1 - 2 * rr);
+};
+
+// Locate a locus on the map
+export const findLocus = (index: number, map: Chromosome[] = getArchitecture().map): { chromosome: Chromosome, position: number } | null => {
+  for (const chromosome of map) {
+    const locus = chromosome.loci.find(l => l.index === index);
+    if (locus) return { chromosome, position: locus.position };
+  }
+  return null;
+};
+
+// Recombination fraction between any two loci (0.5 if unlinked or unmapped)
+export const recombinationBetween = (a: number, b: number, map: Chromosome[] = getArchitecture().map): number => {
+  const la = findLocus(a, map);
+  const lb = findLocus(b, map);
+  if (!la || !lb || la.chromosome !== lb.chromosome) return 0.5;
+  return recombinationFraction(la.position - lb.position);
+};
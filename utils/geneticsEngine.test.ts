@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { breedNextGeneration, createDonorPlants, createInitialPopulation } from './geneticsEngine';
+import { donorFraction } from './genome';
+import { recordGeneration } from './pedigree';
+
+describe('germplasm introduction', () => {
+  const founders = recordGeneration({}, createInitialPopulation(DEFAULT_PROGRAM_CONFIG, 17));
+
+  it('numbers donors without reusing ids across introductions', () => {
+    const first = recordGeneration(founders.pedigree, createDonorPlants('elite', 3, 1, 10, founders.pedigree));
+    const second = createDonorPlants('landrace', 3, 1, 10, first.pedigree);
+    expect(first.plants.map(p => p.id)).toEqual(['donor1-1', 'donor1-2', 'donor1-3']);
+    expect(second.map(p => p.id)).toEqual(['donor1-4', 'donor1-5', 'donor1-6']);
+  });
+
+  it('introduces elite lines fully inbred and entirely donor genome', () => {
+    const [line] = recordGeneration(founders.pedigree, createDonorPlants('elite', 1, 1, 10, founders.pedigree)).plants;
+    expect(line.inbreeding).toBe(1);
+    expect(Array.from(line.genome.maternal)).toEqual(Array.from(line.genome.paternal));
+    expect(donorFraction(line.genome)).toBe(1);
+  });
+
+  it('halves the donor share with each cross to the breeding population', () => {
+    const donors = createDonorPlants('random', 10, 1, 10);
+    const f1 = breedNextGeneration([...donors, ...founders.plants.slice(0, 10)], 1, 10, 'fullDiallel', null, 0, null,
+      { ...DEFAULT_PROGRAM_CONFIG, offspringCount: 380 });
+    const share = f1.reduce((s, p) => s + donorFraction(p.genome), 0) / f1.length;
+    expect(share).toBeCloseTo(0.5, 1);
+  });
+});
@@ -1,246 +1,476 @@
-import { Plant, Genome, Allele, PopulationStats } from '../types';
 import {
-  GENOME_LENGTH, POPULATION_SIZE,
-  YIELD_LOCI, RESISTANCE_LOCI, HEIGHT_LOCI,
-  PLEIOTROPIC_YIELD_RESISTANCE, PLEIOTROPIC_HEIGHT_YIELD,
-  TRAITS
-} from '../constants';
-
-// Helper: Gaussian random (Box-Muller transform)
-const randn_bm = (): number => {
-  let u = 0, v = 0;
-  while (u === 0) u = Math.random();
-  while (v === 0) v = Math.random();
-  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-};
+  Plant, Genome, PopulationStats, TraitValues, MatingDesign, GermplasmProfile, ProgramConfig, VarianceComponents, SelectionResponse, AlleleEvent, FounderPanel,
+  Pedigree
+} from '../types';
+import { DEFAULT_PROGRAM_CONFIG, GERMPLASM_PROFILES } from '../constants';
+import { random, randomNormal, setSeed } from './random';
+import { recombinationFraction } from './geneticMap';
+import { getArchitecture, getTrait, favourableAllele, traitForLocus, requiredGenomeLength } from './architecture';
+import { planMatings } from './matingDesigns';
+import { predictionAccuracy } from './genomicPrediction';
+import {
+  createGenome, genomeSize, dosage, heterozygosity as genomeHeterozygosity, donorFraction, DONOR_MATERNAL, DONOR_PATERNAL
+} from './genome';
 
-// Generate diploid allele (0 or 1 for each parent)
-const generateAllele = (): Allele => {
-  return {
-    maternal: Math.random() < 0.5 ? 0 : 1,
-    paternal: Math.random() < 0.5 ? 0 : 1,
-  };
+// Generate a random initial genome (diploid), each allele 0 or 1 with equal probability
+const generateRandomGenome = (): Genome => {
+  const length = getArchitecture().genomeLength;
+  const maternal = new Uint8Array(length);
+  const paternal = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    maternal[i] = random() < 0.5 ? 0 : 1;
+    paternal[i] = random() < 0.5 ? 0 : 1;
+  }
+  return createGenome(maternal, paternal);
 };
 
-// Convert diploid to additive value
-const diploidToAdditive = (allele: Allele): number => {
-  return allele.maternal + allele.paternal; // 0, 1, or 2
-};
+const roundValues = (values: TraitValues): TraitValues =>
+  Object.fromEntries(Object.entries(values).map(([k, v]) => [k, parseFloat(v.toFixed(2))]));
+
+// Genotypic value of each locus: aa = 0, Aa = a + d, AA = 2a, with d = k·a for degree of dominance k
+const locusValue = (n: number, a: number, k: number): number => n * a + (n === 1 ? k * a : 0);
+
+// Calculate genotypic values from the genetic architecture
+// Main effects: favourable alleles add a per allele, heterozygotes add the dominance deviation d.
+// Pleiotropy: some loci also shift a second trait (e.g. yield/resistance trade-off).
+// Epistasis: additive-by-additive pairs add effect × (n_i − 1)(n_j − 1).
+const calculateGenotypicValues = (genome: Genome): TraitValues => {
+  const arch = getArchitecture();
+  const values: TraitValues = {};
+  const len = genomeSize(genome);
+
+  arch.traits.forEach(trait => {
+    let g = trait.baseValue;
+    trait.lociIndices.forEach((idx, k) => {
+      if (idx < len) g += locusValue(dosage(genome, idx), trait.alleleEffects?.[k] ?? 1, trait.dominance?.[k] ?? 0);
+    });
+    values[trait.id] = g;
+  });
 
-// Check if heterozygous
-const isHet = (allele: Allele): boolean => {
-  return allele.maternal !== allele.paternal;
-};
+  arch.pleiotropy.forEach(({ locus, trait, effect }) => {
+    if (locus < len) values[trait] += dosage(genome, locus) * effect;
+  });
 
-// Generate a random initial genome (diploid)
-const generateRandomGenome = (): Genome => {
-  const diploid: Allele[] = Array.from({ length: GENOME_LENGTH }, () => generateAllele());
-  const loci = diploid.map(a => diploidToAdditive(a));
-  return { loci, diploid };
+  arch.epistasis.forEach(({ loci: [i, j], trait, effect }) => {
+    if (i < len && j < len) values[trait] += effect * (dosage(genome, i) - 1) * (dosage(genome, j) - 1);
+  });
+
+  arch.traits.forEach(trait => {
+    if (trait.minValue !== undefined) values[trait.id] = Math.max(trait.minValue, values[trait.id]);
+  });
+
+  return values;
 };
 
-// Calculate breeding values with LINKAGE
-const calculateBreedingValues = (genome: Genome): { yield: number, resistance: number, height: number } => {
-  let yieldG = 0;
-  let resG = 0;
-  let heightG = 0;
+// Additive breeding values relative to the current population: BV = μG + Σ (n − 2p)·α
+// Average effects α = a + d(q − p), plus the linear part of pleiotropic and epistatic effects.
+// With dominance these differ from the genotypic values, which is what makes heterosis
+// and inbreeding depression possible.
+export const assignBreedingValues = (population: Plant[]): Plant[] => {
+  if (population.length === 0) return population;
+  const arch = getArchitecture();
+  const len = genomeSize(population[0].genome);
 
-  // Main effects
-  YIELD_LOCI.forEach(idx => {
-    if (idx < genome.loci.length) yieldG += genome.loci[idx];
+  const freq = new Array(len).fill(0);
+  population.forEach(p => {
+    for (let i = 0; i < len; i++) freq[i] += dosage(p.genome, i);
+  });
+  for (let i = 0; i < len; i++) freq[i] /= 2 * population.length;
+
+  const alpha: Record<string, number[]> = {};
+  arch.traits.forEach(trait => {
+    const a = new Array(len).fill(0);
+    trait.lociIndices.forEach((idx, k) => {
+      if (idx >= len) return;
+      const effect = trait.alleleEffects?.[k] ?? 1;
+      const d = effect * (trait.dominance?.[k] ?? 0);
+      a[idx] += effect + d * (1 - 2 * freq[idx]);
+    });
+    alpha[trait.id] = a;
+  });
+  arch.pleiotropy.forEach(({ locus, trait, effect }) => {
+    if (locus < len) alpha[trait][locus] += effect;
+  });
+  arch.epistasis.forEach(({ loci: [i, j], trait, effect }) => {
+    if (i >= len || j >= len) return;
+    alpha[trait][i] += effect * (2 * freq[j] - 1);
+    alpha[trait][j] += effect * (2 * freq[i] - 1);
   });
 
-  RESISTANCE_LOCI.forEach(idx => {
-    if (idx < genome.loci.length) resG += genome.loci[idx];
+  const meanG: TraitValues = {};
+  arch.traits.forEach(trait => {
+    meanG[trait.id] = population.reduce((sum, p) => sum + p.genotypicValue[trait.id], 0) / population.length;
   });
 
-  HEIGHT_LOCI.forEach(idx => {
-    if (idx < genome.loci.length) heightG += genome.loci[idx];
+  // Only loci with a non-zero average effect contribute
+  const effective: Record<string, number[]> = {};
+  arch.traits.forEach(trait => {
+    effective[trait.id] = alpha[trait.id].map((a, i) => (a !== 0 ? i : -1)).filter(i => i >= 0);
   });
 
-  // LINKAGE/PLEIOTROPY: Trade-offs
-  // Loci 8,9: High yield alleles DECREASE resistance (trade-off)
-  PLEIOTROPIC_YIELD_RESISTANCE.forEach(idx => {
-    if (idx < genome.loci.length) {
-      resG -= genome.loci[idx] * 0.5; // Penalty to resistance
-    }
+  return population.map(p => {
+    const bv: TraitValues = {};
+    arch.traits.forEach(trait => {
+      let v = meanG[trait.id];
+      const a = alpha[trait.id];
+      effective[trait.id].forEach(i => { v += (dosage(p.genome, i) - 2 * freq[i]) * a[i]; });
+      bv[trait.id] = v;
+    });
+    return { ...p, breedingValue: roundValues(bv) };
   });
+};
 
-  // Loci 20,21: Dwarf alleles (low height) DECREASE yield
-  PLEIOTROPIC_HEIGHT_YIELD.forEach(idx => {
-    if (idx < genome.loci.length) {
-      yieldG += genome.loci[idx] * 0.3; // Taller plants = more yield
+// Threshold penalties, e.g. low resistance lets disease reduce realized yield (in place)
+export const applyThresholdPenalties = (phenotype: TraitValues): TraitValues => {
+  const arch = getArchitecture();
+  arch.penalties.forEach(({ source, target, threshold, slope }) => {
+    const shortfall = threshold - phenotype[source];
+    if (shortfall > 0) {
+      const floor = getTrait(target, arch)?.minValue ?? -Infinity;
+      phenotype[target] = Math.max(floor, phenotype[target] - shortfall * slope);
     }
   });
-
-  return {
-    yield: Math.max(0, yieldG),
-    resistance: Math.max(0, resG),
-    height: Math.max(5, heightG + 10), // Base height of 10
-  };
+  return phenotype;
 };
 
-// Calculate heterozygosity
-const calculateHeterozygosity = (genome: Genome): number => {
-  if (!genome.diploid) return 0;
-  const hetCount = genome.diploid.filter(a => isHet(a)).length;
-  return hetCount / genome.diploid.length;
-};
+// Id of the index-th plant (from 0) bred in a generation. Ids are positional rather than
+// drawn, so naming a plant never moves the random stream.
+export const plantId = (generation: number, index: number): string => `gen${generation}-${index + 1}`;
 
-// Evaluate plant: G + E
-const evaluatePlant = (genome: Genome, generation: number, envVariance: number, idOverride?: string): Plant => {
-  const bv = calculateBreedingValues(genome);
-  const heterozygosity = calculateHeterozygosity(genome);
+// Id of an imported founder. Samples get their own namespace, so a panel exported from a
+// program (whose samples are named gen3-1, ...) can be bred again without its founders
+// sharing ids with the plants bred from them.
+export const founderId = (sample: string): string => `founder:${sample}`;
 
-  // Environmental effects
-  const yieldE = randn_bm() * envVariance;
-  const resE = randn_bm() * envVariance * 0.5;
-  const heightE = randn_bm() * envVariance * 0.3;
+// Evaluate plant: G + E
+export const evaluatePlant = (genome: Genome, generation: number, envVariance: number, id: string): Plant => {
+  const arch = getArchitecture();
+  const gv = calculateGenotypicValues(genome);
+  const heterozygosity = genomeHeterozygosity(genome);
 
   // Phenotype = Genotype + Environment
-  // Disease penalty: Low resistance reduces realized yield
-  const resPhenotype = Math.max(0, bv.resistance + resE);
-  const diseasePenalty = resPhenotype < 8 ? (8 - resPhenotype) * 0.8 : 0;
+  const phenotype: TraitValues = {};
+  arch.traits.forEach(trait => {
+    const e = randomNormal() * envVariance * (trait.envScale ?? 1);
+    phenotype[trait.id] = Math.max(trait.minValue ?? -Infinity, gv[trait.id] + e);
+  });
 
-  const yieldPhenotype = Math.max(0, bv.yield + yieldE - diseasePenalty);
-  const heightPhenotype = Math.max(5, bv.height + heightE);
+  applyThresholdPenalties(phenotype);
 
   return {
-    id: idOverride || `gen${generation}-${Math.random().toString(36).substr(2, 6)}`,
+    id,
     generation,
     genome,
-    breedingValue: {
-      yield: parseFloat(bv.yield.toFixed(2)),
-      resistance: parseFloat(bv.resistance.toFixed(2)),
-      height: parseFloat(bv.height.toFixed(2)),
-    },
-    phenotype: {
-      yield: parseFloat(yieldPhenotype.toFixed(2)),
-      resistance: parseFloat(resPhenotype.toFixed(2)),
-      height: parseFloat(heightPhenotype.toFixed(2)),
-    },
+    breedingValue: roundValues(gv), // Replaced by assignBreedingValues once the generation is complete
+    genotypicValue: roundValues(gv),
+    phenotype: roundValues(phenotype),
     isSelected: false,
     isHeterozygous: heterozygosity > 0.4,
+    motherId: null,
+    fatherId: null,
+    inbreeding: 0, // Set from the pedigree by recordGeneration
   };
 };
 
-export const createInitialPopulation = (envVariance: number): Plant[] => {
+// Founder population. Passing a seed restarts the engine's random stream so the
+// whole run can be replayed from it. Genome length comes from the active architecture
+// (see withGenomeLength). An imported founder panel replaces the random genomes; its
+// samples keep their names as labels and get fresh phenotypes.
+export const createInitialPopulation = (
+  config: ProgramConfig = DEFAULT_PROGRAM_CONFIG,
+  seed?: number,
+  founders?: FounderPanel
+): Plant[] => {
+  if (seed !== undefined) setSeed(seed);
   const plants: Plant[] = [];
-  for (let i = 0; i < POPULATION_SIZE; i++) {
-    plants.push(evaluatePlant(generateRandomGenome(), 1, envVariance));
+  if (founders) {
+    founders.genomes.forEach((genome, i) => {
+      const sample = founders.sampleIds[i];
+      plants.push({ ...evaluatePlant(genome, 1, config.initialEnvVariance, founderId(sample)), name: sample });
+    });
+    return assignBreedingValues(plants);
+  }
+  for (let i = 0; i < config.populationSize; i++) {
+    plants.push(evaluatePlant(generateRandomGenome(), 1, config.initialEnvVariance, plantId(1, i)));
   }
-  return plants;
+  return assignBreedingValues(plants);
 };
 
+// Haploid product of meiosis; donor flags travel with the alleles
+interface Gamete {
+  alleles: Uint8Array;
+  donor: Uint8Array | null; // 1 where the allele is donor-derived (null if the parent has no donor alleles)
+}
+
 // Meiosis: Create gamete from diploid parent
-const createGamete = (parent: Plant): number[] => {
-  const gamete: number[] = [];
-
-  if (!parent.genome.diploid) {
-    // Fallback for old format
-    for (let i = 0; i < GENOME_LENGTH; i++) {
-      const alleles = parent.genome.loci[i];
-      if (alleles === 0) gamete.push(0);
-      else if (alleles === 2) gamete.push(1);
-      else gamete.push(Math.random() < 0.5 ? 0 : 1);
-    }
-  } else {
-    // Proper meiosis from diploid
-    for (let i = 0; i < parent.genome.diploid.length; i++) {
-      const allele = parent.genome.diploid[i];
-      // Randomly inherit maternal or paternal
-      gamete.push(Math.random() < 0.5 ? allele.maternal : allele.paternal);
-    }
+// Each chromosome starts on a random strand and switches strand at every crossover.
+// Crossovers between adjacent loci occur with the recombination fraction given by the
+// mapping function, so tightly linked loci are usually inherited together.
+// Each transmitted allele then mutates (0 ↔ 1) with the per-locus mutation rate.
+const createGamete = (parent: Plant, mutationRate: number = 0): Gamete => {
+  const { maternal, paternal, donor: origin } = parent.genome;
+  const length = maternal.length;
+  const alleles = new Uint8Array(length);
+  const donor = origin ? new Uint8Array(length) : null;
+  const placed = new Uint8Array(length);
+
+  // Copy one locus from the chosen strand
+  const take = (i: number, fromMaternal: boolean) => {
+    alleles[i] = fromMaternal ? maternal[i] : paternal[i];
+    if (donor && origin) donor[i] = origin[i] & (fromMaternal ? DONOR_MATERNAL : DONOR_PATERNAL) ? 1 : 0;
+    placed[i] = 1;
+  };
+
+  getArchitecture().map.forEach(chr => {
+    let fromMaternal = random() < 0.5;
+    let lastPosition: number | null = null;
+
+    chr.loci.forEach(({ index, position }) => {
+      if (index >= length) return;
+      if (lastPosition !== null && random() < recombinationFraction(position - lastPosition)) {
+        fromMaternal = !fromMaternal; // Crossover
+      }
+      take(index, fromMaternal);
+      lastPosition = position;
+    });
+  });
+
+  // Unmapped loci assort independently
+  for (let i = 0; i < length; i++) {
+    if (!placed[i]) take(i, random() < 0.5);
   }
 
-  // Crossing over (recombination) - swap adjacent alleles occasionally
-  for (let i = 0; i < gamete.length - 1; i++) {
-    if (Math.random() < 0.1) { // 10% crossover rate
-      const temp = gamete[i];
-      gamete[i] = gamete[i + 1];
-      gamete[i + 1] = temp;
+  // Recurrent mutation; no draws are made at rate 0 so unmutated runs replay unchanged
+  if (mutationRate > 0) {
+    for (let i = 0; i < length; i++) {
+      if (random() < mutationRate) alleles[i] = 1 - alleles[i];
     }
   }
 
-  return gamete;
+  return { alleles, donor };
 };
 
-// Fertilization: Combine two gametes
-const cross = (parent1: Plant, parent2: Plant, generation: number, envVariance: number): Plant => {
-  const g1 = createGamete(parent1);
-  const g2 = createGamete(parent2);
+// Pair two gametes into a genome, keeping donor flags only if some allele is donor-derived
+const zygote = (g1: Gamete, g2: Gamete): Genome => {
+  const maternal = g1.alleles;
+  const paternal = g1 === g2 ? new Uint8Array(g2.alleles) : g2.alleles;
+  if (!g1.donor && !g2.donor) return createGenome(maternal, paternal);
+
+  const donor = new Uint8Array(maternal.length);
+  let any = false;
+  for (let i = 0; i < donor.length; i++) {
+    donor[i] = (g1.donor?.[i] ? DONOR_MATERNAL : 0) | (g2.donor?.[i] ? DONOR_PATERNAL : 0);
+    if (donor[i]) any = true;
+  }
+  return createGenome(maternal, paternal, any ? donor : undefined);
+};
 
-  // Create diploid zygote
-  const diploid: Allele[] = g1.map((m, i) => ({
-    maternal: m as 0 | 1,
-    paternal: (g2[i] || 0) as 0 | 1,
-  }));
+// Fertilization: Combine two gametes. `index` numbers the offspring within its generation.
+export const cross = (parent1: Plant, parent2: Plant, generation: number, index: number, envVariance: number, mutationRate: number = 0): Plant => {
+  const genome = zygote(createGamete(parent1, mutationRate), createGamete(parent2, mutationRate));
+  return {
+    ...evaluatePlant(genome, generation, envVariance, plantId(generation, index)),
+    motherId: parent1.id,
+    fatherId: parent2.id,
+  };
+};
 
-  const loci = diploid.map(a => diploidToAdditive(a));
+// Chromosome doubling of a single gamete: a completely homozygous line in one generation
+export const doubledHaploid = (parent: Plant, generation: number, index: number, envVariance: number, mutationRate: number = 0): Plant => {
+  const g = createGamete(parent, mutationRate);
+  return { ...evaluatePlant(zygote(g, g), generation, envVariance, plantId(generation, index)), motherId: parent.id };
+};
 
-  return evaluatePlant({ loci, diploid }, generation, envVariance);
+// Donor plants for germplasm introduction. The favourable allele at a trait locus is the
+// one that moves the trait in its breeding direction; other loci are at p = 0.5.
+// Inbred donors (elite lines) carry the same allele on both strands. Donors are numbered
+// within their generation, after any already in the pedigree, so repeated introductions
+// never reuse an id.
+export const createDonorPlants = (
+  profile: GermplasmProfile,
+  count: number,
+  generation: number,
+  envVariance: number,
+  pedigree: Pedigree = {}
+): Plant[] => {
+  const arch = getArchitecture();
+  const { favourableFrequency, inbred } = GERMPLASM_PROFILES.find(g => g.id === profile)!;
+
+  const pFavourable = new Array(arch.genomeLength).fill(0.5);
+  arch.traits.forEach(trait => {
+    const sign = trait.direction === 'decrease' ? -1 : 1;
+    trait.lociIndices.forEach((idx, k) => {
+      const effect = (trait.alleleEffects?.[k] ?? 1) * sign;
+      if (effect !== 0) pFavourable[idx] = effect > 0 ? favourableFrequency : 1 - favourableFrequency;
+    });
+  });
+
+  const donors: Plant[] = [];
+  let number = 1;
+  for (let n = 0; n < count; n++) {
+    const draw = (i: number) => (random() < pFavourable[i] ? 1 : 0);
+    const maternal = new Uint8Array(pFavourable.length);
+    const paternal = new Uint8Array(pFavourable.length);
+    pFavourable.forEach((_, i) => {
+      maternal[i] = draw(i);
+      paternal[i] = inbred ? maternal[i] : draw(i);
+    });
+    const donor = new Uint8Array(pFavourable.length).fill(DONOR_MATERNAL | DONOR_PATERNAL);
+    const genome = createGenome(maternal, paternal, donor);
+    while (pedigree[`donor${generation}-${number}`]) number++;
+    const id = `donor${generation}-${number++}`;
+    donors.push({ ...evaluatePlant(genome, generation, envVariance, id), inbreeding: inbred ? 1 : 0 });
+  }
+  return donors;
+};
+
+// Homozygous recessive tester (aa at every locus), the classic test-cross partner
+export const createTesterPlant = (generation: number, envVariance: number): Plant => {
+  const length = getArchitecture().genomeLength;
+  const genome = createGenome(new Uint8Array(length), new Uint8Array(length));
+  return evaluatePlant(genome, generation, envVariance, `tester-aa-g${generation}`);
 };
 
 export const breedNextGeneration = (
   parents: Plant[],
   currentGeneration: number,
-  envVariance: number
+  envVariance: number,
+  design: MatingDesign = 'random',
+  referenceParent: Plant | null = null,
+  mutationRate: number = 0,
+  contributions: Record<string, number> | null = null,
+  config: ProgramConfig = DEFAULT_PROGRAM_CONFIG
 ): Plant[] => {
-  const nextGen: Plant[] = [];
-
-  // Random mating among selected parents
-  for (let i = 0; i < POPULATION_SIZE; i++) {
-    const p1 = parents[Math.floor(Math.random() * parents.length)];
-    let p2 = parents[Math.floor(Math.random() * parents.length)];
-
-    // Avoid selfing if possible
-    let attempts = 0;
-    while (p1.id === p2.id && attempts < 5 && parents.length > 1) {
-      p2 = parents[Math.floor(Math.random() * parents.length)];
-      attempts++;
-    }
+  const generation = currentGeneration + 1;
+  const tester = design === 'testcross' && !referenceParent
+    ? createTesterPlant(currentGeneration, envVariance)
+    : referenceParent;
 
-    nextGen.push(cross(p1, p2, currentGeneration + 1, envVariance));
-  }
+  const matings = planMatings(design, parents, { offspringCount: config.offspringCount, referenceParent: tester, contributions });
+
+  const nextGen = matings.map(({ mother, father }, i) => father
+    ? cross(mother, father, generation, i, envVariance, mutationRate)
+    : doubledHaploid(mother, generation, i, envVariance, mutationRate));
 
-  return nextGen;
+  return assignBreedingValues(nextGen);
 };
 
-export const calculateStats = (population: Plant[], generation: number): PopulationStats => {
-  const yields = population.map(p => p.phenotype.yield);
-  const res = population.map(p => p.phenotype.resistance);
-  const heights = population.map(p => p.phenotype.height);
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
 
-  const meanYield = yields.reduce((a, b) => a + b, 0) / population.length;
-  const maxYield = Math.max(...yields);
-  const meanRes = res.reduce((a, b) => a + b, 0) / population.length;
-  const meanHeight = heights.reduce((a, b) => a + b, 0) / population.length;
+const variance = (values: number[]): number => {
+  const m = mean(values);
+  return values.reduce((a, b) => a + (b - m) ** 2, 0) / values.length;
+};
 
-  const variance = yields.reduce((a, b) => a + Math.pow(b - meanYield, 2), 0) / population.length;
+// Partition the phenotypic variance of each trait using the simulated true values
+export const calculateVarianceComponents = (population: Plant[]): Record<string, VarianceComponents> => {
+  const components: Record<string, VarianceComponents> = {};
+  getArchitecture().traits.forEach(trait => {
+    const phenotypic = variance(population.map(p => p.phenotype[trait.id]));
+    const additive = variance(population.map(p => p.breedingValue[trait.id]));
+    components[trait.id] = {
+      phenotypic: parseFloat(phenotypic.toFixed(3)),
+      additive: parseFloat(additive.toFixed(3)),
+      genotypic: parseFloat(variance(population.map(p => p.genotypicValue[trait.id])).toFixed(3)),
+      environmental: parseFloat(variance(population.map(p => p.phenotype[trait.id] - p.genotypicValue[trait.id])).toFixed(3)),
+      heritability: phenotypic > 0 ? parseFloat(Math.min(1, additive / phenotypic).toFixed(3)) : 0,
+    };
+  });
+  return components;
+};
 
-  // Calculate average heterozygosity
-  let totalHet = 0;
-  population.forEach(p => {
-    if (p.genome.diploid) {
-      totalHet += p.genome.diploid.filter(a => isHet(a)).length / p.genome.diploid.length;
-    }
+// Breeder's equation check: S from the selected parents, R from their offspring,
+// both measured against the mean of the candidates the parents were chosen from
+export const selectionResponse = (candidates: Plant[], parents: Plant[], offspring: Plant[]): Record<string, SelectionResponse> => {
+  const components = calculateVarianceComponents(candidates);
+  const response: Record<string, SelectionResponse> = {};
+  getArchitecture().traits.forEach(trait => {
+    const base = mean(candidates.map(p => p.phenotype[trait.id]));
+    const S = mean(parents.map(p => p.phenotype[trait.id])) - base;
+    const R = mean(offspring.map(p => p.phenotype[trait.id])) - base;
+    response[trait.id] = {
+      differential: parseFloat(S.toFixed(3)),
+      observed: parseFloat(R.toFixed(3)),
+      predicted: parseFloat((components[trait.id].heritability * S).toFixed(3)),
+      realizedHeritability: Math.abs(S) > 1e-6 ? parseFloat((R / S).toFixed(3)) : null,
+    };
   });
-  const avgHet = totalHet / population.length;
+  return response;
+};
+
+// Frequency of the favourable allele at every locus
+// Neutral marker loci past the last QTL have no favourable allele and are not tracked.
+export const favourableAlleleFrequencies = (population: Plant[]): number[] => {
+  if (population.length === 0) return [];
+  const arch = getArchitecture();
+  const length = Math.min(genomeSize(population[0].genome), requiredGenomeLength(arch));
+  return Array.from({ length }, (_, i) => {
+    const count = population.reduce((sum, p) => sum + dosage(p.genome, i), 0);
+    const p1 = count / (2 * population.length);
+    return parseFloat((favourableAllele(i, arch) === 1 ? p1 : 1 - p1).toFixed(3));
+  });
+};
+
+// Loci that became fixed or lost the favourable allele since the previous generation
+const detectAlleleEvents = (frequencies: number[], previous: number[] | undefined): AlleleEvent[] => {
+  const arch = getArchitecture();
+  const events: AlleleEvent[] = [];
+  frequencies.forEach((p, locus) => {
+    const before = previous?.[locus];
+    const trait = traitForLocus(locus, arch)?.id;
+    if (p === 1 && before !== 1) events.push({ locus, kind: 'fixed', trait });
+    if (p === 0 && before !== 0) events.push({ locus, kind: 'lost', trait });
+  });
+  return events;
+};
+
+// previous: stats of the parent generation, for fixation and loss events
+export const calculateStats = (population: Plant[], generation: number, previous?: PopulationStats): PopulationStats => {
+  const means: TraitValues = {};
+  const variances: TraitValues = {};
+  const maxima: TraitValues = {};
+
+  getArchitecture().traits.forEach(trait => {
+    const values = population.map(p => p.phenotype[trait.id]);
+    means[trait.id] = parseFloat(mean(values).toFixed(2));
+    variances[trait.id] = parseFloat(variance(values).toFixed(2));
+    maxima[trait.id] = parseFloat(Math.max(...values).toFixed(2));
+  });
+
+  // Calculate average heterozygosity
+  const avgHet = population.reduce((sum, p) => sum + genomeHeterozygosity(p.genome), 0) / population.length;
+  const meanF = population.reduce((sum, p) => sum + (p.inbreeding || 0), 0) / population.length;
+  const meanDonor = population.reduce((sum, p) => sum + donorFraction(p.genome), 0) / population.length;
+  const alleleFrequencies = favourableAlleleFrequencies(population);
+  const deltaF = previous && previous.meanInbreeding < 1
+    ? (meanF - previous.meanInbreeding) / (1 - previous.meanInbreeding)
+    : null;
 
   return {
     generation,
     size: population.length,
-    meanYield: parseFloat(meanYield.toFixed(2)),
-    varYield: parseFloat(variance.toFixed(2)),
-    meanResistance: parseFloat(meanRes.toFixed(2)),
-    meanHeight: parseFloat(meanHeight.toFixed(2)),
-    maxYield: parseFloat(maxYield.toFixed(2)),
+    means,
+    variances,
+    maxima,
+    components: calculateVarianceComponents(population),
+    meanYield: means.yield ?? 0,
+    varYield: variances.yield ?? 0,
+    meanResistance: means.resistance ?? 0,
+    meanHeight: means.height ?? 0,
+    maxYield: maxima.yield ?? 0,
     heterozygosity: parseFloat(avgHet.toFixed(3)),
+    meanInbreeding: parseFloat(meanF.toFixed(3)),
+    deltaF: deltaF === null ? null : parseFloat(deltaF.toFixed(4)),
+    effectiveSize: deltaF !== null && deltaF > 0 ? parseFloat((1 / (2 * deltaF)).toFixed(1)) : null,
+    donorProportion: parseFloat(meanDonor.toFixed(3)),
+    alleleFrequencies,
+    alleleEvents: detectAlleleEvents(alleleFrequencies, previous?.alleleFrequencies),
+    gsAccuracy: predictionAccuracy(population),
   };
 };
 
 // Bell Curve data for visualization
-export const getBellCurveData = (population: Plant[], selectedIds: Set<string>, trait: 'yield' | 'resistance' | 'height' = 'yield') => {
+export const getBellCurveData = (population: Plant[], selectedIds: Set<string>, trait: string = getArchitecture().traits[0].id) => {
   const values = population.map(p => p.phenotype[trait]);
   const min = Math.floor(Math.min(...values));
   const max = Math.ceil(Math.max(...values));
@@ -0,0 +1,60 @@
+import { Allele, Genome } from '../types';
+
+// Packed genomes: one Uint8Array per strand (0 = a, 1 = A), so a plant costs
+// 2 bytes per locus and whole generations can be copied to and from the engine worker.
+
+export const createGenome = (maternal: Uint8Array, paternal: Uint8Array, donor?: Uint8Array): Genome =>
+  donor ? { maternal, paternal, donor } : { maternal, paternal };
+
+export const genomeSize = (genome: Genome): number => genome.maternal.length;
+
+// Allele dosage at a locus: 0 (aa), 1 (Aa) or 2 (AA)
+export const dosage = (genome: Genome, i: number): number => genome.maternal[i] + genome.paternal[i];
+
+// Dosage vector as a plain array (safe for arithmetic that leaves 0..255)
+export const dosages = (genome: Genome): number[] => {
+  const out = new Array<number>(genome.maternal.length);
+  for (let i = 0; i < out.length; i++) out[i] = genome.maternal[i] + genome.paternal[i];
+  return out;
+};
+
+export const alleleAt = (genome: Genome, i: number): Allele => ({
+  maternal: genome.maternal[i] as 0 | 1,
+  paternal: genome.paternal[i] as 0 | 1,
+});
+
+export const isHeterozygousAt = (genome: Genome, i: number): boolean => genome.maternal[i] !== genome.paternal[i];
+
+// Fraction of heterozygous loci
+export const heterozygosity = (genome: Genome): number => {
+  const n = genome.maternal.length;
+  if (n === 0) return 0;
+  let het = 0;
+  for (let i = 0; i < n; i++) if (genome.maternal[i] !== genome.paternal[i]) het++;
+  return het / n;
+};
+
+// Donor flags: bit 0 marks the maternal allele, bit 1 the paternal allele as introduced
+export const DONOR_MATERNAL = 1;
+export const DONOR_PATERNAL = 2;
+
+// Fraction of a plant's alleles descended from introduced germplasm
+export const donorFraction = (genome: Genome): number => {
+  if (!genome.donor || genome.donor.length === 0) return 0;
+  let count = 0;
+  for (let i = 0; i < genome.donor.length; i++) {
+    count += (genome.donor[i] & DONOR_MATERNAL ? 1 : 0) + (genome.donor[i] & DONOR_PATERNAL ? 1 : 0);
+  }
+  return count / (2 * genome.donor.length);
+};
+
+// ArrayBuffers backing a set of genomes, for zero-copy transfer to or from a worker
+export const genomeBuffers = (genomes: Genome[]): ArrayBuffer[] => {
+  const buffers = new Set<ArrayBuffer>();
+  genomes.forEach(g => {
+    buffers.add(g.maternal.buffer as ArrayBuffer);
+    buffers.add(g.paternal.buffer as ArrayBuffer);
+    if (g.donor) buffers.add(g.donor.buffer as ArrayBuffer);
+  });
+  return [...buffers];
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { createInitialPopulation } from './geneticsEngine';
+import { applyGenomicModel, fitGenomicModel, predictionAccuracy } from './genomicPrediction';
+
+const training = createInitialPopulation({ ...DEFAULT_PROGRAM_CONFIG, populationSize: 120 }, 5);
+
+describe('genomic prediction', () => {
+  it('gives the same GEBVs from rrBLUP and GBLUP', () => {
+    const rr = applyGenomicModel(training, fitGenomicModel(training, 'rrblup', 1));
+    const g = applyGenomicModel(training, fitGenomicModel(training, 'gblup', 1));
+    rr.forEach((p, i) => Object.entries(p.gebv!).forEach(([id, v]) => expect(g[i].gebv![id]).toBeCloseTo(v, 6)));
+  });
+
+  it('tracks the true breeding values in the training set', () => {
+    const predicted = applyGenomicModel(training, fitGenomicModel(training, 'rrblup', 1));
+    const accuracy = predictionAccuracy(predicted)!;
+    Object.values(accuracy).forEach(r => expect(r).toBeGreaterThan(0.5));
+  });
+
+  it('needs at least 2 phenotyped plants', () => {
+    expect(() => fitGenomicModel(training.slice(0, 1), 'gblup', 1)).toThrow();
+  });
+});
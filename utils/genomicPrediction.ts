@@ -0,0 +1,117 @@
+import { GenomicMethod, GenomicModel, Plant, TraitValues } from '../types';
+import { getArchitecture } from './architecture';
+import { cholesky, choleskyBackSolve, correlation, zeros } from './matrix';
+import { dosage, dosages, genomeSize } from './genome';
+
+// Genomic prediction from marker genotypes and phenotypes only - never the true values.
+// rrBLUP solves for marker effects directly, (Z'Z + λI)u = Z'(y − μ);
+// GBLUP solves in individual space with the VanRaden relationship G = ZZ'/Σ2pq and
+// back-solves the marker effects, so both give the same kind of model.
+
+// Centered genotype matrix Z (n × m), coded x − 2p
+const centeredGenotypes = (plants: Plant[], freq: number[]): number[][] =>
+  plants.map(p => dosages(p.genome).map((x, j) => x - 2 * freq[j]));
+
+export const fitGenomicModel = (
+  training: Plant[],
+  method: GenomicMethod,
+  generation: number,
+  h2: number = 0.5
+): GenomicModel => {
+  if (training.length < 2) throw new Error('Need at least 2 phenotyped plants to train a model.');
+  const m = genomeSize(training[0].genome);
+  const n = training.length;
+
+  const freq = new Array(m).fill(0);
+  training.forEach(p => {
+    for (let j = 0; j < m; j++) freq[j] += dosage(p.genome, j);
+  });
+  for (let j = 0; j < m; j++) freq[j] /= 2 * n;
+  const sum2pq = freq.reduce((s, p) => s + 2 * p * (1 - p), 0);
+
+  const z = centeredGenotypes(training, freq);
+  const ratio = (1 - h2) / Math.max(1e-6, h2); // σ²e / σ²g
+
+  // Precompute the normal-equation matrix shared by all traits
+  let lhs: number[][];
+  if (method === 'rrblup') {
+    const zt = Array.from({ length: m }, (_, a) => Float64Array.from(z, row => row[a])); // Marker-major, for Z'Z
+    lhs = zeros(m, m);
+    for (let a = 0; a < m; a++) {
+      const za = zt[a];
+      for (let b = a; b < m; b++) {
+        const zb = zt[b];
+        let sum = 0;
+        for (let i = 0; i < n; i++) sum += za[i] * zb[i];
+        lhs[a][b] = sum;
+        lhs[b][a] = sum;
+      }
+      lhs[a][a] += ratio * sum2pq;
+    }
+  } else {
+    lhs = zeros(n, n);
+    for (let i = 0; i < n; i++) {
+      for (let k = i; k < n; k++) {
+        let sum = 0;
+        for (let j = 0; j < m; j++) sum += z[i][j] * z[k][j];
+        const g = sum2pq > 0 ? sum / sum2pq : 0;
+        lhs[i][k] = g;
+        lhs[k][i] = g;
+      }
+      lhs[i][i] += ratio;
+    }
+  }
+
+  // Factored once; each trait only back-solves
+  const factor = sum2pq === 0 ? null : cholesky(lhs);
+
+  const traits: GenomicModel['traits'] = {};
+  getArchitecture().traits.forEach(trait => {
+    const y = training.map(p => p.phenotype[trait.id]);
+    const mean = y.reduce((a, b) => a + b, 0) / n;
+    const resid = y.map(v => v - mean);
+
+    let effects: number[];
+    if (!factor) {
+      effects = new Array(m).fill(0); // Everything fixed - nothing to predict with
+    } else if (method === 'rrblup') {
+      const rhs = new Array(m).fill(0);
+      for (let i = 0; i < n; i++) for (let j = 0; j < m; j++) rhs[j] += z[i][j] * resid[i];
+      effects = choleskyBackSolve(factor, rhs);
+    } else {
+      const alpha = choleskyBackSolve(factor, resid);
+      effects = new Array(m).fill(0);
+      for (let i = 0; i < n; i++) for (let j = 0; j < m; j++) effects[j] += z[i][j] * alpha[i];
+      effects = effects.map(u => u / sum2pq);
+    }
+    traits[trait.id] = { mean, effects };
+  });
+
+  return { method, trainedGeneration: generation, trainingSize: n, h2, freq, traits };
+};
+
+// GEBV = μ + Σ (x − 2p)·u
+export const predictGEBV = (plant: Plant, model: GenomicModel): TraitValues => {
+  const gebv: TraitValues = {};
+  Object.entries(model.traits).forEach(([id, { mean, effects }]) => {
+    let v = mean;
+    for (let j = 0; j < model.freq.length; j++) v += (dosage(plant.genome, j) - 2 * model.freq[j]) * (effects[j] ?? 0);
+    gebv[id] = parseFloat(v.toFixed(2));
+  });
+  return gebv;
+};
+
+export const applyGenomicModel = (plants: Plant[], model: GenomicModel): Plant[] =>
+  plants.map(p => ({ ...p, gebv: predictGEBV(p, model) }));
+
+// Prediction accuracy: correlation between GEBV and the simulator's true breeding value
+export const predictionAccuracy = (plants: Plant[]): TraitValues | undefined => {
+  const predicted = plants.filter(p => p.gebv);
+  if (predicted.length < 2) return undefined;
+  const accuracy: TraitValues = {};
+  getArchitecture().traits.forEach(trait => {
+    const r = correlation(predicted.map(p => p.gebv![trait.id]), predicted.map(p => p.breedingValue[trait.id]));
+    accuracy[trait.id] = parseFloat(r.toFixed(3));
+  });
+  return accuracy;
+};
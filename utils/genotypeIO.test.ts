@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Genome, Pedigree, Plant } from '../types';
+import { DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { breedNextGeneration, createInitialPopulation } from './geneticsEngine';
+import { exportHapMap, exportPlink, exportVcf, parseGenotypeFiles, parseHapMap, parsePlink, parseVcf } from './genotypeIO';
+import { recordGeneration } from './pedigree';
+
+// Founders with locus 3 fixed at allele 1 and locus 4 fixed at allele 0, as selection leaves them
+const founders = (): Plant[] => createInitialPopulation({ ...DEFAULT_PROGRAM_CONFIG, populationSize: 6 }, 7).map(p => {
+  const maternal = p.genome.maternal.slice();
+  const paternal = p.genome.paternal.slice();
+  maternal[3] = paternal[3] = 1;
+  maternal[4] = paternal[4] = 0;
+  return { ...p, genome: { maternal, paternal } };
+});
+
+const strands = (genomes: Genome[]) => genomes.map(g => [Array.from(g.maternal), Array.from(g.paternal)]);
+
+describe('genotype files', () => {
+  const plants = founders();
+
+  it('round-trips phased VCF', () => {
+    const panel = parseVcf(exportVcf(plants));
+    expect(panel.format).toBe('vcf');
+    expect(panel.sampleIds).toEqual(plants.map(p => p.id));
+    expect(panel.missing).toBe(0);
+    expect(strands(panel.genomes)).toEqual(strands(plants.map(p => p.genome)));
+  });
+
+  it('round-trips HapMap', () => {
+    const panel = parseHapMap(exportHapMap(plants));
+    expect(strands(panel.genomes)).toEqual(strands(plants.map(p => p.genome)));
+  });
+
+  it('round-trips PLINK, keeping loci fixed for either allele', () => {
+    const { ped, map } = exportPlink(plants);
+    const panel = parsePlink(ped, map);
+    expect(panel.loci).toBe(plants[0].genome.maternal.length);
+    expect(panel.genomes.every(g => g.maternal[3] === 1 && g.paternal[3] === 1)).toBe(true);
+    expect(panel.genomes.every(g => g.maternal[4] === 0 && g.paternal[4] === 0)).toBe(true);
+    expect(strands(panel.genomes)).toEqual(strands(plants.map(p => p.genome)));
+  });
+
+  it('reads PLINK missing calls as allele 0 and rejects other allele codes', () => {
+    const panel = parsePlink('fam s1 0 0 0 -9 G 0 A G\n');
+    expect(panel.missing).toBe(1);
+    expect(Array.from(panel.genomes[0].maternal)).toEqual([1, 0]);
+    expect(Array.from(panel.genomes[0].paternal)).toEqual([0, 1]);
+    expect(() => parsePlink('fam s1 0 0 0 -9 C T\n')).toThrow(/A\/G/);
+  });
+
+  it('picks the parser from the file extension', () => {
+    const { ped, map } = exportPlink(plants);
+    expect(parseGenotypeFiles([{ name: 'panel.map', text: map }, { name: 'panel.ped', text: ped }]).format).toBe('plink');
+    expect(parseGenotypeFiles([{ name: 'panel.hmp.txt', text: exportHapMap(plants) }]).format).toBe('hapmap');
+    expect(() => parseGenotypeFiles([{ name: 'panel.csv', text: '' }])).toThrow();
+  });
+
+  it('breeds an exported F3 again without its founders sharing ids with their offspring', () => {
+    const config = { ...DEFAULT_PROGRAM_CONFIG, populationSize: 6 };
+    const selfTwice = (start: { pedigree: Pedigree; plants: Plant[] }) => {
+      let { pedigree, plants: current } = start;
+      for (const generation of [1, 2]) {
+        ({ pedigree, plants: current } = recordGeneration(pedigree, breedNextGeneration(current, generation, 6, 'selfing', null, 0, null, config)));
+      }
+      return { pedigree, plants: current };
+    };
+
+    const f3 = selfTwice(recordGeneration({}, createInitialPopulation(config, 7))).plants;
+    const imported = createInitialPopulation(config, 9, parseVcf(exportVcf(f3)));
+    expect(imported.map(p => p.name)).toEqual(f3.map(p => p.id));
+    expect(imported[0].id).toBe(`founder:${f3[0].id}`);
+
+    // The panel's F is unknown, so its founders start at 0 and two selfs give 0.75
+    const bred = selfTwice(recordGeneration({}, imported));
+    expect(bred.plants.map(p => p.id)).toEqual(f3.map(p => p.id));
+    expect(bred.plants.every(p => p.inbreeding === 0.75)).toBe(true);
+    expect(bred.pedigree[imported[0].id].motherId).toBeNull();
+  });
+});
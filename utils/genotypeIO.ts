@@ -0,0 +1,197 @@
+import { FounderPanel, GeneticArchitecture, GenotypeFormat, Plant } from '../types';
+import { getArchitecture } from './architecture';
+import { createGenome, genomeSize } from './genome';
+
+// Genotype files for external tools. Allele 0 is written as A and allele 1 as G (VCF REF
+// and ALT). Loci are named L<index> and placed on the crop's genetic map at 1 Mb per cM;
+// unmapped loci go on chromosome 0 at bp = index + 1. Phase is kept: the maternal strand
+// comes first in every genotype.
+
+const BASES = ['A', 'G'] as const;
+const BP_PER_CM = 1_000_000;
+const UNMAPPED = '0';
+
+interface LocusRow {
+  index: number;
+  id: string;
+  chromosome: string; // Map name, or '0' if unmapped
+  chromosomeNumber: number; // 1-based map order for PLINK (0 = unmapped)
+  cM: number;
+  bp: number;
+}
+
+// Loci in map order, the order every format expects
+const locusTable = (length: number, arch: GeneticArchitecture): LocusRow[] => {
+  const rows: LocusRow[] = [];
+  const mapped = new Set<number>();
+  arch.map.forEach((chr, c) => chr.loci.forEach(l => {
+    if (l.index >= length) return;
+    mapped.add(l.index);
+    rows.push({ index: l.index, id: `L${l.index}`, chromosome: chr.name, chromosomeNumber: c + 1, cM: l.position, bp: Math.round(l.position * BP_PER_CM) + 1 });
+  }));
+  for (let i = 0; i < length; i++) {
+    if (!mapped.has(i)) rows.push({ index: i, id: `L${i}`, chromosome: UNMAPPED, chromosomeNumber: 0, cM: 0, bp: i + 1 });
+  }
+  return rows;
+};
+
+const lociOf = (plants: Plant[], arch: GeneticArchitecture) =>
+  locusTable(plants.length ? genomeSize(plants[0].genome) : arch.genomeLength, arch);
+
+// Phased VCF 4.2 with one sample per plant
+export const exportVcf = (plants: Plant[], arch: GeneticArchitecture = getArchitecture()): string => {
+  const rows = lociOf(plants, arch);
+  const contigs = [...new Set(rows.map(r => r.chromosome))];
+  const lines = [
+    '##fileformat=VCFv4.2',
+    `##source=CornBreeder (${arch.name})`,
+    ...contigs.map(c => `##contig=<ID=${c}>`),
+    '##FORMAT=<ID=GT,Number=1,Type=String,Description="Phased genotype, maternal|paternal">',
+    ['#CHROM', 'POS', 'ID', 'REF', 'ALT', 'QUAL', 'FILTER', 'INFO', 'FORMAT', ...plants.map(p => p.id)].join('\t'),
+  ];
+  rows.forEach(r => lines.push([
+    r.chromosome, r.bp, r.id, BASES[0], BASES[1], '.', 'PASS', '.', 'GT',
+    ...plants.map(p => `${p.genome.maternal[r.index]}|${p.genome.paternal[r.index]}`),
+  ].join('\t')));
+  return lines.join('\n') + '\n';
+};
+
+// HapMap (TASSEL) with two-letter diploid calls
+export const exportHapMap = (plants: Plant[], arch: GeneticArchitecture = getArchitecture()): string => {
+  const header = ['rs#', 'alleles', 'chrom', 'pos', 'strand', 'assembly#', 'center', 'protLSID', 'assayLSID', 'panelLSID', 'QCcode', ...plants.map(p => p.id)];
+  const lines = [header.join('\t')];
+  lociOf(plants, arch).forEach(r => lines.push([
+    r.id, `${BASES[0]}/${BASES[1]}`, r.chromosomeNumber, r.bp, '+', 'NA', 'NA', 'NA', 'NA', 'NA', 'NA',
+    ...plants.map(p => BASES[p.genome.maternal[r.index]] + BASES[p.genome.paternal[r.index]]),
+  ].join('\t')));
+  return lines.join('\n') + '\n';
+};
+
+// PLINK text fileset: .ped carries the pedigree (father, mother) and genotypes, .map the loci
+export const exportPlink = (plants: Plant[], arch: GeneticArchitecture = getArchitecture()): { ped: string; map: string } => {
+  const rows = lociOf(plants, arch);
+  const ped = plants.map(p => [
+    p.id, p.id, p.fatherId ?? '0', p.motherId ?? '0', '0', '-9',
+    ...rows.map(r => `${BASES[p.genome.maternal[r.index]]} ${BASES[p.genome.paternal[r.index]]}`),
+  ].join(' ')).join('\n') + '\n';
+  const map = rows.map(r => [r.chromosomeNumber, r.id, r.cM, r.bp].join('\t')).join('\n') + '\n';
+  return { ped, map };
+};
+
+// Phenotype table (taxa × traits), tab-separated, as read by TASSEL, GAPIT and rrBLUP
+export const exportPhenotypes = (plants: Plant[], arch: GeneticArchitecture = getArchitecture()): string =>
+  [['Taxa', ...arch.traits.map(t => t.id)].join('\t'), ...plants.map(p => [p.id, ...arch.traits.map(t => p.phenotype[t.id])].join('\t'))]
+    .join('\n') + '\n';
+
+// Importers -----------------------------------------------------------------------------
+
+// Genome index of every locus: L<index> names are read back as written, anything else
+// takes the file order
+const locusIndices = (ids: string[]): number[] => {
+  const named = ids.map(id => /^L(\d+)$/.exec(id));
+  if (named.every(Boolean) && new Set(ids).size === ids.length) return named.map(m => Number(m![1]));
+  return ids.map((_, i) => i);
+};
+
+// Assemble genomes from per-locus, per-sample allele pairs (-1 = missing)
+const buildPanel = (format: GenotypeFormat, sampleIds: string[], locusIds: string[], calls: (locus: number, sample: number) => [number, number]): FounderPanel => {
+  if (sampleIds.length === 0) throw new Error('The genotype file has no samples.');
+  if (locusIds.length === 0) throw new Error('The genotype file has no markers.');
+  const indices = locusIndices(locusIds);
+  const loci = Math.max(...indices) + 1;
+  let missing = 0;
+  const genomes = sampleIds.map((_, s) => {
+    const maternal = new Uint8Array(loci);
+    const paternal = new Uint8Array(loci);
+    indices.forEach((index, l) => {
+      const [m, p] = calls(l, s);
+      if (m < 0) missing++;
+      if (p < 0) missing++;
+      maternal[index] = m > 0 ? 1 : 0;
+      paternal[index] = p > 0 ? 1 : 0;
+    });
+    return createGenome(maternal, paternal);
+  });
+  return { format, sampleIds: uniqueIds(sampleIds), genomes, loci, missing };
+};
+
+// Sample names must be unique, since each one names a founder's id
+const uniqueIds = (ids: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return ids.map(id => {
+    const n = seen.get(id) ?? 0;
+    seen.set(id, n + 1);
+    return n === 0 ? id : `${id}_${n + 1}`;
+  });
+};
+
+const dataLines = (text: string): string[] => text.split(/\r?\n/).filter(line => line.trim() !== '');
+
+// VCF: GT field of each sample; phased or not, the first allele is taken as maternal
+export const parseVcf = (text: string): FounderPanel => {
+  const lines = dataLines(text).filter(l => !l.startsWith('##'));
+  const header = lines.find(l => l.startsWith('#CHROM'));
+  if (!header) throw new Error('Not a VCF file: the #CHROM header line is missing.');
+  const samples = header.split('\t').slice(9);
+  const records = lines.filter(l => !l.startsWith('#')).map(l => l.split('\t'));
+  const allele = (a: string | undefined) => (a === undefined || a === '.' ? -1 : Number(a) > 0 ? 1 : 0);
+  return buildPanel('vcf', samples, records.map((r, i) => (r[2] && r[2] !== '.' ? r[2] : `${r[0]}:${r[1]}:${i}`)), (l, s) => {
+    const fields = records[l][8]?.split(':') ?? ['GT'];
+    const gt = (records[l][9 + s] ?? '.').split(':')[Math.max(0, fields.indexOf('GT'))];
+    const [m, p] = gt.split(/[|/]/);
+    return [allele(m), allele(p ?? m)];
+  });
+};
+
+// IUPAC codes for heterozygous single-letter HapMap calls
+const IUPAC: Record<string, string> = { R: 'AG', Y: 'CT', S: 'CG', W: 'AT', K: 'GT', M: 'AC' };
+
+// HapMap: allele 0 is the first of the `alleles` column (e.g. A in A/G)
+export const parseHapMap = (text: string): FounderPanel => {
+  const lines = dataLines(text).map(l => l.split('\t'));
+  if (lines.length === 0 || lines[0][0] !== 'rs#') throw new Error('Not a HapMap file: the header must start with rs#.');
+  const samples = lines[0].slice(11);
+  const records = lines.slice(1);
+  return buildPanel('hapmap', samples, records.map(r => r[0]), (l, s) => {
+    const first = records[l][1].split('/')[0];
+    const raw = (records[l][11 + s] ?? 'N').toUpperCase();
+    const call = raw.length === 1 ? IUPAC[raw] ?? raw + raw : raw;
+    const allele = (b: string) => (b === 'N' || b === '-' || b === '0' ? -1 : b === first ? 0 : 1);
+    return [allele(call[0]), allele(call[1])];
+  });
+};
+
+// PLINK .ped (with its .map for the locus names, if given). PLINK carries no reference
+// allele, so the calls are read in the coding exportPlink writes: A is allele 0 and G is
+// allele 1, whichever of them a locus happens to carry.
+export const parsePlink = (ped: string, map?: string): FounderPanel => {
+  const rows = dataLines(ped).map(l => l.trim().split(/\s+/));
+  const loci = rows.length ? (rows[0].length - 6) / 2 : 0;
+  if (!Number.isInteger(loci) || rows.some(r => r.length !== rows[0].length)) {
+    throw new Error('Not a PLINK .ped file: every line needs 6 columns plus two alleles per marker.');
+  }
+  const mapIds = map ? dataLines(map).map(l => l.trim().split(/\s+/)[1]) : [];
+  if (map && mapIds.length !== loci) throw new Error(`The .map file lists ${mapIds.length} markers but the .ped file has ${loci}.`);
+  const locusIds = map ? mapIds : Array.from({ length: loci }, (_, l) => `marker${l + 1}`);
+  return buildPanel('plink', rows.map(r => r[1]), locusIds, (l, s) => {
+    const allele = (a: string) => {
+      if (a === '0') return -1;
+      const code = (BASES as readonly string[]).indexOf(a.toUpperCase());
+      if (code < 0) throw new Error(`PLINK calls must use ${BASES.join('/')} (or 0 for missing); ${rows[s][1]} has ${a} at ${locusIds[l]}.`);
+      return code;
+    };
+    return [allele(rows[s][6 + 2 * l]), allele(rows[s][7 + 2 * l])];
+  });
+};
+
+// Read a founder panel from the selected files, by extension (.vcf, .hmp/.hmp.txt, .ped + .map)
+export const parseGenotypeFiles = (files: { name: string; text: string }[]): FounderPanel => {
+  const find = (pattern: RegExp) => files.find(f => pattern.test(f.name.toLowerCase()));
+  const vcf = find(/\.vcf$/);
+  if (vcf) return parseVcf(vcf.text);
+  const hmp = find(/\.hmp(\.txt)?$/);
+  if (hmp) return parseHapMap(hmp.text);
+  const ped = find(/\.ped$/);
+  if (ped) return parsePlink(ped.text, find(/\.map$/)?.text);
+  throw new Error('Choose a .vcf, .hmp.txt or .ped (with its .map) file.');
+};
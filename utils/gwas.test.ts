@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { createInitialPopulation } from './geneticsEngine';
+import { dosage } from './genome';
+import { runGwas, significanceThreshold, studentTPValue } from './gwas';
+import { randomNormal, setSeed } from './random';
+
+// Founders whose yield is driven by one large-effect locus plus noise
+const QTL = 12;
+const founders = createInitialPopulation(DEFAULT_PROGRAM_CONFIG, 17);
+setSeed(17);
+const plants = founders.map(p => ({ ...p, phenotype: { ...p.phenotype, yield: 4 * dosage(p.genome, QTL) + randomNormal() } }));
+
+describe('GWAS', () => {
+  it('finds a large-effect QTL as the strongest association', () => {
+    const result = runGwas(plants, 'yield', 'bonferroni');
+    expect(result.significant).toContain(QTL);
+    const best = result.associations.reduce((a, b) => (b.pValue < a.pValue ? b : a));
+    expect(best.locus).toBe(QTL);
+    expect(best.effect).toBeGreaterThan(3);
+    expect(result.threshold).toBeCloseTo(0.05 / result.associations.length, 12);
+  });
+
+  it('draws the Bonferroni and Benjamini-Hochberg lines where they belong', () => {
+    const p = [0.001, 0.02, 0.03, 0.5];
+    expect(significanceThreshold(p, 'bonferroni', 0.05)).toBe(0.0125);
+    expect(significanceThreshold(p, 'fdr', 0.05)).toBe(0.03);
+    // No discoveries: the first BH step
+    expect(significanceThreshold([0.5, 0.9], 'fdr', 0.05)).toBe(0.025);
+    // The FDR scan keeps every Bonferroni hit
+    const fdr = runGwas(plants, 'yield', 'fdr');
+    expect(fdr.significant).toEqual(expect.arrayContaining(runGwas(plants, 'yield', 'bonferroni').significant));
+  });
+
+  it('gives two-sided t-test p-values', () => {
+    expect(studentTPValue(0, 10)).toBeCloseTo(1, 9);
+    expect(studentTPValue(2.228, 10)).toBeCloseTo(0.05, 3);
+    expect(studentTPValue(5, 0)).toBe(1);
+  });
+});
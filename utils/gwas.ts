@@ -0,0 +1,124 @@
+import { GwasResult, MarkerAssociation, MultipleTestCorrection, Plant } from '../types';
+import { getArchitecture } from './architecture';
+import { findLocus } from './geneticMap';
+import { dosage, genomeSize } from './genome';
+
+// Genome-wide association scan: single-marker regression of phenotype on allele dosage
+// (y = μ + b·x + e, x = 0/1/2) at every locus, tested with a t-test on b.
+
+// log Γ(x), Lanczos approximation
+const logGamma = (x: number): number => {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const ci of c) ser += ci / ++y;
+  return -tmp + Math.log(2.5066282746310005 * ser / x);
+};
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d; if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c; if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d; if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c; if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-12) break;
+  }
+  return h;
+};
+
+// Regularized incomplete beta I_x(a, b)
+const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+};
+
+// Two-sided p-value of Student's t with df degrees of freedom
+export const studentTPValue = (t: number, df: number): number =>
+  df > 0 && Number.isFinite(t) ? incompleteBeta(df / (df + t * t), df / 2, 0.5) : 1;
+
+// Regression of y on one marker; monomorphic markers carry no information (p = 1)
+const testMarker = (x: number[], y: number[]): { effect: number; se: number; pValue: number } => {
+  const n = x.length;
+  const mx = x.reduce((a, b) => a + b, 0) / n;
+  const my = y.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0, sxy = 0, syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (x[i] - mx) ** 2;
+    sxy += (x[i] - mx) * (y[i] - my);
+    syy += (y[i] - my) ** 2;
+  }
+  if (sxx === 0 || n < 3) return { effect: 0, se: 0, pValue: 1 };
+  const effect = sxy / sxx;
+  const residual = Math.max(0, syy - effect * sxy) / (n - 2);
+  const se = Math.sqrt(residual / sxx);
+  const pValue = se === 0 ? 0 : studentTPValue(effect / se, n - 2);
+  return { effect, se, pValue };
+};
+
+// Per-test p threshold: Bonferroni (α/m) or the Benjamini-Hochberg step-up cut-off at FDR α
+export const significanceThreshold = (pValues: number[], correction: MultipleTestCorrection, alpha: number): number => {
+  const m = pValues.length;
+  if (m === 0) return alpha;
+  if (correction === 'bonferroni') return alpha / m;
+  const sorted = [...pValues].sort((a, b) => a - b);
+  let cutoff = 0;
+  sorted.forEach((p, k) => {
+    if (p <= ((k + 1) / m) * alpha) cutoff = p;
+  });
+  // With no discoveries the line is drawn at the first BH step
+  return cutoff > 0 ? cutoff : alpha / m;
+};
+
+// Scan every locus for association with one trait
+export const runGwas = (
+  plants: Plant[],
+  traitId: string,
+  correction: MultipleTestCorrection = 'bonferroni',
+  alpha: number = 0.05
+): GwasResult => {
+  const arch = getArchitecture();
+  const y = plants.map(p => p.phenotype[traitId]);
+  const loci = plants.length > 0 ? genomeSize(plants[0].genome) : 0;
+
+  const associations: MarkerAssociation[] = Array.from({ length: loci }, (_, locus) => {
+    const x = plants.map(p => dosage(p.genome, locus));
+    const freq = x.reduce((a, b) => a + b, 0) / (2 * plants.length);
+    const { effect, se, pValue } = testMarker(x, y);
+    const mapped = findLocus(locus, arch.map);
+    return {
+      locus,
+      chromosome: mapped?.chromosome.name ?? null,
+      position: mapped?.position ?? null,
+      effect: parseFloat(effect.toFixed(3)),
+      se: parseFloat(se.toFixed(3)),
+      pValue,
+      logP: -Math.log10(Math.max(pValue, 1e-300)),
+      maf: parseFloat(Math.min(freq, 1 - freq).toFixed(3)),
+    };
+  });
+
+  const threshold = significanceThreshold(associations.map(a => a.pValue), correction, alpha);
+  const significant = associations.filter(a => a.pValue <= threshold).map(a => a.locus);
+
+  return { trait: traitId, n: plants.length, correction, alpha, threshold, associations, significant };
+};
@@ -0,0 +1,169 @@
+import { CombiningAbility, HeteroticPool, HybridTrial, Plant, SingleCross, TraitValues } from '../types';
+import { HETEROTIC_POOLS, HETEROTIC_DIVERGENCE } from '../constants';
+import { createRng, random, randomInt, withRngState } from './random';
+import { getArchitecture } from './architecture';
+import { cross, doubledHaploid, evaluatePlant } from './geneticsEngine';
+import { solve } from './matrix';
+import { createGenome } from './genome';
+
+// Hybrid breeding with two heterotic groups. Lines are developed as doubled haploids
+// within each group, crossed to testers from the opposite group, and evaluated by their
+// combining ability. Reciprocal recurrent selection then intermates the best lines of
+// each group on GCA to start the next cycle.
+//
+// The hybrid program draws from its own stream, seeded when the pools are created, so
+// running it never shifts the main program's random stream.
+
+let streamState = 0;
+
+const onHybridStream = <T,>(fn: () => T): T => {
+  const [result, next] = withRngState(streamState, fn);
+  streamState = next;
+  return result;
+};
+
+const round = (v: number) => parseFloat(v.toFixed(2));
+
+// Default merit: the architecture's selection index
+export const indexMerit = (values: TraitValues): number =>
+  Object.entries(getArchitecture().indexWeights).reduce((sum, [id, w]) => sum + (values[id] ?? 0) * w, 0);
+
+const lineId = (poolId: string, cycle: number, n: number) => `${poolId}-C${cycle}-${String(n + 1).padStart(2, '0')}`;
+
+// Two groups of inbred lines with complementary allele frequencies: where one group is
+// enriched for the favourable allele the other is depleted, which is what makes their
+// hybrids heterotic under dominance. The seed restarts the hybrid stream.
+export const createHeteroticPools = (linesPerPool: number, envVariance: number, seed: number): HeteroticPool[] => {
+  streamState = Math.floor(createRng(seed)() * 4294967296) >>> 0;
+  return onHybridStream(() => buildPools(linesPerPool, envVariance));
+};
+
+const buildPools = (linesPerPool: number, envVariance: number): HeteroticPool[] => {
+  const length = getArchitecture().genomeLength;
+  const shift = Array.from({ length }, () => (random() < 0.5 ? -1 : 1) * HETEROTIC_DIVERGENCE);
+
+  return HETEROTIC_POOLS.map((pool, k) => {
+    const sign = k === 0 ? 1 : -1;
+    const lines = Array.from({ length: linesPerPool }, (_, n) => {
+      const alleles = Uint8Array.from(shift, d => (random() < 0.5 + sign * d ? 1 : 0));
+      const genome = createGenome(alleles, new Uint8Array(alleles));
+      return { ...evaluatePlant(genome, 1, envVariance, lineId(pool.id, 1, n)), inbreeding: 1 };
+    });
+    return { ...pool, lines };
+  });
+};
+
+// Testers: the best lines of a group on their own (per se) performance
+export const pickTesters = (pool: HeteroticPool, count: number, merit: (v: TraitValues) => number = indexMerit): Plant[] =>
+  [...pool.lines].sort((a, b) => merit(b.phenotype) - merit(a.phenotype)).slice(0, Math.max(1, count));
+
+// Least-squares GCA with the GCAs of each group summing to zero; SCA is what remains
+export const estimateCombiningAbility = (hybrids: Plant[], linesA: Plant[], linesB: Plant[]): CombiningAbility => {
+  const idsA = linesA.map(l => l.id);
+  const idsB = linesB.map(l => l.id);
+  const n = 1 + idsA.length + idsB.length;
+  const rows = hybrids.map(h => {
+    const x = new Array(n).fill(0);
+    x[0] = 1;
+    x[1 + idsA.indexOf(h.motherId!)] = 1;
+    x[1 + idsA.length + idsB.indexOf(h.fatherId!)] = 1;
+    return x;
+  });
+
+  // X'X is singular (one redundancy per group); a tiny ridge on the GCAs picks a solution
+  const xtx = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) =>
+    rows.reduce((s, x) => s + x[i] * x[j], 0) + (i === j && i > 0 ? 1e-6 : 0)));
+
+  const mean: TraitValues = {};
+  const gca: Record<string, TraitValues> = {};
+  const sca: Record<string, TraitValues> = {};
+  [...idsA, ...idsB].forEach(id => { gca[id] = {}; });
+  hybrids.forEach(h => { sca[h.id] = {}; });
+
+  getArchitecture().traits.forEach(trait => {
+    const xty = Array.from({ length: n }, (_, i) => rows.reduce((s, x, r) => s + x[i] * hybrids[r].phenotype[trait.id], 0));
+    const beta = solve(xtx, xty);
+    const gA = beta.slice(1, 1 + idsA.length);
+    const gB = beta.slice(1 + idsA.length);
+    const cA = gA.reduce((s, v) => s + v, 0) / Math.max(1, gA.length);
+    const cB = gB.reduce((s, v) => s + v, 0) / Math.max(1, gB.length);
+
+    mean[trait.id] = round(beta[0] + cA + cB);
+    idsA.forEach((id, i) => { gca[id][trait.id] = round(gA[i] - cA); });
+    idsB.forEach((id, j) => { gca[id][trait.id] = round(gB[j] - cB); });
+    hybrids.forEach(h => {
+      const fitted = beta[0] + gA[idsA.indexOf(h.motherId!)] + gB[idsB.indexOf(h.fatherId!)];
+      sca[h.id][trait.id] = round(h.phenotype[trait.id] - fitted);
+    });
+  });
+
+  return { mean, gca, sca };
+};
+
+// Cross every line to the testers of the opposite group (group A always as female) and
+// estimate combining ability from the hybrid phenotypes
+export const runHybridTrial = (
+  pools: HeteroticPool[],
+  testersPerPool: number,
+  cycle: number,
+  envVariance: number,
+  merit: (v: TraitValues) => number = indexMerit
+): HybridTrial => {
+  const [poolA, poolB] = pools;
+  const testersA = pickTesters(poolA, testersPerPool, merit);
+  const testersB = pickTesters(poolB, testersPerPool, merit);
+
+  const planned = new Map<string, [Plant, Plant]>();
+  poolA.lines.forEach(a => testersB.forEach(b => planned.set(`${a.id}×${b.id}`, [a, b])));
+  testersA.forEach(a => poolB.lines.forEach(b => planned.set(`${a.id}×${b.id}`, [a, b])));
+
+  const hybrids = onHybridStream(() => [...planned.entries()].map(([id, [a, b]], i) => ({ ...cross(a, b, cycle, i, envVariance), id })));
+  const combining = estimateCombiningAbility(hybrids, poolA.lines, poolB.lines);
+
+  const heterosis: TraitValues = {};
+  getArchitecture().traits.forEach(trait => {
+    const total = hybrids.reduce((s, h) => {
+      const [a, b] = planned.get(h.id)!;
+      return s + h.phenotype[trait.id] - (a.phenotype[trait.id] + b.phenotype[trait.id]) / 2;
+    }, 0);
+    heterosis[trait.id] = round(total / Math.max(1, hybrids.length));
+  });
+
+  const bestObserved = hybrids.reduce<Plant | null>((best, h) => (!best || merit(h.phenotype) > merit(best.phenotype) ? h : best), null);
+
+  // Every possible single cross, predicted from GCA where it was not tested
+  let bestPredicted: SingleCross | null = null;
+  poolA.lines.forEach(a => poolB.lines.forEach(b => {
+    const tested = hybrids.find(h => h.id === `${a.id}×${b.id}`);
+    const value: TraitValues = tested ? tested.phenotype : Object.fromEntries(getArchitecture().traits.map(t =>
+      [t.id, round(combining.mean[t.id] + combining.gca[a.id][t.id] + combining.gca[b.id][t.id])]));
+    if (!bestPredicted || merit(value) > merit(bestPredicted.value)) {
+      bestPredicted = { lineA: a.id, lineB: b.id, value, tested: !!tested };
+    }
+  }));
+
+  return { cycle, hybrids, combining, heterosis, bestObserved, bestPredicted };
+};
+
+// Reciprocal recurrent selection: intermate the better half of each group on GCA and
+// derive a fresh set of doubled-haploid lines from the F1s
+export const advanceHeteroticPools = (
+  pools: HeteroticPool[],
+  trial: HybridTrial,
+  envVariance: number,
+  merit: (v: TraitValues) => number = indexMerit
+): HeteroticPool[] => {
+  const cycle = trial.cycle + 1;
+  return onHybridStream(() => pools.map(pool => {
+    const ranked = [...pool.lines].sort((a, b) => merit(trial.combining.gca[b.id] ?? {}) - merit(trial.combining.gca[a.id] ?? {}));
+    const parents = ranked.slice(0, Math.max(2, Math.ceil(ranked.length / 2)));
+    const lines = pool.lines.map((_, n) => {
+      const mother = parents[n % parents.length];
+      let father = parents[randomInt(parents.length)];
+      if (father.id === mother.id) father = parents[(parents.indexOf(mother) + 1) % parents.length];
+      const f1 = cross(mother, father, cycle, n, envVariance);
+      return { ...doubledHaploid(f1, cycle, n, envVariance), id: lineId(pool.id, cycle, n), motherId: mother.id, fatherId: father.id, inbreeding: 1 };
+    });
+    return { ...pool, lines };
+  }));
+};
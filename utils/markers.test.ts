@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Marker, Plant } from '../types';
+import { DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { favourableAllele, getArchitecture, setArchitecture } from './architecture';
+import { doubledHaploid, createInitialPopulation, evaluatePlant } from './geneticsEngine';
+import { findLocus, recombinationFraction } from './geneticMap';
+import { createGenome } from './genome';
+import {
+  addLinkedMarkers, extendWithMarkers, markerDosage, markerLinkage, markersFromLoci, meetsRequirement, passesMarkerFilter
+} from './markers';
+import { setSeed } from './random';
+
+const arch = getArchitecture();
+const qtl = arch.traits[0].lociIndices.find(i => findLocus(i, arch.map))!;
+const founders = createInitialPopulation(DEFAULT_PROGRAM_CONFIG, 5);
+
+// A plant carrying the given alleles at one locus on its two strands
+const withAlleles = (locus: number, maternal: 0 | 1, paternal: 0 | 1): Plant => {
+  const m = new Uint8Array(arch.genomeLength);
+  const p = new Uint8Array(arch.genomeLength);
+  m[locus] = maternal;
+  p[locus] = paternal;
+  return { id: 'x', genome: createGenome(m, p) } as Plant;
+};
+
+describe('markers', () => {
+  it('uses a QTL as its own perfect marker', () => {
+    const [marker] = markersFromLoci([qtl, arch.genomeLength + 3], arch, founders);
+    expect(marker).toEqual({ locus: qtl, qtl, distance: 0, favourable: favourableAllele(qtl, arch) });
+    expect(markersFromLoci([arch.genomeLength + 3], arch, founders)).toEqual([]);
+  });
+
+  it('counts favourable copies and applies carrier and homozygous requirements', () => {
+    const marker: Marker = { locus: qtl, qtl, distance: 0, favourable: 1 };
+    const het = withAlleles(qtl, 1, 0);
+    const hom = withAlleles(qtl, 1, 1);
+    expect([withAlleles(qtl, 0, 0), het, hom].map(p => markerDosage(p, marker))).toEqual([0, 1, 2]);
+    expect(meetsRequirement(het, marker, 'carrier')).toBe(true);
+    expect(meetsRequirement(het, marker, 'homozygous')).toBe(false);
+    expect(passesMarkerFilter(het, [marker], { [qtl]: 'homozygous' })).toBe(false);
+    expect(passesMarkerFilter(het, [marker], {})).toBe(true);
+  });
+
+  it('adds linked markers in coupling that crossovers then erode at the map rate', () => {
+    const { architecture, markers } = addLinkedMarkers(arch, [qtl], 10);
+    expect(architecture.genomeLength).toBe(arch.genomeLength + 1);
+    expect(markers[0]).toMatchObject({ locus: arch.genomeLength, qtl, distance: 10 });
+
+    const extended = founders.map(p => extendWithMarkers(p, markers, architecture.genomeLength));
+    const [fresh] = markerLinkage(extended, markers, architecture);
+    expect(fresh.concordance).toBe(1);
+    expect(fresh.recombinants).toBe(0);
+
+    // Doubled haploids of a plant with the marker and QTL in coupling on one strand only
+    setArchitecture(architecture);
+    try {
+      const strand = (allele: 0 | 1) => {
+        const s = new Uint8Array(architecture.genomeLength).fill(1 - allele);
+        s[qtl] = allele === 1 ? favourableAllele(qtl, arch) : 1 - favourableAllele(qtl, arch);
+        s[markers[0].locus] = allele === 1 ? markers[0].favourable : 1 - markers[0].favourable;
+        return s;
+      };
+      const f1 = evaluatePlant(createGenome(strand(1), strand(0)), 1, 0, 'f1');
+      setSeed(12);
+      const lines = Array.from({ length: 3000 }, (_, i) => doubledHaploid(f1, 2, i, 0));
+      const [eroded] = markerLinkage(lines, markers, architecture);
+      const r = recombinationFraction(10, architecture.mappingFunction);
+      expect(eroded.expectedRecombination).toBeCloseTo(r, 3);
+      expect(Math.abs(1 - eroded.concordance - r)).toBeLessThan(4 * Math.sqrt(r * (1 - r) / lines.length));
+    } finally {
+      setArchitecture(arch);
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { GeneticArchitecture, Marker, MarkerLinkage, MarkerRequirement, Plant } from '../types';
+import { favourableAllele, traitForLocus, isPleiotropic, isEpistatic } from './architecture';
+import { findLocus, recombinationFraction } from './geneticMap';
+import { createGenome } from './genome';
+import { MARKER_BREAK_CONCORDANCE } from '../constants';
+
+// Marker-assisted selection. A marker is a locus whose genotype is read instead of the
+// QTL it tags; it only works while the two stay in linkage disequilibrium, and every
+// crossover between them erodes that.
+
+const isQtl = (index: number, arch: GeneticArchitecture) =>
+  !!traitForLocus(index, arch) || isPleiotropic(index, arch) || isEpistatic(index, arch);
+
+// Nearest QTL on the same chromosome and its map distance
+const nearestQtl = (index: number, arch: GeneticArchitecture): { qtl: number; distance: number } | null => {
+  const here = findLocus(index, arch.map);
+  if (!here) return null;
+  let best: { qtl: number; distance: number } | null = null;
+  here.chromosome.loci.forEach(l => {
+    if (l.index === index || !isQtl(l.index, arch)) return;
+    const distance = Math.abs(l.position - here.position);
+    if (!best || distance < best.distance) best = { qtl: l.index, distance };
+  });
+  return best;
+};
+
+// Which marker allele travels with the QTL's favourable allele in these plants (coupling phase)
+const couplingAllele = (marker: number, qtl: number, fav: 0 | 1, plants: Plant[]): 0 | 1 => {
+  let same = 0;
+  let total = 0;
+  plants.forEach(({ genome }) => {
+    [genome.maternal, genome.paternal].forEach(strand => {
+      if (strand[qtl] !== fav) return;
+      total++;
+      if (strand[marker] === 1) same++;
+    });
+  });
+  return total > 0 && same < total / 2 ? 0 : 1;
+};
+
+// Panel from existing loci: a QTL is its own (perfect) marker; a neutral mapped locus tags
+// its nearest QTL in whatever phase the current plants show
+export const markersFromLoci = (loci: number[], arch: GeneticArchitecture, plants: Plant[]): Marker[] =>
+  loci.filter(i => i >= 0 && i < arch.genomeLength).map(locus => {
+    if (isQtl(locus, arch)) return { locus, qtl: locus, distance: 0, favourable: favourableAllele(locus, arch) };
+    const near = nearestQtl(locus, arch);
+    if (!near) return { locus, qtl: null, distance: 0, favourable: 1 };
+    return {
+      locus,
+      qtl: near.qtl,
+      distance: near.distance,
+      favourable: couplingAllele(locus, near.qtl, favourableAllele(near.qtl, arch), plants),
+    };
+  });
+
+// New marker loci `distance` cM from each QTL (to the right, or left near the chromosome
+// end). They are appended to the genome and placed on the map.
+export const addLinkedMarkers = (
+  arch: GeneticArchitecture,
+  qtls: number[],
+  distance: number
+): { architecture: GeneticArchitecture; markers: Marker[] } => {
+  const markers: Marker[] = [];
+  const map = arch.map.map(chr => ({ ...chr, loci: [...chr.loci] }));
+  let next = arch.genomeLength;
+
+  qtls.forEach(qtl => {
+    const chr = map.find(c => c.loci.some(l => l.index === qtl));
+    if (!chr) return;
+    const position = chr.loci.find(l => l.index === qtl)!.position;
+    const right = position + distance;
+    const markerPosition = right <= chr.length || position - distance < 0 ? right : position - distance;
+    chr.loci.push({ index: next, position: parseFloat(markerPosition.toFixed(2)) });
+    chr.length = Math.max(chr.length, markerPosition);
+    markers.push({ locus: next, qtl, distance, favourable: favourableAllele(qtl, arch) });
+    next++;
+  });
+
+  map.forEach(chr => chr.loci.sort((a, b) => a.position - b.position));
+  return { architecture: { ...arch, genomeLength: next, map }, markers };
+};
+
+// Give existing plants the new marker loci. A marker is developed as diagnostic in the
+// current germplasm, so each strand starts with the allele of the QTL it tags; donor
+// flags are copied the same way.
+export const extendWithMarkers = (plant: Plant, markers: Marker[], genomeLength: number): Plant => {
+  const { maternal, paternal, donor } = plant.genome;
+  if (maternal.length >= genomeLength) return plant;
+  const grow = (strand: Uint8Array) => {
+    const out = new Uint8Array(genomeLength);
+    out.set(strand);
+    markers.forEach(m => {
+      if (m.locus >= strand.length && m.qtl !== null) out[m.locus] = strand[m.qtl];
+    });
+    return out;
+  };
+  return { ...plant, genome: createGenome(grow(maternal), grow(paternal), donor ? grow(donor) : undefined) };
+};
+
+// Copies of the favourable marker allele (0, 1 or 2)
+export const markerDosage = (plant: Plant, marker: Marker): number =>
+  (plant.genome.maternal[marker.locus] === marker.favourable ? 1 : 0) +
+  (plant.genome.paternal[marker.locus] === marker.favourable ? 1 : 0);
+
+export const meetsRequirement = (plant: Plant, marker: Marker, requirement: MarkerRequirement): boolean => {
+  if (requirement === 'any') return true;
+  const n = markerDosage(plant, marker);
+  return requirement === 'homozygous' ? n === 2 : n >= 1;
+};
+
+// Marker filter: every marker with a requirement must be satisfied
+export const passesMarkerFilter = (plant: Plant, markers: Marker[], requirements: Record<number, MarkerRequirement>): boolean =>
+  markers.every(m => meetsRequirement(plant, m, requirements[m.locus] ?? 'any'));
+
+export const hasMarkerFilter = (requirements: Record<number, MarkerRequirement>): boolean =>
+  Object.values(requirements).some(r => r !== 'any');
+
+// How well each marker still tags its QTL: concordance of marker and QTL alleles on
+// every haplotype, r² between them, and the haplotypes where a crossover has split them
+export const markerLinkage = (plants: Plant[], markers: Marker[], arch: GeneticArchitecture): MarkerLinkage[] =>
+  markers.filter(m => m.qtl !== null && m.qtl !== m.locus).map(m => {
+    const qtl = m.qtl!;
+    const fav = favourableAllele(qtl, arch);
+    let n = 0, agree = 0, sumM = 0, sumQ = 0, sumMQ = 0;
+    plants.forEach(({ genome }) => {
+      [genome.maternal, genome.paternal].forEach(strand => {
+        const x = strand[m.locus] === m.favourable ? 1 : 0;
+        const y = strand[qtl] === fav ? 1 : 0;
+        n++;
+        if (x === y) agree++;
+        sumM += x; sumQ += y; sumMQ += x * y;
+      });
+    });
+    const pM = n ? sumM / n : 0;
+    const pQ = n ? sumQ / n : 0;
+    const d = n ? sumMQ / n - pM * pQ : 0;
+    const denom = pM * (1 - pM) * pQ * (1 - pQ);
+    const concordance = n ? agree / n : 1;
+    return {
+      marker: m.locus,
+      qtl,
+      distance: m.distance,
+      expectedRecombination: parseFloat(recombinationFraction(m.distance, arch.mappingFunction).toFixed(3)),
+      concordance: parseFloat(concordance.toFixed(3)),
+      recombinants: n - agree,
+      r2: denom > 0 ? parseFloat((d * d / denom).toFixed(3)) : null,
+      broken: concordance < MARKER_BREAK_CONCORDANCE,
+    };
+  });
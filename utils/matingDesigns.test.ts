@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { MatingDesign, Plant } from '../types';
+import { DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { breedNextGeneration, createInitialPopulation } from './geneticsEngine';
+import { expectedInbreeding, planMatings } from './matingDesigns';
+import { kinshipOf, recordGeneration } from './pedigree';
+import { setSeed } from './random';
+
+const parents = ['P1', 'P2', 'P3', 'P4'].map(id => ({ id, inbreeding: 0 }) as Plant);
+const families = (design: MatingDesign, offspringCount: number) =>
+  planMatings(design, parents, { offspringCount }).map(m => `${m.mother.id}×${m.father?.id ?? '-'}`);
+
+describe('mating designs', () => {
+  it('crosses every pair once in a half diallel and both ways in a full diallel', () => {
+    expect(new Set(families('halfDiallel', 6))).toEqual(new Set(['P1×P2', 'P1×P3', 'P1×P4', 'P2×P3', 'P2×P4', 'P3×P4']));
+    const full = families('fullDiallel', 12);
+    expect(new Set(full).size).toBe(12);
+    expect(full).toContain('P2×P1');
+  });
+
+  it('selfs, doubles and advances single seeds as asked', () => {
+    expect(families('selfing', 8).every(f => f.split('×')[0] === f.split('×')[1])).toBe(true);
+    expect(families('doubledHaploid', 8).every(f => f.endsWith('×-'))).toBe(true);
+    expect(families('ssd', 100)).toHaveLength(parents.length);
+  });
+
+  it('needs a recurrent parent for a backcross', () => {
+    expect(() => planMatings('backcross', parents, { offspringCount: 4 })).toThrow(/recurrent parent/);
+    const rp = { id: 'RP', inbreeding: 1 } as Plant;
+    expect(planMatings('backcross', parents, { offspringCount: 4, referenceParent: rp }).every(m => m.father === rp)).toBe(true);
+  });
+
+  it('avoids selfing under random mating', () => {
+    setSeed(8);
+    expect(planMatings('random', parents, { offspringCount: 200 }).every(m => m.mother.id !== m.father!.id)).toBe(true);
+  });
+
+  it('shares offspring out by optimal contributions', () => {
+    const contributions = { P1: 0.5, P2: 0.25, P3: 0.25 };
+    const plan = planMatings('selfing', parents, { offspringCount: 8, contributions });
+    const count = (id: string) => plan.filter(m => m.mother.id === id).length;
+    expect([count('P1'), count('P2'), count('P3'), count('P4')]).toEqual([4, 2, 2, 0]);
+  });
+
+  it('predicts the inbreeding the pedigree then records', () => {
+    const founders = recordGeneration({}, createInitialPopulation(DEFAULT_PROGRAM_CONFIG, 4));
+    const chosen = founders.plants.slice(0, 10);
+    const kinship = kinshipOf(founders.pedigree);
+    (['selfing', 'doubledHaploid', 'halfDiallel', 'random'] as MatingDesign[]).forEach(design => {
+      const expected = expectedInbreeding(design, chosen, kinship).value;
+      const offspring = breedNextGeneration(chosen, 1, 10, design, null, 0, null, DEFAULT_PROGRAM_CONFIG);
+      const realized = recordGeneration(founders.pedigree, offspring).plants;
+      const meanF = realized.reduce((s, p) => s + p.inbreeding, 0) / realized.length;
+      expect(meanF).toBeCloseTo(expected, 6);
+    });
+    expect(expectedInbreeding('selfing', chosen, kinship).value).toBe(0.5);
+  });
+});
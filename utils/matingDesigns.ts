@@ -0,0 +1,208 @@
+import { Mating, MatingDesign, Plant } from '../types';
+import { randomInt } from './random';
+import { Kinship } from './pedigree';
+import { apportion } from './optimalContribution';
+
+// Mating designs: turn a set of selected parents into a list of planned matings.
+// The engine then realizes each mating with meiosis (or chromosome doubling).
+
+export interface MatingOptions {
+  offspringCount: number;
+  referenceParent?: Plant | null; // Recurrent parent (backcross) or tester (test-cross)
+  contributions?: Record<string, number> | null; // Optimal contribution shares per parent id
+}
+
+// Spread `count` offspring as evenly as possible over a fixed list of families
+const cycle = <T>(families: T[], count: number): T[] =>
+  Array.from({ length: count }, (_, i) => families[i % families.length]);
+
+// Parents repeated by their contribution counts, in a random order
+const weightedList = (parents: Plant[], contributions: Record<string, number>, total: number): Plant[] => {
+  const counts = apportion(Object.fromEntries(parents.map(p => [p.id, contributions[p.id] ?? 0])), total);
+  const list = parents.flatMap(p => new Array(counts[p.id] ?? 0).fill(p) as Plant[]);
+  for (let i = list.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [list[i], list[j]] = [list[j], list[i]];
+  }
+  return list;
+};
+
+// Pair consecutive gametes, swapping partners to avoid selfing where possible
+const pairGametes = (gametes: Plant[]): Mating[] => {
+  const list: Mating[] = [];
+  for (let i = 0; i + 1 < gametes.length; i += 2) {
+    if (gametes[i].id === gametes[i + 1].id) {
+      const k = gametes.findIndex((g, idx) => idx > i + 1 && g.id !== gametes[i].id);
+      if (k > 0) [gametes[i + 1], gametes[k]] = [gametes[k], gametes[i + 1]];
+    }
+    list.push({ mother: gametes[i], father: gametes[i + 1] });
+  }
+  return list;
+};
+
+// All parent pairs, optionally with reciprocals (i×j and j×i)
+const pairs = (parents: Plant[], reciprocals: boolean): Mating[] => {
+  const list: Mating[] = [];
+  for (let i = 0; i < parents.length; i++) {
+    for (let j = reciprocals ? 0 : i + 1; j < parents.length; j++) {
+      if (i !== j) list.push({ mother: parents[i], father: parents[j] });
+    }
+  }
+  return list;
+};
+
+// Diallel families weighted by the product of the two parents' contributions, so each
+// parent's share of the offspring follows its own contribution
+const weightedFamilies = (families: Mating[], contributions: Record<string, number>, total: number): Mating[] => {
+  const key = (m: Mating) => `${m.mother.id}×${m.father!.id}`;
+  const counts = apportion(Object.fromEntries(families.map(m =>
+    [key(m), (contributions[m.mother.id] ?? 0) * (contributions[m.father!.id] ?? 0)])), total);
+  return families.flatMap(m => new Array(counts[key(m)] ?? 0).fill(m) as Mating[]);
+};
+
+// Optimal contributions: each parent supplies its share of the gametes (random mating),
+// of the offspring (every design with one selected parent per mating) or of the families
+// it enters (diallels)
+const contributionMatings = (
+  design: MatingDesign,
+  parents: Plant[],
+  contributions: Record<string, number>,
+  offspringCount: number,
+  referenceParent: Plant | null
+): Mating[] => {
+  switch (design) {
+    case 'selfing':
+      return weightedList(parents, contributions, offspringCount).map(p => ({ mother: p, father: p }));
+    case 'ssd':
+      // Still one seed per line; lines are shared out by contribution
+      return weightedList(parents, contributions, parents.length).map(p => ({ mother: p, father: p }));
+    case 'doubledHaploid':
+      return weightedList(parents, contributions, offspringCount).map(p => ({ mother: p, father: null }));
+    case 'backcross':
+    case 'testcross':
+      return weightedList(parents, contributions, offspringCount).map(p => ({ mother: p, father: referenceParent }));
+    case 'fullDiallel':
+    case 'halfDiallel': {
+      const families = pairs(parents, design === 'fullDiallel');
+      return families.length > 0 ? weightedFamilies(families, contributions, offspringCount) : [];
+    }
+    case 'random':
+    default:
+      return pairGametes(weightedList(parents, contributions, 2 * offspringCount));
+  }
+};
+
+export const planMatings = (design: MatingDesign, parents: Plant[], options: MatingOptions): Mating[] => {
+  const { offspringCount, referenceParent, contributions } = options;
+  if (parents.length === 0) return [];
+
+  if ((design === 'backcross' || design === 'testcross') && !referenceParent) {
+    throw new Error(design === 'backcross'
+      ? 'Backcross needs a recurrent parent.'
+      : 'Test-cross needs a tester.');
+  }
+  if (contributions) return contributionMatings(design, parents, contributions, offspringCount, referenceParent ?? null);
+
+  switch (design) {
+    case 'selfing':
+      return cycle(parents, offspringCount).map(p => ({ mother: p, father: p }));
+
+    case 'ssd':
+      // One seed per line: the population size follows the number of lines
+      return parents.map(p => ({ mother: p, father: p }));
+
+    case 'fullDiallel':
+    case 'halfDiallel': {
+      const families = pairs(parents, design === 'fullDiallel');
+      return families.length > 0 ? cycle(families, offspringCount) : [];
+    }
+
+    case 'backcross':
+    case 'testcross':
+      return cycle(parents, offspringCount).map(p => ({ mother: p, father: referenceParent! }));
+
+    case 'doubledHaploid':
+      return cycle(parents, offspringCount).map(p => ({ mother: p, father: null }));
+
+    case 'random':
+    default: {
+      const list: Mating[] = [];
+      for (let i = 0; i < offspringCount; i++) {
+        const p1 = parents[randomInt(parents.length)];
+        let p2 = parents[randomInt(parents.length)];
+
+        // Avoid selfing if possible
+        let attempts = 0;
+        while (p1.id === p2.id && attempts < 5 && parents.length > 1) {
+          p2 = parents[randomInt(parents.length)];
+          attempts++;
+        }
+        list.push({ mother: p1, father: p2 });
+      }
+      return list;
+    }
+  }
+};
+
+// What the inbreeding prediction needs of a parent, so it can run on ids sent to the engine worker
+export type ParentRef = Pick<Plant, 'id' | 'inbreeding'>;
+
+// Coancestry used when no pedigree is available: plants are related only to themselves
+const selfKinship = (parents: ParentRef[]) => (a: string | null, b: string | null): number => {
+  if (!a || a !== b) return 0;
+  return (1 + (parents.find(p => p.id === a)?.inbreeding ?? 0)) / 2;
+};
+
+// Mean coancestry over all distinct parent pairs
+const meanPairKinship = (parents: ParentRef[], kinship: Kinship): number => {
+  let sum = 0;
+  let n = 0;
+  for (let i = 0; i < parents.length; i++) {
+    for (let j = i + 1; j < parents.length; j++) {
+      sum += kinship(parents[i].id, parents[j].id);
+      n++;
+    }
+  }
+  return n > 0 ? sum / n : 0;
+};
+
+const mean = (values: number[]): number => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+// Expected inbreeding coefficient of the offspring: the mean coancestry of the
+// parents each design mates together (F' = f(mother, father)).
+export const expectedInbreeding = (
+  design: MatingDesign,
+  parents: ParentRef[],
+  kinship: Kinship = selfKinship(parents),
+  referenceParent: ParentRef | null = null
+): { value: number, formula: string } => {
+  const selfed = mean(parents.map(p => kinship(p.id, p.id)));
+
+  switch (design) {
+    case 'selfing':
+    case 'ssd':
+      return { value: selfed, formula: "F' = ½(1 + F)" };
+    case 'doubledHaploid':
+      return { value: 1, formula: "F' = 1 (fully homozygous)" };
+    case 'testcross':
+      return {
+        value: referenceParent ? mean(parents.map(p => kinship(p.id, referenceParent.id))) : 0,
+        formula: "F' = f(P, T), 0 for an unrelated tester",
+      };
+    case 'backcross':
+      return {
+        value: referenceParent ? mean(parents.map(p => kinship(p.id, referenceParent.id))) : 0,
+        formula: "F' = f(P, RP)",
+      };
+    case 'fullDiallel':
+    case 'halfDiallel':
+      return { value: meanPairKinship(parents, kinship), formula: "F' = mean f(i, j), i ≠ j" };
+    case 'random':
+    default:
+      // Selfing is avoided, so only distinct pairs contribute unless there is a single parent
+      return {
+        value: parents.length > 1 ? meanPairKinship(parents, kinship) : selfed,
+        formula: "F' = mean f(i, j), i ≠ j",
+      };
+  }
+};
@@ -0,0 +1,125 @@
+// Small dense linear-algebra helpers (row-major number[][]) for the statistics modules
+
+export type Matrix = number[][];
+
+export const zeros = (rows: number, cols: number): Matrix =>
+  Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+export const identity = (n: number): Matrix =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+export const transpose = (a: Matrix): Matrix =>
+  a.length === 0 ? [] : a[0].map((_, j) => a.map(row => row[j]));
+
+export const multiply = (a: Matrix, b: Matrix): Matrix => {
+  const out = zeros(a.length, b[0]?.length ?? 0);
+  for (let i = 0; i < a.length; i++) {
+    for (let k = 0; k < b.length; k++) {
+      const aik = a[i][k];
+      if (aik === 0) continue;
+      for (let j = 0; j < b[k].length; j++) out[i][j] += aik * b[k][j];
+    }
+  }
+  return out;
+};
+
+export const multiplyVector = (a: Matrix, v: number[]): number[] =>
+  a.map(row => row.reduce((sum, x, j) => sum + x * v[j], 0));
+
+export const dot = (a: number[], b: number[]): number => a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+// Cholesky factor L of a symmetric positive-definite A (A = L Lᵀ).
+// A tiny ridge is added to the diagonal if the factorization meets a non-positive pivot.
+export const cholesky = (a: Matrix): Matrix => {
+  const n = a.length;
+  let jitter = 0;
+
+  for (let attempt = 0; attempt < 6; attempt++) {
+    const l = zeros(n, n);
+    let ok = true;
+    for (let i = 0; i < n && ok; i++) {
+      const li = l[i];
+      for (let j = 0; j <= i; j++) {
+        const lj = l[j];
+        let sum = a[i][j] + (i === j ? jitter : 0);
+        for (let k = 0; k < j; k++) sum -= li[k] * lj[k];
+        if (i === j) {
+          if (sum <= 0) { ok = false; break; }
+          li[i] = Math.sqrt(sum);
+        } else {
+          li[j] = sum / lj[j];
+        }
+      }
+    }
+    if (ok) return l;
+    jitter = jitter === 0 ? 1e-8 * (1 + Math.abs(a[0]?.[0] ?? 1)) : jitter * 100;
+  }
+  throw new Error('Matrix is not positive definite');
+};
+
+// Solve L Lᵀ x = b for a Cholesky factor L, so one factorization serves many right-hand sides
+export const choleskyBackSolve = (l: Matrix, b: number[]): number[] => {
+  const n = l.length;
+  const y = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= l[i][k] * y[k];
+    y[i] = sum / l[i][i];
+  }
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= l[k][i] * x[k];
+    x[i] = sum / l[i][i];
+  }
+  return x;
+};
+
+// Solve A x = b for symmetric positive-definite A via Cholesky
+export const choleskySolve = (a: Matrix, b: number[]): number[] => choleskyBackSolve(cholesky(a), b);
+
+// Solve A x = b for a general square A (Gaussian elimination with partial pivoting)
+export const solve = (a: Matrix, b: number[]): number[] => {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) throw new Error('Matrix is singular');
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      if (f === 0) continue;
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = m[i][n];
+    for (let k = i + 1; k < n; k++) sum -= m[i][k] * x[k];
+    x[i] = sum / m[i][i];
+  }
+  return x;
+};
+
+// Inverse of a general square matrix (column by column)
+export const invert = (a: Matrix): Matrix => {
+  const n = a.length;
+  const cols = identity(n).map(e => solve(a, e));
+  return transpose(cols);
+};
+
+// Pearson correlation (0 when either side has no variance)
+export const correlation = (x: number[], y: number[]): number => {
+  const n = x.length;
+  if (n < 2) return 0;
+  const mx = x.reduce((a, b) => a + b, 0) / n;
+  const my = y.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+};
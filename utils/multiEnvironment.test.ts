@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { TrialLocation } from '../types';
+import { DEFAULT_PROGRAM_CONFIG, TRIAL_LOCATIONS } from '../constants';
+import { createInitialPopulation } from './geneticsEngine';
+import { correlation } from './matrix';
+import { genotypicValueAt, locationMeans, runMultiEnvironmentTrial, stabilityDeviation } from './multiEnvironment';
+
+const plants = createInitialPopulation(DEFAULT_PROGRAM_CONFIG, 13);
+
+const site = (id: string, mainEffect: number, sensitivity: number): TrialLocation => ({
+  id, name: id, description: id, noise: 1, gxeVariance: 0,
+  mainEffect: { yield: mainEffect, resistance: 0, height: 0 },
+  sensitivity: { yield: sensitivity, resistance: 1, height: 1 },
+});
+
+describe('multi-environment trials', () => {
+  it('replaces each phenotype with the mean over locations', () => {
+    const tested = runMultiEnvironmentTrial(plants, TRIAL_LOCATIONS, 10);
+    tested.forEach(p => {
+      const ys = TRIAL_LOCATIONS.map(loc => p.met!.phenotypes[loc.id].yield);
+      expect(p.phenotype.yield).toBeCloseTo(ys.reduce((s, y) => s + y, 0) / ys.length, 1);
+    });
+  });
+
+  it('centres the Finlay-Wilkinson slopes on 1', () => {
+    const tested = runMultiEnvironmentTrial(plants, TRIAL_LOCATIONS, 10);
+    const slopes = tested.map(p => p.met!.fwSlope.yield);
+    expect(slopes.reduce((s, b) => s + b, 0) / slopes.length).toBeCloseTo(1, 2);
+  });
+
+  it('gives better genotypes steeper slopes under scale-type G×E', () => {
+    const tested = runMultiEnvironmentTrial(plants, [site('poor', -5, 0.5), site('mid', 0, 1), site('rich', 5, 1.5)], 0);
+    const r = correlation(tested.map(p => p.met!.fwSlope.yield), plants.map(p => p.genotypicValue.yield));
+    expect(r).toBeGreaterThan(0.9);
+    expect(stabilityDeviation(tested[0], ['yield'])).toBeCloseTo(Math.abs(tested[0].met!.fwSlope.yield - 1), 9);
+    const means = locationMeans(tested, [site('poor', -5, 0.5), site('rich', 5, 1.5)]);
+    expect(means.rich.yield).toBeGreaterThan(means.poor.yield);
+  });
+
+  it('keeps the same site-specific deviations every season', () => {
+    const ames = TRIAL_LOCATIONS[0];
+    expect(genotypicValueAt(plants[0], ames)).toEqual(genotypicValueAt(plants[0], { ...ames }));
+  });
+});
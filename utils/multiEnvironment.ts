@@ -0,0 +1,139 @@
+import { GeneticArchitecture, Plant, TraitValues, TrialLocation, TrialRecord } from '../types';
+import { MET_REPLICATES } from '../constants';
+import { createRng, parseSeed, randomNormal } from './random';
+import { getArchitecture } from './architecture';
+import { applyThresholdPenalties } from './geneticsEngine';
+import { dosage } from './genome';
+
+// Multi-environment trials: every entry is grown at each location.
+// Genotypic value at location j: G_ij = base + m_j + s_j·(G_i − base) + Σ n·a·δ_j
+//   m_j  location main effect
+//   s_j  sensitivity - scale-type G×E (good genotypes gain more at favourable sites)
+//   δ_j  location-specific deviations of the locus effects - rank-changing G×E
+// Across locations the entry is summarised by its BLUE and its Finlay-Wilkinson slope.
+
+const round = (v: number) => parseFloat(v.toFixed(2));
+const roundValues = (values: TraitValues): TraitValues =>
+  Object.fromEntries(Object.entries(values).map(([k, v]) => [k, round(v)]));
+
+// Locus effect deviations are a fixed property of the site, so they come from a stream
+// seeded by crop and location rather than the run seed: the same site behaves the same
+// way every season.
+const deviationCache = new Map<string, Record<string, number[]>>();
+
+const locusDeviations = (location: TrialLocation, arch: GeneticArchitecture): Record<string, number[]> => {
+  const key = `${arch.name}:${location.id}:${location.gxeVariance}`;
+  const cached = deviationCache.get(key);
+  if (cached) return cached;
+
+  const rng = createRng(parseSeed(key));
+  const normal = () => {
+    let u = 0, v = 0;
+    while (u === 0) u = rng();
+    while (v === 0) v = rng();
+    return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  };
+  const sd = Math.sqrt(Math.max(0, location.gxeVariance));
+  const deviations: Record<string, number[]> = {};
+  arch.traits.forEach(trait => {
+    deviations[trait.id] = trait.lociIndices.map(() => normal() * sd);
+  });
+  deviationCache.set(key, deviations);
+  return deviations;
+};
+
+// True genotypic value of a plant at one location (before residual noise)
+export const genotypicValueAt = (plant: Plant, location: TrialLocation): TraitValues => {
+  const arch = getArchitecture();
+  const deviations = locusDeviations(location, arch);
+  const values: TraitValues = {};
+  arch.traits.forEach(trait => {
+    const g = plant.genotypicValue[trait.id];
+    let v = trait.baseValue + (location.mainEffect[trait.id] ?? 0) + (location.sensitivity[trait.id] ?? 1) * (g - trait.baseValue);
+    trait.lociIndices.forEach((idx, k) => {
+      v += dosage(plant.genome, idx) * (trait.alleleEffects?.[k] ?? 1) * deviations[trait.id][k];
+    });
+    values[trait.id] = v;
+  });
+  return values;
+};
+
+// Grow the population at every location and replace each phenotype with its across-location BLUE.
+// Plot means over r replicates carry residual variance σ²E/r.
+export const runMultiEnvironmentTrial = (
+  plants: Plant[],
+  locations: TrialLocation[],
+  envVariance: number,
+  replicates: number = MET_REPLICATES
+): Plant[] => {
+  if (plants.length === 0 || locations.length === 0) return plants;
+  const arch = getArchitecture();
+
+  const observed = plants.map(plant => {
+    const phenotypes: Record<string, TraitValues> = {};
+    locations.forEach(loc => {
+      const g = genotypicValueAt(plant, loc);
+      const y: TraitValues = {};
+      arch.traits.forEach(trait => {
+        const e = randomNormal() * envVariance * (trait.envScale ?? 1) * loc.noise / Math.sqrt(Math.max(1, replicates));
+        y[trait.id] = Math.max(trait.minValue ?? -Infinity, g[trait.id] + e);
+      });
+      phenotypes[loc.id] = applyThresholdPenalties(y);
+    });
+    return phenotypes;
+  });
+
+  // Environmental index: location mean minus grand mean
+  const index: Record<string, TraitValues> = {};
+  arch.traits.forEach(trait => {
+    const locMeans = locations.map(loc => observed.reduce((s, ph) => s + ph[loc.id][trait.id], 0) / plants.length);
+    const grand = locMeans.reduce((s, v) => s + v, 0) / locations.length;
+    locations.forEach((loc, j) => {
+      index[loc.id] = { ...index[loc.id], [trait.id]: locMeans[j] - grand };
+    });
+  });
+
+  return plants.map((plant, i) => {
+    const blue: TraitValues = {};
+    const fwSlope: TraitValues = {};
+    arch.traits.forEach(trait => {
+      // Balanced trial with fixed location effects: the genotype BLUE is its mean over locations
+      const ys = locations.map(loc => observed[i][loc.id][trait.id]);
+      blue[trait.id] = ys.reduce((s, v) => s + v, 0) / ys.length;
+
+      // Finlay-Wilkinson: regress the entry on the environmental index, b = Σ y·e / Σ e²
+      const es = locations.map(loc => index[loc.id][trait.id]);
+      const see = es.reduce((s, e) => s + e * e, 0);
+      fwSlope[trait.id] = see > 1e-9 ? ys.reduce((s, y, j) => s + y * es[j], 0) / see : 1;
+    });
+
+    const met: TrialRecord = {
+      phenotypes: Object.fromEntries(Object.entries(observed[i]).map(([id, v]) => [id, roundValues(v)])),
+      blue: roundValues(blue),
+      fwSlope: Object.fromEntries(Object.entries(fwSlope).map(([id, b]) => [id, parseFloat(b.toFixed(3))])),
+    };
+    return { ...plant, phenotype: met.blue, met };
+  });
+};
+
+// Mean |b − 1| over the given traits: 0 for an entry that tracks the average response exactly
+export const stabilityDeviation = (plant: Plant, traitIds: string[]): number => {
+  if (!plant.met || traitIds.length === 0) return 0;
+  return traitIds.reduce((s, id) => s + Math.abs((plant.met!.fwSlope[id] ?? 1) - 1), 0) / traitIds.length;
+};
+
+// Mean observed performance per location, e.g. for the environmental index table
+export const locationMeans = (plants: Plant[], locations: TrialLocation[]): Record<string, TraitValues> => {
+  const tested = plants.filter(p => p.met);
+  const means: Record<string, TraitValues> = {};
+  locations.forEach(loc => {
+    const m: TraitValues = {};
+    getArchitecture().traits.forEach(trait => {
+      m[trait.id] = tested.length
+        ? round(tested.reduce((s, p) => s + (p.met!.phenotypes[loc.id]?.[trait.id] ?? 0), 0) / tested.length)
+        : 0;
+    });
+    means[loc.id] = m;
+  });
+  return means;
+};
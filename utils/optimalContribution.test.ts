@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { Pedigree, Plant } from '../types';
+import { apportion, optimalContributions } from './optimalContribution';
+import { createKinship } from './pedigree';
+
+// Two unrelated founders (A, B) and four offspring: full sibs C and D of A × B, E a
+// half sib of A × B2, F a self of A
+const pedigree: Pedigree = Object.fromEntries([
+  ['A', null, null], ['B', null, null], ['B2', null, null],
+  ['C', 'A', 'B'], ['D', 'A', 'B'], ['E', 'A', 'B2'], ['F', 'A', 'A'],
+].map(([id, motherId, fatherId], order) => [id!, { id: id!, motherId, fatherId, generation: motherId ? 2 : 1, order }]));
+
+const candidates = ['C', 'D', 'E', 'F'].map(id => ({ id }) as Plant);
+const merit: Record<string, number> = { C: 3, D: 2.5, E: 1, F: 4 };
+const total = (shares: Record<string, number>) => Object.values(shares).reduce((s, c) => s + c, 0);
+
+describe('optimal contributions', () => {
+  const kinship = createKinship(pedigree);
+
+  it('holds group coancestry at the target while raising merit', () => {
+    const plan = optimalContributions(candidates, p => merit[p.id], kinship, 0.05);
+    expect(plan.fallback).toBeUndefined();
+    expect(total(plan.contributions)).toBeCloseTo(1, 9);
+    expect(Object.values(plan.contributions).every(c => c > 0)).toBe(true);
+    expect(plan.groupCoancestry).toBeLessThanOrEqual(plan.targetCoancestry + 1e-9);
+    expect(plan.meanMerit).toBeGreaterThan((3 + 2.5 + 1 + 4) / 4);
+  });
+
+  it('puts everything on the best candidate when inbreeding is no constraint', () => {
+    const plan = optimalContributions(candidates, p => merit[p.id], kinship, 1);
+    expect(plan.contributions.F).toBeCloseTo(1, 6);
+  });
+
+  it('falls back to truncation with equal shares when the solve fails', () => {
+    const singular = () => NaN;
+    const plan = optimalContributions(candidates, p => merit[p.id], singular, 0.05, 0.5);
+    expect(plan.fallback).toMatch(/singular/);
+    expect(plan.contributions).toEqual({ F: 0.5, C: 0.5 });
+  });
+
+  it('apportions whole offspring by largest remainder', () => {
+    expect(apportion({ a: 0.5, b: 0.3, c: 0.2 }, 7)).toEqual({ a: 4, b: 2, c: 1 });
+    expect(total(apportion({ a: 1 / 3, b: 1 / 3, c: 1 / 3 }, 10))).toBe(10);
+  });
+});
@@ -0,0 +1,114 @@
+import { ContributionPlan, Plant } from '../types';
+import { choleskySolve, dot } from './matrix';
+import { Kinship, relationshipMatrix } from './pedigree';
+
+// Optimal contribution selection (Meuwissen 1997): choose each candidate's share c_i of
+// the next generation to maximise merit c'm while holding the group coancestry c'Ac/2
+// at the level a target rate of inbreeding allows, C* = C + ΔF(1 − C).
+// Lagrangian solution c = A⁻¹(m − λ₀1)/2λ; candidates given a negative share are dropped
+// and the rest re-solved until every contribution is non-negative. When no solution
+// exists (every share dropped, or a singular A from identical lines such as doubled
+// haploids of doubled haploids) the plan falls back to truncation with equal shares.
+
+const groupCoancestry = (c: number[], a: number[][]): number =>
+  c.reduce((sum, ci, i) => sum + ci * dot(a[i], c), 0) / 2;
+
+const solveContributions = (a: number[][], m: number[], target: number): number[] => {
+  const n = m.length;
+  if (n === 1) return [1];
+  const ones = new Array(n).fill(1);
+  const aInvOne = choleskySolve(a, ones);
+  const aInvM = choleskySolve(a, m);
+  const sumOne = dot(ones, aInvOne); // 1'A⁻¹1
+  const sumM = dot(ones, aInvM); // 1'A⁻¹m
+  const quadM = dot(m, aInvM); // m'A⁻¹m
+
+  // Minimum achievable coancestry is 1/(2·1'A⁻¹1); at or below it only diversity matters
+  const numerator = quadM - (sumM * sumM) / sumOne;
+  const denominator = 8 * target - 4 / sumOne;
+  if (denominator <= 1e-12 || numerator <= 1e-12) return aInvOne.map(x => x / sumOne);
+
+  const lambda = Math.sqrt(numerator / denominator);
+  const lambda0 = (sumM - 2 * lambda) / sumOne;
+  return aInvM.map((x, i) => (x - lambda0 * aInvOne[i]) / (2 * lambda));
+};
+
+// Equal shares for the best `proportion` of the candidates
+const truncationShares = (m: number[], proportion: number): number[] => {
+  const count = Math.min(m.length, Math.max(1, Math.ceil(m.length * proportion)));
+  const best = new Set(m.map((_, i) => i).sort((a, b) => m[b] - m[a]).slice(0, count));
+  return m.map((_, i) => (best.has(i) ? 1 / count : 0));
+};
+
+export const optimalContributions = <T extends Pick<Plant, 'id'>>(
+  candidates: T[],
+  merit: (p: T) => number,
+  kinship: Kinship,
+  targetDeltaF: number,
+  fallbackProportion: number = 0.2
+): ContributionPlan => {
+  const fullA = relationshipMatrix(candidates.map(p => p.id), kinship);
+  const m = candidates.map(merit);
+
+  // Current level: group coancestry with equal contributions
+  const uniform = candidates.map(() => 1 / candidates.length);
+  const current = groupCoancestry(uniform, fullA);
+  const targetCoancestry = current + targetDeltaF * (1 - current);
+
+  let active = candidates.map((_, i) => i);
+  let c: number[] = [];
+  let fallback: string | undefined;
+  try {
+    while (active.length > 0) {
+      const a = active.map(i => active.map(j => fullA[i][j]));
+      c = solveContributions(a, active.map(i => m[i]), targetCoancestry);
+      if (!c.every(Number.isFinite)) throw new Error('Matrix is singular');
+      if (c.every(x => x >= -1e-9)) break;
+      active = active.filter((_, k) => c[k] > 0);
+    }
+    if (active.length === 0) fallback = 'no candidate kept a positive contribution';
+  } catch {
+    fallback = 'the relationship matrix is singular (some candidates are genetically identical)';
+  }
+
+  let shares: number[];
+  if (fallback) {
+    shares = truncationShares(m, fallbackProportion);
+  } else {
+    const full = new Array(candidates.length).fill(0);
+    active.forEach((i, k) => { full[i] = Math.max(0, c[k]); });
+    const total = full.reduce((s, x) => s + x, 0) || 1;
+    shares = full.map(x => x / total);
+  }
+
+  const contributions: Record<string, number> = {};
+  candidates.forEach((p, i) => {
+    if (shares[i] > 1e-6) contributions[p.id] = shares[i];
+  });
+
+  return {
+    contributions,
+    groupCoancestry: groupCoancestry(shares, fullA),
+    targetCoancestry,
+    meanMerit: dot(shares, m),
+    ...(fallback ? { fallback } : {}),
+  };
+};
+
+// Whole-number allocation of `total` units (offspring or gametes) by largest remainder
+export const apportion = (contributions: Record<string, number>, total: number): Record<string, number> => {
+  const entries = Object.entries(contributions);
+  const sum = entries.reduce((s, [, c]) => s + c, 0) || 1;
+  const exact = entries.map(([id, c]) => ({ id, value: (c / sum) * total }));
+  const counts: Record<string, number> = Object.fromEntries(exact.map(e => [e.id, Math.floor(e.value)]));
+  let remaining = total - Object.values(counts).reduce((s, n) => s + n, 0);
+  [...exact]
+    .sort((a, b) => (b.value - Math.floor(b.value)) - (a.value - Math.floor(a.value)))
+    .forEach(e => {
+      if (remaining > 0) {
+        counts[e.id]++;
+        remaining--;
+      }
+    });
+  return counts;
+};
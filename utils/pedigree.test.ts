@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Plant } from '../types';
+import { createKinship, extendPedigree, inbreedingOf, kinshipOf, meanRelationship, recordGeneration, relationshipMatrix } from './pedigree';
+
+const plant = (id: string, generation: number, motherId: string | null = null, fatherId: string | null = null, inbreeding = 0) =>
+  ({ id, generation, motherId, fatherId, inbreeding }) as Plant;
+
+// A and B unrelated founders; C and D full sibs; E a half sib by founder B2; S a self of C;
+// H a doubled haploid of C; X a founder introduced fully inbred
+const founders = [plant('A', 1), plant('B', 1), plant('B2', 1), plant('X', 1, null, null, 1)];
+const offspring = [plant('C', 2, 'A', 'B'), plant('D', 2, 'A', 'B'), plant('E', 2, 'A', 'B2')];
+const third = [plant('S', 3, 'C', 'C'), plant('H', 3, 'C', null), plant('CD', 3, 'C', 'D'), plant('XS', 3, 'X', 'X')];
+const pedigree = extendPedigree(extendPedigree(extendPedigree({}, founders), offspring), third);
+
+describe('pedigree', () => {
+  const f = createKinship(pedigree);
+
+  it('gives the textbook coancestries', () => {
+    expect(f('A', 'B')).toBe(0);
+    expect(f('A', 'A')).toBe(0.5);
+    expect(f('A', 'C')).toBe(0.25);
+    expect(f('C', 'D')).toBe(0.25);
+    expect(f('C', 'E')).toBe(0.125);
+    expect(f('X', 'X')).toBe(1);
+  });
+
+  it('gives the inbreeding of selfs, doubled haploids, sib matings and inbred founders', () => {
+    expect(inbreedingOf('S', f, pedigree)).toBe(0.5);
+    expect(inbreedingOf('H', f, pedigree)).toBe(1);
+    expect(inbreedingOf('CD', f, pedigree)).toBe(0.25);
+    expect(inbreedingOf('X', f, pedigree)).toBe(1);
+    expect(inbreedingOf('XS', f, pedigree)).toBe(1);
+  });
+
+  it('builds A = 2f with 1 + F on the diagonal', () => {
+    expect(relationshipMatrix(['S', 'C', 'A'], f)).toEqual([[1.5, 1, 0.5], [1, 1, 0.5], [0.5, 0.5, 1]]);
+    expect(meanRelationship(['C', 'D', 'E'], f)).toBeCloseTo((0.5 + 0.25 + 0.25) / 3, 12);
+  });
+
+  it('keeps the first record of a plant and numbers entries in order', () => {
+    const again = extendPedigree(pedigree, [plant('C', 5, 'D', 'E')]);
+    expect(again.C).toBe(pedigree.C);
+    expect(Object.values(pedigree).map(e => e.order)).toEqual(Object.keys(pedigree).map((_, i) => i));
+  });
+
+  it('extends the cached kinship as generations are added, and starts afresh on another pedigree', () => {
+    let current = recordGeneration({}, founders).pedigree;
+    current = recordGeneration(current, offspring).pedigree;
+    const recorded = recordGeneration(current, third);
+    expect(recorded.plants.map(p => p.inbreeding)).toEqual([0.5, 1, 0.25, 1]);
+    ['S', 'H', 'CD', 'E'].forEach(x => ['C', 'D', 'A'].forEach(y => expect(kinshipOf(recorded.pedigree)(x, y)).toBe(f(x, y))));
+
+    // A different pedigree reusing an id must not see the old coancestries
+    const other = extendPedigree({}, [plant('A', 1), plant('C', 2, 'A', 'A')]);
+    expect(kinshipOf(other)('A', 'C')).toBe(0.5);
+  });
+});
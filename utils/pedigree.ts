@@ -0,0 +1,128 @@
+import { Pedigree, PedigreeEntry, Plant } from '../types';
+import { KINSHIP_MEMO_LIMIT } from '../constants';
+
+// Pedigree bookkeeping: parent ids for every plant ever created, coancestry,
+// inbreeding coefficients (F) and the numerator relationship matrix (A = 2f).
+
+// Add a generation of plants to the pedigree (returns a new object for React state)
+export const extendPedigree = (pedigree: Pedigree, plants: Plant[]): Pedigree => {
+  const next: Pedigree = { ...pedigree };
+  let order = Object.keys(pedigree).length;
+  plants.forEach(p => {
+    if (next[p.id]) return;
+    next[p.id] = {
+      id: p.id,
+      motherId: p.motherId,
+      fatherId: p.fatherId,
+      generation: p.generation,
+      order: order++,
+      doubledHaploid: p.motherId !== null && p.fatherId === null,
+      ...(p.motherId === null && p.inbreeding > 0 ? { founderInbreeding: p.inbreeding } : {}),
+    };
+  });
+  return next;
+};
+
+// Coancestry f(x, y) by the recursive tabular method, memoized per pedigree.
+// Unknown individuals (founders' parents, external testers) are unrelated; founders are
+// non-inbred unless introduced with a known F.
+export const createKinship = (pedigree: Pedigree, memo: Map<string, number> = new Map()) => {
+  const coancestry = (x: string | null, y: string | null): number => {
+    if (!x || !y) return 0;
+    const ex = pedigree[x];
+    const ey = pedigree[y];
+    if (!ex || !ey) return 0;
+
+    const key = x < y ? `${x}|${y}` : `${y}|${x}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let f: number;
+    if (x === y) {
+      const fSelf = ex.motherId === null ? ex.founderInbreeding ?? 0 : coancestry(ex.motherId, ex.fatherId);
+      f = ex.doubledHaploid ? 1 : (1 + fSelf) / 2;
+    } else {
+      // Recurse on the younger individual's parents
+      const [young, old] = ex.order > ey.order ? [ex, y] : [ey, x];
+      f = young.doubledHaploid
+        ? coancestry(young.motherId, old)
+        : (coancestry(young.motherId, old) + coancestry(young.fatherId, old)) / 2;
+    }
+
+    memo.set(key, f);
+    return f;
+  };
+
+  return coancestry;
+};
+
+export type Kinship = ReturnType<typeof createKinship>;
+
+// Coancestries never change as generations are added, so the memo of the latest pedigree
+// carries over to any pedigree that extends it (the same entries plus new plants) and
+// only the new plants' coancestries are computed. Any other pedigree - a reset, a loaded
+// program, another branch - starts a fresh memo, as does a memo past KINSHIP_MEMO_LIMIT
+// entries. Entries are compared by value, since a pedigree posted to the engine worker
+// arrives as a copy.
+let cache: { pedigree: Pedigree; memo: Map<string, number> } | null = null;
+
+const sameEntry = (a: PedigreeEntry | undefined, b: PedigreeEntry): boolean =>
+  a === b || (a !== undefined && a.order === b.order && a.motherId === b.motherId && a.fatherId === b.fatherId &&
+    a.doubledHaploid === b.doubledHaploid && a.founderInbreeding === b.founderInbreeding);
+
+const extendsPedigree = (next: Pedigree, previous: Pedigree): boolean => {
+  for (const id in previous) {
+    if (!sameEntry(next[id], previous[id])) return false;
+  }
+  return true;
+};
+
+// Kinship of a pedigree, reusing the cached coancestries where they still hold
+export const kinshipOf = (pedigree: Pedigree): Kinship => {
+  if (
+    !cache ||
+    cache.memo.size > KINSHIP_MEMO_LIMIT ||
+    (cache.pedigree !== pedigree && !extendsPedigree(pedigree, cache.pedigree))
+  ) {
+    cache = { pedigree, memo: new Map() };
+  }
+  cache.pedigree = pedigree;
+  return createKinship(pedigree, cache.memo);
+};
+
+// Inbreeding coefficient F = coancestry of the parents (1 for doubled haploids)
+export const inbreedingOf = (id: string, kinship: Kinship, pedigree: Pedigree): number => {
+  const entry = pedigree[id];
+  if (!entry) return 0;
+  if (entry.doubledHaploid) return 1;
+  if (entry.motherId === null) return entry.founderInbreeding ?? 0;
+  return kinship(entry.motherId, entry.fatherId);
+};
+
+// Record a new generation in the pedigree and attach each plant's F
+export const recordGeneration = (pedigree: Pedigree, plants: Plant[]): { pedigree: Pedigree, plants: Plant[] } => {
+  const next = extendPedigree(pedigree, plants);
+  const kinship = kinshipOf(next);
+  return {
+    pedigree: next,
+    plants: plants.map(p => ({ ...p, inbreeding: parseFloat(inbreedingOf(p.id, kinship, next).toFixed(4)) })),
+  };
+};
+
+// Numerator relationship matrix A (a_ij = 2 f_ij) for a set of plants
+export const relationshipMatrix = (ids: string[], kinship: Kinship): number[][] =>
+  ids.map(a => ids.map(b => 2 * kinship(a, b)));
+
+// Mean pairwise relationship among distinct plants
+export const meanRelationship = (ids: string[], kinship: Kinship): number => {
+  if (ids.length < 2) return 0;
+  let sum = 0;
+  let n = 0;
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      sum += 2 * kinship(ids[i], ids[j]);
+      n++;
+    }
+  }
+  return sum / n;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { SAVE_FORMAT_VERSION } from '../constants';
+import { createKinship } from './pedigree';
+import { parseProgram, serializeProgram } from './programStore';
+import programV1 from './fixtures/program-v1.json?raw';
+
+// A program saved in format 1: four founders imported as B73, Mo17, W22 and Oh43, a half
+// diallel among them, and B73 as the recurrent parent
+const v1 = JSON.parse(programV1);
+
+describe('saved programs', () => {
+  it('moves format 1 panel founders to founder ids, with every reference following', () => {
+    const { version, state } = parseProgram(programV1);
+    expect(version).toBe(SAVE_FORMAT_VERSION);
+    expect(Object.keys(state.pedigree).slice(0, 4)).toEqual(['founder:B73', 'founder:Mo17', 'founder:W22', 'founder:Oh43']);
+    expect(state.pedigree.B73).toBeUndefined();
+    expect(state.pedigree['founder:B73']).toMatchObject({ id: 'founder:B73', motherId: null, fatherId: null });
+    expect(state.referenceParent).toMatchObject({ id: 'founder:B73', name: 'B73' });
+    state.population.forEach((p, i) => {
+      expect(p.motherId).toBe(`founder:${v1.state.population[i].motherId}`);
+      expect(p.fatherId).toBe(`founder:${v1.state.population[i].fatherId}`);
+      expect(state.pedigree[p.id].motherId).toBe(p.motherId);
+    });
+    expect(state.selectedIds).toEqual(v1.state.selectedIds);
+
+    // The pedigree still gives the inbreeding the plants were saved with
+    const kinship = createKinship(state.pedigree);
+    state.population.forEach(p => expect(kinship(p.motherId, p.fatherId)).toBe(p.inbreeding));
+  });
+
+  it('reads back what it writes, genomes included', () => {
+    const { state } = parseProgram(programV1);
+    const again = parseProgram(serializeProgram(state, 'Copy', '2026-02-01T00:00:00.000Z'));
+    expect(again).toEqual({ version: SAVE_FORMAT_VERSION, name: 'Copy', savedAt: '2026-02-01T00:00:00.000Z', state });
+    expect(again.state.population[0].genome.maternal).toBeInstanceOf(Uint8Array);
+  });
+
+  it('rejects newer, unknown and damaged saves', () => {
+    const withVersion = (version: number) => JSON.stringify({ ...v1, version });
+    expect(() => parseProgram(withVersion(SAVE_FORMAT_VERSION + 1))).toThrow(/newer/);
+    expect(() => parseProgram(withVersion(0))).toThrow(/Format 0/);
+    expect(() => parseProgram('{')).toThrow(/not valid JSON/);
+    const damaged = { ...v1, state: { ...v1.state, generation: 0 } };
+    expect(() => parseProgram(JSON.stringify(damaged))).toThrow(/"generation"/);
+  });
+});
@@ -0,0 +1,282 @@
+import { GeneticArchitecture, ProgramState, SavedProgram, SaveSlot } from '../types';
+import { AUTOSAVE_SLOT, FIELD_DESIGNS, INDEX_MODES, MATING_DESIGNS, SAVE_FORMAT_VERSION, SELECTION_SCHEMES } from '../constants';
+import { parseArchitecture } from './architecture';
+import { founderId } from './geneticsEngine';
+
+// Saved breeding programs. A program is written as JSON text - the same text goes to
+// browser storage (IndexedDB) and to exported files - with every genome byte array
+// stored as {"$bytes": base64}. Each save records the format version it was written in.
+// When the saved shape changes, SAVE_FORMAT_VERSION is bumped and a step added to
+// MIGRATIONS that rewrites the raw JSON of the previous format; older saves are brought
+// up to date one step at a time before they are checked, rather than rejected.
+
+const DB_NAME = 'cornbreeder';
+const STORE = 'programs';
+const BYTES = '$bytes';
+
+// A save slot as stored: the listing fields plus the serialized program
+interface StoredProgram extends SaveSlot {
+  data: string;
+}
+
+type RawProgram = { version: number; name?: string; savedAt?: string; state: Record<string, unknown> };
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// Decode {"$bytes": ...} objects anywhere in the parsed JSON
+const reviveBytes = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(reviveBytes);
+  if (!value || typeof value !== 'object') return value;
+  const entries = Object.entries(value);
+  if (entries.length === 1 && entries[0][0] === BYTES && typeof entries[0][1] === 'string') return fromBase64(entries[0][1]);
+  return Object.fromEntries(entries.map(([k, v]) => [k, reviveBytes(v)]));
+};
+
+export const serializeProgram = (state: ProgramState, name: string, savedAt: string = new Date().toISOString()): string => {
+  const saved: SavedProgram = { version: SAVE_FORMAT_VERSION, name, savedAt, state };
+  return JSON.stringify(saved, (_, value) => (value instanceof Uint8Array ? { [BYTES]: toBase64(value) } : value));
+};
+
+// Schema checks ------------------------------------------------------------------------
+
+const damaged = (msg: string): never => {
+  throw new Error(`The saved program is damaged: ${msg}.`);
+};
+
+type Fields = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Fields => !!v && typeof v === 'object' && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isValues = (v: unknown) => isObject(v) && Object.values(v).every(isNumber);
+const isIdOrNull = (v: unknown) => v === null || typeof v === 'string';
+const oneOf = (options: { id: string }[]) => (v: unknown) => options.some(o => o.id === v);
+
+const checkFields = (fields: Fields, where: string, checks: Record<string, (v: unknown) => boolean>) =>
+  Object.entries(checks).forEach(([key, ok]) => {
+    if (!ok(fields[key])) damaged(`${where} has no valid "${key}"`);
+  });
+
+const checkPlant = (raw: unknown, where: string, genomeLength: number) => {
+  if (!isObject(raw)) return damaged(`${where} is not a plant`);
+  checkFields(raw, where, {
+    id: v => typeof v === 'string',
+    generation: isNumber,
+    phenotype: isValues,
+    breedingValue: isValues,
+    genotypicValue: isValues,
+    motherId: isIdOrNull,
+    fatherId: isIdOrNull,
+    inbreeding: isNumber,
+  });
+  const genome = raw.genome;
+  const strand = (v: unknown) => v instanceof Uint8Array && v.length === genomeLength;
+  if (!isObject(genome) || !strand(genome.maternal) || !strand(genome.paternal) || (genome.donor !== undefined && !strand(genome.donor))) {
+    damaged(`${where} (${raw.id}) needs two strands of ${genomeLength} loci`);
+  }
+};
+
+const checkPlants = (raw: unknown, where: string, genomeLength: number, nonEmpty: boolean) => {
+  if (!Array.isArray(raw) || (nonEmpty && raw.length === 0)) return damaged(`"${where}" is not a list of plants`);
+  raw.forEach((p, i) => checkPlant(p, `${where}[${i}]`, genomeLength));
+};
+
+// Every field restoreProgram sets, with the shape the app relies on
+const checkState = (state: Fields, arch: GeneticArchitecture) => {
+  checkFields(state, 'the program', {
+    config: isObject,
+    seed: isNumber,
+    rngState: isNumber,
+    generation: v => isNumber(v) && v >= 1,
+    pedigree: isObject,
+    history: v => Array.isArray(v) && v.length > 0 && v.every(h => isObject(h) && isNumber(h.generation) && isValues(h.means)),
+    selectedIds: v => Array.isArray(v) && v.every(id => typeof id === 'string'),
+    selectionIntensity: isNumber,
+    envVariance: isNumber,
+    scenario: v => typeof v === 'string',
+    analysisMsg: v => typeof v === 'string',
+    genomicSelectionEnabled: v => typeof v === 'boolean',
+    gpModel: v => v === null || isObject(v),
+    gpMethod: v => v === 'rrblup' || v === 'gblup',
+    autoRetrain: v => typeof v === 'boolean',
+    matingDesign: oneOf(MATING_DESIGNS),
+    metEnabled: v => typeof v === 'boolean',
+    metTarget: v => typeof v === 'string',
+    mutationRate: isNumber,
+    ocsEnabled: v => typeof v === 'boolean',
+    targetDeltaF: isNumber,
+    ocsPlan: v => v === null || isObject(v),
+    markers: Array.isArray,
+    markerRequirements: isObject,
+    inoculated: v => typeof v === 'boolean',
+    epidemic: v => v === null || isObject(v),
+    fieldEnabled: v => typeof v === 'boolean',
+    fieldSettings: isObject,
+    fieldTrial: v => v === null || isObject(v),
+    indexSettings: isObject,
+    schemeSettings: isObject,
+  });
+  checkFields(state.config as Fields, 'the program setup', {
+    populationSize: isNumber,
+    offspringCount: isNumber,
+    genomeLength: isNumber,
+    initialEnvVariance: isNumber,
+    maxGenerations: isNumber,
+  });
+  checkFields(state.fieldSettings as Fields, 'the field settings', {
+    design: oneOf(FIELD_DESIGNS),
+    reps: isNumber,
+    blockSize: isNumber,
+    checks: isNumber,
+    trend: isNumber,
+    patches: isNumber,
+    analysis: v => v === 'raw' || v === 'blocks' || v === 'spatial',
+  });
+  checkFields(state.indexSettings as Fields, 'the index settings', {
+    mode: oneOf(INDEX_MODES),
+    weights: isValues,
+    desiredGains: isValues,
+    restricted: v => Array.isArray(v) && v.every(id => typeof id === 'string'),
+  });
+  checkFields(state.schemeSettings as Fields, 'the selection scheme', {
+    scheme: oneOf(SELECTION_SCHEMES),
+    cullingLevels: isValues,
+    tandemSchedule: isValues,
+  });
+  Object.entries(state.pedigree as Fields).forEach(([id, entry]) => {
+    if (!isObject(entry) || entry.id !== id || !isIdOrNull(entry.motherId) || !isIdOrNull(entry.fatherId) || !isNumber(entry.order)) {
+      damaged(`the pedigree entry for ${id} is incomplete`);
+    }
+  });
+
+  checkPlants(state.population, 'population', arch.genomeLength, true);
+  checkPlants(state.trainingSet, 'trainingSet', arch.genomeLength, false);
+  if (state.referenceParent !== null) checkPlant(state.referenceParent, 'referenceParent', arch.genomeLength);
+};
+
+// Migrations ---------------------------------------------------------------------------
+
+// Rename ids wherever they appear in the raw state: as strings and as object keys. A
+// renamed plant keeps its old id as its name.
+const renameIds = (value: unknown, renamed: Map<string, string>): unknown => {
+  if (typeof value === 'string') return renamed.get(value) ?? value;
+  if (Array.isArray(value)) return value.map(v => renameIds(v, renamed));
+  if (!value || typeof value !== 'object') return value;
+  const fields = value as Record<string, unknown>;
+  const out = Object.fromEntries(Object.entries(fields).map(([k, v]) => [renamed.get(k) ?? k, renameIds(v, renamed)]));
+  if (typeof fields.id === 'string' && renamed.has(fields.id) && 'genome' in fields) out.name = fields.id;
+  return out;
+};
+
+// MIGRATIONS[v] turns the raw JSON of format v into format v + 1
+const MIGRATIONS: Record<number, (raw: RawProgram) => RawProgram> = {
+  // 1 → 2: founders imported from a genotype file were named by their sample ids and now
+  // have founder:<sample> ids. Founders bred here are gen1-N and donors donor...; any other
+  // parentless plant of the first generation came from a panel.
+  1: raw => {
+    const pedigree = raw.state.pedigree;
+    const renamed = new Map<string, string>();
+    Object.values(isObject(pedigree) ? pedigree : {}).forEach(entry => {
+      if (!isObject(entry) || typeof entry.id !== 'string') return;
+      const imported = entry.motherId === null && entry.fatherId === null && entry.generation === 1 &&
+        !/^gen1-\d+$/.test(entry.id) && !entry.id.startsWith('donor');
+      if (imported) renamed.set(entry.id, founderId(entry.id));
+    });
+    return { ...raw, version: 2, state: renameIds(raw.state, renamed) as Record<string, unknown> };
+  },
+};
+
+// Read a saved program, migrating an older format and checking every field before it is restored
+export const parseProgram = (text: string): SavedProgram => {
+  let raw: RawProgram;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a saved program: the file is not valid JSON.');
+  }
+  if (!raw || typeof raw.version !== 'number' || !raw.state || typeof raw.state !== 'object') {
+    throw new Error('Not a saved CornBreeder program.');
+  }
+  if (raw.version > SAVE_FORMAT_VERSION) {
+    throw new Error(`This program was saved in format ${raw.version}, newer than this version of CornBreeder reads (${SAVE_FORMAT_VERSION}).`);
+  }
+  for (let version = raw.version; version < SAVE_FORMAT_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Format ${version} is not a CornBreeder save format.`);
+    raw = migrate(raw);
+  }
+
+  const state = reviveBytes(raw.state) as Fields;
+  const architecture = parseArchitecture(state.architecture);
+  checkState(state, architecture);
+  return {
+    version: SAVE_FORMAT_VERSION,
+    name: raw.name || 'Untitled program',
+    savedAt: raw.savedAt || new Date(0).toISOString(),
+    state: { ...(state as unknown as ProgramState), architecture },
+  };
+};
+
+// Browser storage ------------------------------------------------------------------------
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('This browser has no storage for saved programs.'));
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'slot' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null; // Try again on the next call
+        reject(request.error ?? new Error('Could not open browser storage.'));
+      };
+    });
+  }
+  return database;
+};
+
+// Run one request in its own transaction
+const inStore = <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Browser storage request failed.'));
+  }));
+
+// Named slots are keyed apart from the autosave, so no name can overwrite it
+const slotKey = (name: string): string => `slot:${name}`;
+
+const writeSlot = (slot: string, name: string, state: ProgramState): Promise<SaveSlot> => {
+  const savedAt = new Date().toISOString();
+  const entry: SaveSlot = { slot, name, savedAt, crop: state.architecture.name, generation: state.generation };
+  const stored: StoredProgram = { ...entry, data: serializeProgram(state, name, savedAt) };
+  return inStore('readwrite', store => store.put(stored)).then(() => entry);
+};
+
+export const saveProgram = (name: string, state: ProgramState): Promise<SaveSlot> =>
+  writeSlot(slotKey(name), name, state);
+
+export const autosaveProgram = (state: ProgramState): Promise<SaveSlot> =>
+  writeSlot(AUTOSAVE_SLOT, 'Autosave', state);
+
+// The program in a slot, or null if the slot is empty
+export const loadProgram = (slot: string): Promise<SavedProgram | null> =>
+  inStore<StoredProgram | undefined>('readonly', store => store.get(slot))
+    .then(stored => (stored ? parseProgram(stored.data) : null));
+
+// Every slot, most recently saved first
+export const listPrograms = (): Promise<SaveSlot[]> =>
+  inStore<StoredProgram[]>('readonly', store => store.getAll())
+    .then(all => all
+      .map(({ slot, name, savedAt, crop, generation }) => ({ slot, name, savedAt, crop, generation }))
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt)));
+
+export const deleteProgram = (slot: string): Promise<void> =>
+  inStore('readwrite', store => store.delete(slot)).then(() => undefined);
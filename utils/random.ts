@@ -0,0 +1,86 @@
+// Seedable pseudo-random number generator (mulberry32)
+// All stochastic steps of the genetics engine draw from this stream so that a run
+// started from the same seed (with the same selections) replays exactly.
+
+export type Rng = () => number;
+
+// mulberry32 output function for a given (already advanced) state
+const mix = (s: number): number => {
+  let t = s;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const STEP = 0x6d2b79f5;
+
+// Create an independent generator from a 32-bit seed
+export const createRng = (seed: number): Rng => {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + STEP) >>> 0;
+    return mix(s);
+  };
+};
+
+// Fresh seed for a new, unseeded run
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// Global engine stream - the state is a single uint32 so it can be snapshotted
+let currentSeed = randomSeed();
+let state = currentSeed;
+
+export const setSeed = (seed: number) => {
+  currentSeed = seed >>> 0;
+  state = currentSeed;
+};
+
+export const getSeed = (): number => currentSeed;
+
+// Raw generator state, for saving and restoring mid-run
+export const getRngState = (): number => state;
+
+export const setRngState = (s: number) => {
+  state = s >>> 0;
+};
+
+// Uniform [0, 1)
+export const random = (): number => {
+  state = (state + STEP) >>> 0;
+  return mix(state);
+};
+
+// Run `fn` with the global stream moved to `sideState`, then put it back where it was.
+// Returns the result and the side stream's new state, so a side stream (e.g. the hybrid
+// program's) can continue across calls without shifting the main program's draws.
+export const withRngState = <T,>(sideState: number, fn: () => T): [T, number] => {
+  const saved = state;
+  state = sideState >>> 0;
+  try {
+    return [fn(), state];
+  } finally {
+    state = saved;
+  }
+};
+
+// Standard normal (Box-Muller transform)
+export const randomNormal = (): number => {
+  let u = 0, v = 0;
+  while (u === 0) u = random();
+  while (v === 0) v = random();
+  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+};
+
+// Uniform integer in [0, n)
+export const randomInt = (n: number): number => Math.floor(random() * n);
+
+// Parse a user-entered seed: numbers are used as-is, any other text is hashed
+export const parseSeed = (input: string): number => {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  let h = 2166136261;
+  for (let i = 0; i < trimmed.length; i++) {
+    h = Math.imul(h ^ trimmed.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { IndexSettings, Plant } from '../types';
+import { DEFAULT_PROGRAM_CONFIG } from '../constants';
+import { getArchitecture } from './architecture';
+import { breedNextGeneration, createInitialPopulation } from './geneticsEngine';
+import { applyGenomicModel, fitGenomicModel } from './genomicPrediction';
+import { buildSelectionIndex, defaultIndexSettings, indexValue, truncationIntensity } from './selectionIndex';
+
+const arch = getArchitecture();
+const founders = createInitialPopulation(DEFAULT_PROGRAM_CONFIG, 11);
+const settings = (patch: Partial<IndexSettings>): IndexSettings => ({ ...defaultIndexSettings(arch), ...patch });
+
+describe('selection index', () => {
+  it('gives the standard truncation intensities', () => {
+    expect(truncationIntensity(0.2)).toBeCloseTo(1.40, 2);
+    expect(truncationIntensity(0.5)).toBeCloseTo(0.798, 3);
+    expect(truncationIntensity(0.05)).toBeCloseTo(2.063, 2);
+  });
+
+  it('needs at least 3 candidates', () => {
+    expect(buildSelectionIndex(founders.slice(0, 2), settings({}))).toBeNull();
+  });
+
+  it('halves the economic weights when G has to be assumed', () => {
+    const index = buildSelectionIndex(founders, settings({}))!;
+    expect(index.geneticSource).toBe('assumed');
+    arch.traits.forEach(t => expect(index.coefficients[t.id]).toBeCloseTo(arch.indexWeights[t.id] / 2, 3));
+  });
+
+  it('uses the economic weights as they are on GEBVs', () => {
+    const predicted = applyGenomicModel(founders, fitGenomicModel(founders, 'rrblup', 1));
+    const index = buildSelectionIndex(predicted, settings({}), p => p.gebv!)!;
+    expect(index.geneticSource).toBe('gebv');
+    arch.traits.forEach(t => expect(index.coefficients[t.id]).toBeCloseTo(arch.indexWeights[t.id], 3));
+  });
+
+  it('estimates G from the families of selfed candidates', () => {
+    const selfed = breedNextGeneration(founders.slice(0, 30), 1, 2, 'selfing', null, 0, null, { ...DEFAULT_PROGRAM_CONFIG, offspringCount: 300 });
+    expect(buildSelectionIndex(selfed, settings({}))!.geneticSource).toBe('families');
+  });
+
+  it('holds restricted traits at zero response', () => {
+    const index = buildSelectionIndex(founders, settings({ mode: 'restricted', restricted: ['height'] }))!;
+    expect(index.response.height).toBeCloseTo(0, 3);
+    expect(index.response.yield).toBeGreaterThan(0);
+  });
+
+  it('gives responses in proportion to the desired gains', () => {
+    const desiredGains = { yield: 2, resistance: 1, height: -1 };
+    const index = buildSelectionIndex(founders, settings({ mode: 'desired', desiredGains }))!;
+    const scale = index.response.yield / desiredGains.yield;
+    expect(scale).toBeGreaterThan(0);
+    expect(index.response.resistance / desiredGains.resistance).toBeCloseTo(scale, 2);
+    expect(index.response.height / desiredGains.height).toBeCloseTo(scale, 2);
+  });
+
+  it('scores a plant as the weighted sum of its values', () => {
+    const index = buildSelectionIndex(founders, settings({}))!;
+    const plant: Plant = founders[0];
+    const expected = arch.traits.reduce((s, t) => s + index.coefficients[t.id] * plant.phenotype[t.id], 0);
+    expect(indexValue(index, plant.phenotype)).toBeCloseTo(expected, 9);
+  });
+});
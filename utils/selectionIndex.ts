@@ -0,0 +1,160 @@
+import { GeneticArchitecture, GeneticSource, IndexSettings, Plant, SelectionIndex, TraitValues } from '../types';
+import { Matrix, choleskySolve, dot, multiplyVector, transpose } from './matrix';
+import { getArchitecture } from './architecture';
+
+// Selection indices I = b'x on the phenotype vector x. P is the phenotypic and G the
+// additive genetic covariance matrix of the traits in the candidates.
+//   Smith-Hazel (economic weights a):          b = P⁻¹Ga
+//   Desired gains (Pešek-Baker, gains d):      b = G⁻¹d, so the responses are proportional to d
+//   Restricted (Kempthorne-Nordskog, traits R): b = P⁻¹Ga − P⁻¹G_R (G_R'P⁻¹G_R)⁻¹ G_R'P⁻¹Ga
+// and the expected response of every trait is ΔG = i·Gb / σ_I with σ_I = √(b'Pb).
+// The true breeding values stay hidden, so G is estimated from what a breeder can see:
+//   GEBVs:    ranking on marker predictions, G = cov(GEBV), so the economic index is b = a
+//   families: a sib analysis of the candidates - the between-family covariance over the
+//             relationship of sibs, r = ½ in full-sib and 1 in selfed or doubled-haploid
+//             families, taking the parents as non-inbred and unrelated
+//   assumed:  with neither, h² = ½ and genetic correlations equal to the phenotypic ones
+
+const normalPdf = (x: number): number => Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+
+// Normal quantile Φ⁻¹(p) (Acklam's rational approximation, relative error < 1.2e-9)
+const normalQuantile = (p: number): number => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+// Standardized selection differential when the best fraction p of a normal population is kept
+export const truncationIntensity = (proportion: number): number => {
+  const p = Math.min(0.999, Math.max(1e-4, proportion));
+  return normalPdf(normalQuantile(1 - p)) / p;
+};
+
+// Sample covariance matrix of per-plant trait vectors
+const covarianceMatrix = (rows: number[][]): Matrix => {
+  const n = rows.length;
+  const k = rows[0].length;
+  const means = Array.from({ length: k }, (_, j) => rows.reduce((s, r) => s + r[j], 0) / n);
+  return Array.from({ length: k }, (_, i) => Array.from({ length: k }, (_, j) =>
+    rows.reduce((s, r) => s + (r[i] - means[i]) * (r[j] - means[j]), 0) / (n - 1)));
+};
+
+// Genetic covariance from families of two or more sibs (one-way MANOVA on family),
+// or null when the candidates have no usable family structure
+const familyCovariance = (plants: Plant[], rows: number[][]): Matrix | null => {
+  const families = new Map<string, { r: number; members: number[][] }>();
+  plants.forEach((p, i) => {
+    if (!p.motherId) return;
+    const single = p.fatherId === null || p.fatherId === p.motherId;
+    const key = single ? p.motherId : [p.motherId, p.fatherId].sort().join('×');
+    const family = families.get(key) ?? { r: single ? 1 : 0.5, members: [] };
+    family.members.push(rows[i]);
+    families.set(key, family);
+  });
+  const groups = [...families.values()].filter(f => f.members.length >= 2);
+  const n = groups.reduce((s, f) => s + f.members.length, 0);
+  if (groups.length < 2 || n - groups.length < 1) return null;
+
+  const k = rows[0].length;
+  const mean = (members: number[][]) => Array.from({ length: k }, (_, j) => members.reduce((s, r) => s + r[j], 0) / members.length);
+  const grand = mean(groups.flatMap(f => f.members));
+  const familyMeans = groups.map(f => mean(f.members));
+  const between = Array.from({ length: k }, (_, a) => Array.from({ length: k }, (_, b) =>
+    groups.reduce((s, f, g) => s + f.members.length * (familyMeans[g][a] - grand[a]) * (familyMeans[g][b] - grand[b]), 0) / (groups.length - 1)));
+  const within = Array.from({ length: k }, (_, a) => Array.from({ length: k }, (_, b) =>
+    groups.reduce((s, f, g) => s + f.members.reduce((t, r) => t + (r[a] - familyMeans[g][a]) * (r[b] - familyMeans[g][b]), 0), 0) / (n - groups.length)));
+  const n0 = (n - groups.reduce((s, f) => s + f.members.length ** 2, 0) / n) / (groups.length - 1);
+  const r = groups.reduce((s, f) => s + f.r * f.members.length, 0) / n;
+  const G = between.map((row, a) => row.map((v, b) => (v - within[a][b]) / n0 / r));
+
+  // Sampling error can leave a negative variance or a correlation past ±1
+  const valid = G.every((row, a) => G[a][a] > 0 && row.every((v, b) => Math.abs(v) <= Math.sqrt(G[a][a] * G[b][b])));
+  return valid ? G : null;
+};
+
+// Starting index for a crop: its balanced weights, a unit gain in each trait's breeding
+// direction, and nothing restricted
+export const defaultIndexSettings = (arch: GeneticArchitecture = getArchitecture()): IndexSettings => ({
+  mode: 'economic',
+  weights: Object.fromEntries(arch.traits.map(t => [t.id, arch.indexWeights[t.id] ?? 0])),
+  desiredGains: Object.fromEntries(arch.traits.map(t => [t.id, t.direction === 'decrease' ? -1 : 1])),
+  restricted: [],
+});
+
+// Index coefficients and expected responses for the candidates. `values` is what the
+// index is applied to (phenotypes, trial BLUEs or GEBVs); G is estimated from the same
+// values (see above).
+export const buildSelectionIndex = (
+  plants: Plant[],
+  settings: IndexSettings,
+  values: (p: Plant) => TraitValues = p => p.phenotype,
+  proportion: number = 0.2,
+  arch: GeneticArchitecture = getArchitecture()
+): SelectionIndex | null => {
+  if (plants.length < 3) return null;
+  const ids = arch.traits.map(t => t.id);
+  const rows = plants.map(p => ids.map(id => values(p)[id] ?? 0));
+  const P = covarianceMatrix(rows);
+
+  let geneticSource: GeneticSource;
+  let G: Matrix;
+  const families = familyCovariance(plants, rows);
+  if (plants.every(p => p.gebv && values(p) === p.gebv)) {
+    geneticSource = 'gebv';
+    G = P;
+  } else if (families) {
+    geneticSource = 'families';
+    G = families;
+  } else {
+    geneticSource = 'assumed';
+    G = P.map(row => row.map(v => v / 2));
+  }
+
+  let b: number[];
+  if (settings.mode === 'desired') {
+    b = choleskySolve(G, ids.map(id => settings.desiredGains[id] ?? 0));
+  } else {
+    const a = ids.map(id => settings.weights[id] ?? 0);
+    const pInvGa = choleskySolve(P, multiplyVector(G, a));
+    const held = ids.map((id, j) => (settings.mode === 'restricted' && settings.restricted.includes(id) ? j : -1)).filter(j => j >= 0);
+    if (held.length === 0) {
+      b = pInvGa;
+    } else {
+      // Columns of G for the restricted traits, and P⁻¹ applied to each
+      const gR = held.map(j => G.map(row => row[j]));
+      const pInvGR = gR.map(col => choleskySolve(P, col));
+      const inner = gR.map(ci => pInvGR.map(cj => dot(ci, cj))); // G_R'P⁻¹G_R
+      const lambda = choleskySolve(inner, gR.map(ci => dot(ci, pInvGa)));
+      const correction = transpose(pInvGR).map(row => dot(row, lambda));
+      b = pInvGa.map((v, j) => v - correction[j]);
+    }
+  }
+
+  const sigmaI = Math.sqrt(Math.max(0, dot(b, multiplyVector(P, b))));
+  const intensity = truncationIntensity(proportion);
+  const gains = multiplyVector(G, b).map(g => (sigmaI > 0 ? intensity * g / sigmaI : 0));
+  const round = (v: number) => parseFloat(v.toFixed(4));
+
+  return {
+    mode: settings.mode,
+    coefficients: Object.fromEntries(ids.map((id, j) => [id, round(b[j])])),
+    response: Object.fromEntries(ids.map((id, j) => [id, round(gains[j])])),
+    intensity: round(intensity),
+    sigmaI: round(sigmaI),
+    geneticSource,
+  };
+};
+
+// Index value of one plant
+export const indexValue = (index: SelectionIndex, values: TraitValues): number =>
+  Object.entries(index.coefficients).reduce((sum, [id, b]) => sum + b * (values[id] ?? 0), 0);
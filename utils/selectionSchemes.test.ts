@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { Plant } from '../types';
+import { getArchitecture } from './architecture';
+import { groupFamilies, independentCulling, selectByScheme, tandemTrait } from './selectionSchemes';
+
+// Three full-sib families of four, with values 0..11 in family order, and a founder
+const plant = (id: string, motherId: string | null, fatherId: string | null, value: number) =>
+  ({ id, motherId, fatherId, phenotype: { yield: value } }) as unknown as Plant;
+const families = [['A', 'B'], ['C', 'D'], ['B', 'A']].flatMap(([m, f], k) =>
+  [0, 1, 2, 3].map(i => plant(`${m}${f}${i}`, m, f, k * 4 + i)));
+const candidates = [...families, plant('F', null, null, 5)];
+const value = (p: Plant) => p.phenotype.yield;
+
+describe('selection schemes', () => {
+  it('groups reciprocal crosses into one family and founders into another', () => {
+    const grouped = groupFamilies(candidates);
+    expect([...grouped.keys()]).toEqual(['A × B', 'C × D', 'founders']);
+    expect(grouped.get('A × B')!.map(p => p.id)).toEqual(['AB0', 'AB1', 'AB2', 'AB3', 'BA0', 'BA1', 'BA2', 'BA3']);
+  });
+
+  it('takes the best of every family within families and whole families between them', () => {
+    const within = selectByScheme('withinFamily', candidates, value, 0.25).map(p => p.id);
+    expect(within).toEqual(['BA3', 'BA2', 'CD3', 'F']);
+    const between = selectByScheme('betweenFamily', candidates, value, 0.25).map(p => p.id);
+    expect(between).toEqual(['AB0', 'AB1', 'AB2', 'AB3', 'BA0', 'BA1', 'BA2', 'BA3']);
+  });
+
+  it('keeps plants near the optimum under stabilizing selection and away from it under disruptive', () => {
+    expect(selectByScheme('stabilizing', families, value, 0.25, value, 6).map(value).sort((a, b) => a - b)).toEqual([5, 6, 7]);
+    expect(selectByScheme('disruptive', families, value, 0.25, value, 6).map(value).sort((a, b) => a - b)).toEqual([0, 1, 11]);
+  });
+
+  it('culls on every level at once and rotates tandem traits on schedule', () => {
+    const arch = getArchitecture();
+    expect(independentCulling(candidates, { yield: 10 }, p => p.phenotype, arch).map(p => p.id)).toEqual(['BA2', 'BA3']);
+    const [first, second] = arch.traits.map(t => t.id);
+    const schedule = { [first]: 2, [second]: 1 };
+    expect([1, 2, 3, 4].map(g => tandemTrait(schedule, g, arch))).toEqual([first, first, second, first]);
+  });
+});
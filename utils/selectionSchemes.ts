@@ -0,0 +1,136 @@
+import { GeneticArchitecture, Plant, SchemeSettings, SelectionReport, SelectionScheme, TraitValues } from '../types';
+import { getArchitecture } from './architecture';
+import { truncationIntensity } from './selectionIndex';
+
+// Textbook selection schemes. Each picks parents from the candidates on a criterion
+// (a trait in its breeding direction, or the selection index), except independent culling,
+// which applies a threshold to every trait at once. `realizedSelection` measures what the
+// chosen group actually achieved, i = S/σ, against truncation at the same proportion.
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+
+const variance = (values: number[]): number => {
+  const m = mean(values);
+  return values.reduce((a, b) => a + (b - m) ** 2, 0) / Math.max(1, values.length);
+};
+
+// Full-sib family of a plant (selfs and doubled haploids are families of one parent);
+// founders and donors, with no recorded parents, count as one family
+export const familyKey = (plant: Plant): string =>
+  plant.motherId === null ? 'founders' : [plant.motherId, plant.fatherId ?? plant.motherId].sort().join(' × ');
+
+export const groupFamilies = (plants: Plant[]): Map<string, Plant[]> => {
+  const families = new Map<string, Plant[]>();
+  plants.forEach(p => {
+    const key = familyKey(p);
+    const family = families.get(key);
+    if (family) family.push(p);
+    else families.set(key, [p]);
+  });
+  return families;
+};
+
+const best = (plants: Plant[], value: (p: Plant) => number, count: number): Plant[] =>
+  [...plants].sort((a, b) => value(b) - value(a)).slice(0, count);
+
+// Schemes that rank on one criterion. `value` is oriented so that higher is better;
+// stabilizing and disruptive selection use the unoriented `raw` value and its optimum.
+export const selectByScheme = (
+  scheme: SelectionScheme,
+  candidates: Plant[],
+  value: (p: Plant) => number,
+  proportion: number,
+  raw: (p: Plant) => number = value,
+  optimum?: number
+): Plant[] => {
+  const count = Math.max(1, Math.ceil(candidates.length * proportion));
+  switch (scheme) {
+    case 'withinFamily':
+      // The same proportion of the best plants out of every family
+      return [...groupFamilies(candidates).values()].flatMap(family =>
+        best(family, value, Math.max(1, Math.round(family.length * proportion))));
+    case 'betweenFamily': {
+      // Whole families, best family mean first, until the quota is filled
+      const families = [...groupFamilies(candidates).values()]
+        .sort((a, b) => mean(b.map(value)) - mean(a.map(value)));
+      const chosen: Plant[] = [];
+      for (const family of families) {
+        if (chosen.length >= count) break;
+        chosen.push(...family);
+      }
+      return chosen;
+    }
+    case 'stabilizing':
+    case 'disruptive': {
+      // Closest to (or furthest from, on either side) the optimum; the mean if none is set
+      const target = optimum ?? mean(candidates.map(raw));
+      const sign = scheme === 'stabilizing' ? -1 : 1;
+      return best(candidates, p => sign * Math.abs(raw(p) - target), count);
+    }
+    default:
+      return best(candidates, value, count);
+  }
+};
+
+// Independent culling: keep every plant on the favourable side of each trait's level
+export const independentCulling = (
+  candidates: Plant[],
+  levels: TraitValues,
+  values: (p: Plant) => TraitValues,
+  arch: GeneticArchitecture = getArchitecture()
+): Plant[] =>
+  candidates.filter(p => arch.traits.every(t => {
+    const level = levels[t.id];
+    if (level === undefined) return true;
+    return t.direction === 'decrease' ? values(p)[t.id] <= level : values(p)[t.id] >= level;
+  }));
+
+// Tandem selection: the trait selected this generation. The schedule gives each trait a
+// run of consecutive generations, in trait order, and repeats.
+export const tandemTrait = (
+  schedule: Record<string, number>,
+  generation: number,
+  arch: GeneticArchitecture = getArchitecture()
+): string => {
+  const cycle = arch.traits.flatMap(t => new Array(Math.max(0, Math.round(schedule[t.id] ?? 0))).fill(t.id) as string[]);
+  if (cycle.length === 0) return arch.traits[0].id;
+  return cycle[(generation - 1) % cycle.length];
+};
+
+// What the selected group achieved relative to the candidates
+export const realizedSelection = (
+  scheme: SelectionScheme,
+  criterion: string,
+  candidates: Plant[],
+  selected: Plant[],
+  values: (p: Plant) => TraitValues,
+  value: ((p: Plant) => number) | null,
+  arch: GeneticArchitecture = getArchitecture()
+): SelectionReport => {
+  const standardized = (f: (p: Plant) => number) => {
+    const sd = Math.sqrt(variance(candidates.map(f)));
+    return sd > 0 ? (mean(selected.map(f)) - mean(candidates.map(f))) / sd : 0;
+  };
+  const round = (v: number) => parseFloat(v.toFixed(3));
+  const proportion = selected.length / Math.max(1, candidates.length);
+  const candidateVariance = value ? variance(candidates.map(value)) : 0;
+
+  return {
+    scheme,
+    criterion,
+    candidates: candidates.length,
+    selected: selected.length,
+    proportion: round(proportion),
+    intensity: value ? round(standardized(value)) : null,
+    expectedIntensity: round(truncationIntensity(proportion)),
+    traitIntensity: Object.fromEntries(arch.traits.map(t => [t.id, round(standardized(p => values(p)[t.id]))])),
+    varianceRatio: value && candidateVariance > 0 ? round(variance(selected.map(value)) / candidateVariance) : null,
+  };
+};
+
+// Plain truncation, no culling levels, and one generation per trait in tandem
+export const defaultSchemeSettings = (arch: GeneticArchitecture = getArchitecture()): SchemeSettings => ({
+  scheme: 'truncation',
+  cullingLevels: {},
+  tandemSchedule: Object.fromEntries(arch.traits.map(t => [t.id, 1])),
+});
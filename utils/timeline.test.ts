@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { PopulationStats, ProgramState } from '../types';
+import {
+  activeBranch, branchOverlays, branchTree, canDeleteBranch, createTimeline, deleteBranch, forkBranch, recordSnapshot,
+  snapshotAt, switchBranch, tipGeneration
+} from './timeline';
+
+// Only the generation and history matter to the timeline; `tag` tells snapshots apart
+const program = (generation: number, tag = 'main') =>
+  ({ generation, tag, history: Array.from({ length: generation }, (_, i) => ({ generation: i + 1 }) as PopulationStats) }) as unknown as ProgramState;
+const tagOf = (state: ProgramState | undefined) => (state as unknown as { tag: string } | undefined)?.tag;
+
+// Main run to generation 3
+const grown = [2, 3].reduce((t, g) => recordSnapshot(t, program(g)), createTimeline(program(1)));
+
+describe('timeline', () => {
+  it('replaces the tip generation, appends the next and ignores earlier ones', () => {
+    const retested = recordSnapshot(grown, program(3, 'retested'));
+    expect(activeBranch(retested).snapshots.map(tagOf)).toEqual(['main', 'main', 'retested']);
+    expect(tipGeneration(activeBranch(recordSnapshot(grown, program(4))))).toBe(4);
+    expect(recordSnapshot(grown, program(2, 'late'))).toBe(grown);
+  });
+
+  it('forks from an earlier generation, sharing the snapshots before it', () => {
+    const forked = forkBranch(grown, program(2, 'fork'));
+    const main = forked.branches[0];
+    const fork = activeBranch(forked);
+    expect(fork).toMatchObject({ id: 'branch-1', parentId: 'main', forkGeneration: 2 });
+    expect(fork.snapshots[0]).toBe(main.snapshots[0]);
+    expect(tagOf(snapshotAt(fork, 2))).toBe('fork');
+    expect(tagOf(snapshotAt(main, 2))).toBe('main');
+
+    // Growing the fork leaves the main run as it was
+    const grownFork = recordSnapshot(forked, program(3, 'fork'));
+    expect(grownFork.branches[0]).toBe(main);
+  });
+
+  it('only deletes branches that are not active and have no forks', () => {
+    const nested = forkBranch(forkBranch(grown, program(2, 'a')), program(2, 'b'));
+    expect(canDeleteBranch(nested, 'branch-1')).toBe(false); // Forked from
+    expect(canDeleteBranch(nested, 'branch-2')).toBe(false); // Active
+    const back = switchBranch(nested, 'main');
+    expect(deleteBranch(back, 'branch-2').branches.map(b => b.id)).toEqual(['main', 'branch-1']);
+    expect(deleteBranch(back, 'main')).toBe(back);
+  });
+
+  it('lists branches in tree order and overlays the visible others', () => {
+    const timeline = forkBranch(switchBranch(forkBranch(grown, program(3, 'late')), 'main'), program(2, 'early'));
+    expect(branchTree(timeline).map(({ branch, depth }) => `${branch.id}:${depth}`)).toEqual(['main:0', 'branch-2:1', 'branch-1:1']);
+    const overlays = branchOverlays(timeline, new Set(['branch-1']));
+    expect(overlays.map(o => o.id)).toEqual(['main']);
+    expect(overlays[0].history).toHaveLength(3);
+  });
+});
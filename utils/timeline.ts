@@ -0,0 +1,80 @@
+import { Branch, BranchOverlay, ProgramState, Timeline } from '../types';
+import { BRANCH_COLORS } from '../constants';
+
+// Branching history. Each branch keeps a snapshot of the whole program for every
+// generation it has reached. A fork starts from one of those generations: it shares the
+// parent's earlier snapshots (the same objects, not copies) and continues on its own.
+// Only the tip of a branch is ever updated, so earlier generations stay a faithful record
+// of the choices that were made there.
+
+export const createTimeline = (root: ProgramState): Timeline => ({
+  branches: [{ id: 'main', name: 'Main', color: BRANCH_COLORS[0], parentId: null, forkGeneration: null, snapshots: [root] }],
+  activeId: 'main',
+  forks: 0,
+});
+
+export const activeBranch = (timeline: Timeline): Branch =>
+  timeline.branches.find(b => b.id === timeline.activeId) ?? timeline.branches[0];
+
+export const tipGeneration = (branch: Branch): number => branch.snapshots[branch.snapshots.length - 1].generation;
+
+export const snapshotAt = (branch: Branch, generation: number): ProgramState | undefined =>
+  branch.snapshots.find(s => s.generation === generation);
+
+// Record the live program on the active branch: the tip generation is replaced and a new
+// generation appended. Programs at earlier generations (after stepping back) are ignored.
+export const recordSnapshot = (timeline: Timeline, state: ProgramState): Timeline => {
+  const branch = activeBranch(timeline);
+  const tip = tipGeneration(branch);
+  if (state.generation < tip) return timeline;
+  const kept = state.generation === tip ? branch.snapshots.slice(0, -1) : branch.snapshots;
+  return {
+    ...timeline,
+    branches: timeline.branches.map(b => (b.id === branch.id ? { ...b, snapshots: [...kept, state] } : b)),
+  };
+};
+
+// Fork the active branch at `state.generation` and make the fork active. `state` is the
+// program the fork starts from, usually the earlier generation with new choices made.
+export const forkBranch = (timeline: Timeline, state: ProgramState): Timeline => {
+  const parent = activeBranch(timeline);
+  const forks = timeline.forks + 1;
+  const branch: Branch = {
+    id: `branch-${forks}`,
+    name: `Branch ${forks}`,
+    color: BRANCH_COLORS[forks % BRANCH_COLORS.length],
+    parentId: parent.id,
+    forkGeneration: state.generation,
+    snapshots: [...parent.snapshots.filter(s => s.generation < state.generation), state],
+  };
+  return { branches: [...timeline.branches, branch], activeId: branch.id, forks };
+};
+
+export const switchBranch = (timeline: Timeline, id: string): Timeline => ({ ...timeline, activeId: id });
+
+// Branches nobody forked from can be dropped, except the one being worked on
+export const canDeleteBranch = (timeline: Timeline, id: string): boolean =>
+  id !== timeline.activeId && !timeline.branches.some(b => b.parentId === id);
+
+export const deleteBranch = (timeline: Timeline, id: string): Timeline =>
+  canDeleteBranch(timeline, id) ? { ...timeline, branches: timeline.branches.filter(b => b.id !== id) } : timeline;
+
+// Branches in tree order (each followed by its forks) with their depth
+export const branchTree = (timeline: Timeline): { branch: Branch; depth: number }[] => {
+  const out: { branch: Branch; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => timeline.branches
+    .filter(b => b.parentId === parentId)
+    .sort((a, b) => (a.forkGeneration ?? 0) - (b.forkGeneration ?? 0))
+    .forEach(branch => {
+      out.push({ branch, depth });
+      visit(branch.id, depth + 1);
+    });
+  visit(null, 0);
+  return out;
+};
+
+// Histories of the other branches, up to their tips, for the progress charts
+export const branchOverlays = (timeline: Timeline, hidden: Set<string>): BranchOverlay[] =>
+  timeline.branches
+    .filter(b => b.id !== timeline.activeId && !hidden.has(b.id))
+    .map(b => ({ id: b.id, name: b.name, color: b.color, history: b.snapshots[b.snapshots.length - 1].history }));